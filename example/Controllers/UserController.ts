@@ -1,13 +1,15 @@
 import { Route, GET, POST, PUT, DELETE } from '../../src/core/decorators/RouteDecorators';
 import { Auth } from '../../src/core/decorators/AuthDecorators';
 import { Validate } from '../../src/core/decorators/ValidationDecorators';
+import { Param, Body } from '../../src/core/decorators/ParamDecorators';
 import { HttpHandler } from '../../src/core/HttpHandler';
 import { UWebSocketWrapper } from '../../src/core/ServerWrapper';
 import { Logger } from '../../src/utils/logger';
-import { ErrorHandler } from '../../src/utils/errorHandler';
+import { ErrorHandler, AppError, ErrorCode, ErrorSeverity, ErrorCategory } from '../../src/utils/errorHandler';
 import { Controller } from '../../src/core/AutoRegistration';
-import { UserServiceImpl } from '../services/UserService';
-import { MiddlewareContext } from '../../src/middleware/MiddlewareContext';
+import { Inject } from '../../src/core/decorators/InjectDecorators';
+import { UserService } from '../services/UserService';
+import { User, UserCreateInput, UserUpdateInput } from '../models/User';
 import { BaseController } from '../../src/core/BaseController';
 
 // Validation schemas
@@ -41,11 +43,11 @@ export const UpdateUserSchema = {
 export class UserController extends BaseController {
     
     private logger: Logger;
-    private userService: UserServiceImpl;    
+    private userService: UserService;    
     
     constructor(
         logger: Logger,
-        userService: UserServiceImpl
+        @Inject('UserService') userService: UserService
     ) {
         super();
         this.logger = logger;
@@ -58,38 +60,28 @@ export class UserController extends BaseController {
     @POST()
     @Validate(CreateUserSchema)
     @Auth(['admin', 'moderator'])
-    async createUser(context: MiddlewareContext) {
-        try {
-            const userData = await context.getRequestBody();
-
-            const user = await this.userService.createUser({
-                username: userData.username as string,
-                email: userData.email as string,
-                name: userData.name as string
-            });
-
-            this.logger.info(`User created successfully: ${user.id}`);
-
-            context.sendSuccess({ user }, 'User created successfully');
-        } catch (error) {
-            this.logger.error('Error creating user:', error);
-            context.sendError('Failed to create user', 500);
-        }
-    }    /**
+    async createUser(@Body() userData: UserCreateInput): Promise<{ user: User }> {
+        const user = await this.userService.createUser({
+            username: userData.username,
+            email: userData.email,
+            name: userData.name
+        });
+
+        this.logger.info(`User created successfully: ${user.id}`);
+
+        return { user };
+    }
+
+    /**
      * Get all users
      */
     @GET()
-    async getAllUsers({ sendSuccess, sendError }: MiddlewareContext) {
-        try {
-            const users = await this.userService.getAllUsers();
+    async getAllUsers(): Promise<{ users: User[]; total: number }> {
+        const users = await this.userService.getAllUsers();
 
-            this.logger.info(`Retrieved ${users.length} users`);
+        this.logger.info(`Retrieved ${users.length} users`);
 
-            sendSuccess({ users, total: users.length });
-        } catch (error) {
-            this.logger.error('Error retrieving users:', error);
-            sendError('Failed to retrieve users', 500);
-        }
+        return { users, total: users.length };
     }
 
     /**
@@ -97,31 +89,15 @@ export class UserController extends BaseController {
      */
     @GET('/:id')
     @Auth()
-    async getUserById(context: MiddlewareContext) {
-        try {
-            const { id } = context.getPathParams('/users/:id');
-            this.logger.info('Context params:', context.params);
-
-
-            if (!id) {
-                context.sendError('User ID is required', 400);
-                return;
-            }
-
-            const user = await this.userService.getUserById(parseInt(id));
-
-            if (!user) {
-                context.sendError(`User with ID ${id} not found`, 404);
-                return;
-            }
+    async getUserById(@Param('id') id: number): Promise<{ user: User }> {
+        const user = await this.userService.getUserById(id);
+        if (!user) {
+            throw userNotFound(id);
+        }
 
-            this.logger.info(`Retrieved user: ${id}`);
+        this.logger.info(`Retrieved user: ${id}`);
 
-            context.sendSuccess({ user });
-        } catch (error) {
-            this.logger.error('Error retrieving user:', error);
-            context.sendError('Failed to retrieve user', 500);
-        }
+        return { user };
     }
 
     /**
@@ -130,30 +106,15 @@ export class UserController extends BaseController {
     @PUT('/:id')
     @Validate(UpdateUserSchema)
     @Auth(['admin', 'moderator'])
-    async updateUser(context: MiddlewareContext) {
-        try {
-            const { id } = context.getPathParams('/users/:id');
-
-            if (!id) {
-                context.sendError('User ID is required', 400);
-                return;
-            }
-
-            const updateData = await context.getRequestBody();
-            const user = await this.userService.updateUser(parseInt(id), updateData);
-
-            if (!user) {
-                context.sendError(`User with ID ${id} not found`, 404);
-                return;
-            }
+    async updateUser(@Param('id') id: number, @Body() updateData: UserUpdateInput): Promise<{ user: User }> {
+        const user = await this.userService.updateUser(id, updateData);
+        if (!user) {
+            throw userNotFound(id);
+        }
 
-            this.logger.info(`User updated successfully: ${id}`);
+        this.logger.info(`User updated successfully: ${id}`);
 
-            context.sendSuccess({ user }, 'User updated successfully');
-        } catch (error) {
-            this.logger.error('Error updating user:', error);
-            context.sendError('Failed to update user', 500);
-        }
+        return { user };
     }
 
     /**
@@ -161,28 +122,25 @@ export class UserController extends BaseController {
      */
     @DELETE('/:id')
     @Auth(['admin'])
-    async deleteUser(context: MiddlewareContext) {
-        try {
-            const { id } = context.getPathParams('/users/:id');
-
-            if (!id) {
-                context.sendError('User ID is required', 400);
-                return;
-            }
-
-            const deleted = await this.userService.deleteUser(parseInt(id));
-
-            if (!deleted) {
-                context.sendError(`User with ID ${id} not found`, 404);
-                return;
-            }
+    async deleteUser(@Param('id') id: number): Promise<{ deleted: boolean }> {
+        const deleted = await this.userService.deleteUser(id);
+        if (!deleted) {
+            throw userNotFound(id);
+        }
 
-            this.logger.info(`User deleted successfully: ${id}`);
+        this.logger.info(`User deleted successfully: ${id}`);
 
-            context.sendSuccess({}, 'User deleted successfully');
-        } catch (error) {
-            this.logger.error('Error deleting user:', error);
-            context.sendError('Failed to delete user', 500);
-        }
+        return { deleted };
     }
 }
+
+function userNotFound(id: number): AppError {
+    return new AppError(
+        `User with ID ${id} not found`,
+        ErrorCode.NOT_FOUND,
+        404,
+        { resource: 'User', id },
+        ErrorSeverity.LOW,
+        ErrorCategory.BUSINESS
+    );
+}
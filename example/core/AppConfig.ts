@@ -8,6 +8,7 @@
         cors: { * Extends the base framework configuration with app-specific settings
  */
 
+import path from 'path';
 import { ApplicationConfig } from '../../src/core/container/ApplicationConfig';
 
 export interface AppConfig extends ApplicationConfig {
@@ -42,6 +43,15 @@ export function createConfigFromEnv(): AppConfig {
             enabled: process.env.ENABLE_LOGGING !== 'false',
             level: (process.env.LOG_LEVEL as any) || 'info'
         },
+        database: {
+            type: 'sqlite',
+            sqlite: {
+                file: process.env.DB_FILE || './data/app.db'
+            },
+            migrations: {
+                directory: path.join(__dirname, '../database/migrations')
+            }
+        },
         environment: (process.env.NODE_ENV as any) || 'development'
     };
 }
@@ -0,0 +1,17 @@
+-- migrate:up
+CREATE TABLE users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL UNIQUE,
+    email TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'user',
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+INSERT INTO users (username, email, name, role, created_at, updated_at) VALUES
+    ('admin', 'admin@example.com', 'Administrator', 'admin', datetime('now'), datetime('now')),
+    ('user1', 'user1@example.com', 'John Doe', 'user', datetime('now'), datetime('now'));
+
+-- migrate:down
+DROP TABLE users;
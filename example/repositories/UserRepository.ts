@@ -0,0 +1,36 @@
+/**
+ * User Repository - users table access
+ */
+
+import { Repository } from '../../src/core/AutoRegistration';
+import { CrudRepository } from '../../src/database/repositories/CrudRepository';
+import { DatabaseProvider } from '../../src/database/interfaces/DatabaseProvider';
+import { User } from '../models/User';
+import 'reflect-metadata';
+
+@Repository('UserRepository')
+export class UserRepository extends CrudRepository<User> {
+    constructor(provider: DatabaseProvider) {
+        super(provider, {
+            tableName: 'users',
+            timestamps: true
+        });
+    }
+
+    /**
+     * Find a user by email
+     */
+    async findByEmail(email: string): Promise<User | null> {
+        return this.findOne({ email });
+    }
+
+    /**
+     * Find a user by username
+     */
+    async findByUsername(username: string): Promise<User | null> {
+        return this.findOne({ username });
+    }
+}
+
+// Reflect metadata for dependency injection
+Reflect.defineMetadata('design:paramtypes', [DatabaseProvider], UserRepository);
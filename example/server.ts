@@ -13,7 +13,8 @@ async function startServer(): Promise<void> {
     // Start with all features enabled
     await bootstrap.start({
         verbose: true,
-        enableAutoDiscovery: true
+        enableAutoDiscovery: true,
+        runMigrations: true
     });
 }
 
@@ -3,6 +3,7 @@ import { Logger } from '../../src/utils/logger';
 import { AppError, ErrorCode } from '../../src/utils/errorHandler';
 import { User, UserCreateInput, UserUpdateInput } from '../models/User';
 import { Service } from '../../src/core/AutoRegistration';
+import { UserRepository } from '../repositories/UserRepository';
 import 'reflect-metadata';
 
 /**
@@ -19,44 +20,16 @@ export interface UserService {
 }
 
 /**
- * Simple User Service Implementation - In-Memory Storage
- * Simplified version without repository for demonstration
+ * User Service Implementation - persisted through UserRepository
  */
 @Service('UserService')
 export class UserServiceImpl implements UserService {
-    private users: User[] = [];
-    private nextId: number = 1;
     private logger: Logger;
+    private userRepository: UserRepository;
 
-    constructor(logger: Logger) {
+    constructor(logger: Logger, userRepository: UserRepository) {
         this.logger = logger;
-        
-        // Initialize with some sample data
-        this.initializeSampleData();
-    }
-
-    private initializeSampleData(): void {
-        this.users = [
-            {
-                id: 1,
-                username: 'admin',
-                email: 'admin@example.com',
-                name: 'Administrator',
-                role: 'admin',
-                created_at: new Date(),
-                updated_at: new Date()
-            },
-            {
-                id: 2,
-                username: 'user1',
-                email: 'user1@example.com',
-                name: 'John Doe',
-                role: 'user',
-                created_at: new Date(),
-                updated_at: new Date()
-            }
-        ];
-        this.nextId = 3;
+        this.userRepository = userRepository;
     }
 
     /**
@@ -64,7 +37,8 @@ export class UserServiceImpl implements UserService {
      */
     async getAllUsers(): Promise<User[]> {
         this.logger.info('Fetching all users');
-        return [...this.users]; // Return copy to prevent external modification
+        const { items } = await this.userRepository.findMany({ limit: 1000 });
+        return items;
     }
 
     /**
@@ -72,8 +46,7 @@ export class UserServiceImpl implements UserService {
      */
     async getUserById(id: number): Promise<User | null> {
         this.logger.info(`Fetching user with ID: ${id}`);
-        const user = this.users.find(u => u.id === id);
-        return user || null;
+        return this.userRepository.findById(id);
     }
 
     /**
@@ -81,8 +54,7 @@ export class UserServiceImpl implements UserService {
      */
     async getUserByEmail(email: string): Promise<User | null> {
         this.logger.info(`Fetching user with email: ${email}`);
-        const user = this.users.find(u => u.email === email);
-        return user || null;
+        return this.userRepository.findByEmail(email);
     }
 
     /**
@@ -90,8 +62,7 @@ export class UserServiceImpl implements UserService {
      */
     async getUserByUsername(username: string): Promise<User | null> {
         this.logger.info(`Fetching user with username: ${username}`);
-        const user = this.users.find(u => u.username === username);
-        return user || null;
+        return this.userRepository.findByUsername(username);
     }
 
     /**
@@ -122,17 +93,13 @@ export class UserServiceImpl implements UserService {
             );
         }
 
-        const newUser: User = {
-            id: this.nextId++,
+        const newUser = await this.userRepository.create({
             username: userData.username,
             email: userData.email,
             name: userData.name,
-            role: userData.role || 'user',
-            created_at: new Date(),
-            updated_at: new Date()
-        };
+            role: userData.role || 'user'
+        });
 
-        this.users.push(newUser);
         this.logger.info(`User created successfully: ${newUser.id}`);
         
         return newUser;
@@ -144,13 +111,13 @@ export class UserServiceImpl implements UserService {
     async updateUser(id: number, userData: UserUpdateInput): Promise<User | null> {
         this.logger.info(`Updating user: ${id}`);
         
-        const userIndex = this.users.findIndex(u => u.id === id);
-        if (userIndex === -1) {
+        const user = await this.userRepository.findById(id);
+        if (!user) {
             return null;
         }
 
         // Check if email is being changed and already exists
-        if (userData.email && userData.email !== this.users[userIndex].email) {
+        if (userData.email && userData.email !== user.email) {
             const existingEmail = await this.getUserByEmail(userData.email);
             if (existingEmail) {
                 throw new AppError(
@@ -163,7 +130,7 @@ export class UserServiceImpl implements UserService {
         }
 
         // Check if username is being changed and already exists
-        if (userData.username && userData.username !== this.users[userIndex].username) {
+        if (userData.username && userData.username !== user.username) {
             const existingUsername = await this.getUserByUsername(userData.username);
             if (existingUsername) {
                 throw new AppError(
@@ -175,15 +142,10 @@ export class UserServiceImpl implements UserService {
             }
         }
 
-        // Update user data
-        this.users[userIndex] = {
-            ...this.users[userIndex],
-            ...userData,
-            updated_at: new Date()
-        };
+        const updatedUser = await this.userRepository.update(id, userData);
 
         this.logger.info(`User updated successfully: ${id}`);
-        return this.users[userIndex];
+        return updatedUser;
     }
 
     /**
@@ -192,17 +154,14 @@ export class UserServiceImpl implements UserService {
     async deleteUser(id: number): Promise<boolean> {
         this.logger.info(`Deleting user: ${id}`);
         
-        const userIndex = this.users.findIndex(u => u.id === id);
-        if (userIndex === -1) {
-            return false;
+        const deleted = await this.userRepository.delete(id);
+        if (deleted) {
+            this.logger.info(`User deleted successfully: ${id}`);
         }
-
-        this.users.splice(userIndex, 1);
-        this.logger.info(`User deleted successfully: ${id}`);
         
-        return true;
+        return deleted;
     }
 }
 
 // Reflect metadata for dependency injection
-Reflect.defineMetadata('design:paramtypes', [Logger], UserServiceImpl);
+Reflect.defineMetadata('design:paramtypes', [Logger, UserRepository], UserServiceImpl);
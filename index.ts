@@ -5,17 +5,23 @@
 
 // Core classes
 export { ApplicationBootstrap } from './src/core/ApplicationBootstrap';
-export { Container } from './src/core/container/Container';
+export { Container, ContainerError, ServiceNotFoundError, CircularDependencyError } from './src/core/container/Container';
 export { ContainerBuilder } from './src/core/container/ContainerBuilder';
 
 // Configuration
 export { 
     ApplicationConfig, 
     ServerConfig, 
+    SslConfig,
+    SslCertificateConfig,
     AuthConfig,
     createDefaultApplicationConfig,
     createApplicationConfig,
     validateApplicationConfig,
+    DatabaseConfig,
+    MetricsConfig,
+    CacheConfig,
+    WebSocketConfig,
     ApplicationConfigBuilder
 } from './src/core/container/ApplicationConfig';
 
@@ -24,17 +30,69 @@ export { AutoDiscovery } from './src/core/AutoDiscovery';
 export { DiscoveryConfig } from './src/core/discovery/DiscoveryConfig';
 
 // Decorators
-export { Route, GET, POST, PUT, DELETE, PATCH } from './src/core/decorators/RouteDecorators';
+export { Route, GET, POST, PUT, DELETE, PATCH, HEAD, OPTIONS, CONNECT, TRACE, ANY } from './src/core/decorators/RouteDecorators';
+export { Cache, NoCache, SSE } from './src/core/decorators/MiddlewareDecorators';
+export { Inject, Optional, InjectAll } from './src/core/decorators/InjectDecorators';
+export { Param, Body, Query, Headers, CurrentUser, Ctx } from './src/core/decorators/ParamDecorators';
+export { PipeTransform, PipeType, ArgumentMetadata, ParseIntPipe, ParseFloatPipe, ParseBoolPipe, ParseUUIDPipe } from './src/core/routing/Pipes';
+export { WebSocketGateway, OnOpen, OnMessage, OnDrain, OnClose } from './src/core/decorators/WebSocketDecorators';
 
 // Middleware and Context
 export { MiddlewareContext } from './src/middleware/AuthenticationMiddleware';
+export { SseStream, SseOptions, SseEventOptions } from './src/middleware/SseStream';
 export { HttpHandler } from './src/core/HttpHandler';
 
+// Request snapshot
+export { RequestSnapshot, DetachedRequest, captureRequest } from './src/core/server/RequestSnapshot';
+
+// Request bodies
+export { BodyReader, BodyParser, BodyParserRegistry, BodySource } from './src/core/server/BodyReader';
+
+// File uploads
+export { MultipartParser, parseMultipart, MultipartOptions, MultipartLimits, MultipartResult } from './src/core/upload/MultipartParser';
+export { MemoryStorage, DiskStorage, DiskStorageOptions, StreamStorage, UploadStorage, UploadSink, UploadFileInfo, UploadedFile } from './src/core/upload/UploadStorage';
+
 // Services
 export { SERVICE_TYPES } from './src/core/container/ServiceTypes';
 
+// WebSocket gateways
+export { GatewayManager, GatewayUserData, GatewaySocket, WebSocketEnvelope } from './src/core/websocket/GatewayManager';
+export { PubSubService, TopicGuard, TopicGuardContext, PublishOptions } from './src/core/websocket/PubSubService';
+export { WebSocketSender, WebSocketSendStatus, BackpressurePolicy } from './src/core/server/WebSocketSender';
+
+// Lifecycle
+export { LifecycleManager } from './src/core/lifecycle/LifecycleManager';
+
+// Health checks
+export { HealthCheckService } from './src/core/health/HealthCheckService';
+export {
+    createServerCheck,
+    createEventLoopCheck,
+    createMemoryCheck,
+    createDatabaseCheck
+} from './src/core/health/BuiltinHealthChecks';
+
+// Metrics
+export { MetricsService } from './src/core/metrics/MetricsService';
+export { Counter, Gauge, Histogram } from './src/core/metrics/Metrics';
+
+// Cache
+export { CacheManager } from './src/core/cache/CacheManager';
+export { MemoryCacheProvider } from './src/core/cache/MemoryCacheProvider';
+export { CacheMiddleware } from './src/middleware/CacheMiddleware';
+
+// Database
+export { DatabaseProvider } from './src/database/interfaces/DatabaseProvider';
+export { SQLiteProvider } from './src/database/providers/SQLiteProvider';
+export { createDatabaseProvider } from './src/database/providers/DatabaseProviderFactory';
+export { CrudRepository } from './src/database/repositories/CrudRepository';
+export { MigrationRunner } from './src/database/migrations/MigrationRunner';
+export { Repository, Scoped } from './src/core/AutoRegistration';
+
 // Utilities
-export { Logger } from './src/utils/logger';
+export { Logger, LogLevel, createLogger } from './src/utils/logger';
+export { ConsoleTransport, FileTransport } from './src/utils/logTransports';
+export { jsonFormatter, textFormatter } from './src/utils/logFormatters';
 export { ErrorHandler } from './src/utils/errorHandler';
 
 // Types and interfaces
@@ -54,6 +112,28 @@ export { JwtService } from './src/auth/JwtService';
 export { JWTManager } from './src/auth/jwtManager';
 
 // Re-export commonly used types
+export type { HttpMethod } from './src/types';
+export type { NotFoundHandler, MethodNotAllowedHandler } from './src/core/routing/FallbackHandlers';
+export type {
+    HealthStatus,
+    HealthProbe,
+    HealthCheck,
+    HealthCheckResult,
+    HealthReport
+} from './src/core/health/HealthCheckService';
+export type { OnModuleInit, OnApplicationReady, OnShutdown } from './src/core/lifecycle/LifecycleHooks';
+export type { LifecycleManagerOptions } from './src/core/lifecycle/LifecycleManager';
+export type { LogRecord, LogLevelName, LoggerOptions } from './src/utils/logger';
+export type { LogTransport, LogRotationOptions, FileTransportOptions } from './src/utils/logTransports';
+export type { LogFormatter } from './src/utils/logFormatters';
+export type { CacheProvider, CacheSetOptions } from './src/core/cache/CacheProvider';
+export type { CacheManagerOptions } from './src/core/cache/CacheManager';
+export type { CacheOptions, CachedResponse } from './src/middleware/CacheMiddleware';
+export type { DatabaseType, QueryParams, DatabaseRow, ExecuteResult } from './src/database/interfaces/DatabaseProvider';
+export type { SQLiteProviderOptions } from './src/database/providers/SQLiteProvider';
+export type { RepositoryConfig, WhereClause, FindManyOptions, PaginatedResult } from './src/database/repositories/CrudRepository';
+export type { Migration, MigrationStatus, MigrationRunnerOptions } from './src/database/migrations/MigrationRunner';
+
 export type {
     ComponentPatterns,
     DiscoveryConfiguration
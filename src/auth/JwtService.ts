@@ -4,6 +4,7 @@
  */
 
 import { Service } from "../core/AutoRegistration";
+import type { JWTManager } from "./jwtManager";
 
 export interface JwtPayload {
     userId: number;
@@ -32,6 +33,14 @@ export class JwtService {
         private defaultExpiresIn: string = '1h'
     ) {}
 
+    /**
+     * JwtService answering from a JWTManager - HTTP and WebSocket auth then share
+     * the container's manager (its secret, or a custom implementation)
+     */
+    static fromManager(manager: JWTManager): JwtService {
+        return new ManagedJwtService(manager);
+    }
+
     /**
      * Generate a JWT token
      */
@@ -166,3 +175,35 @@ export class JwtService {
         };
     }
 }
+
+/**
+ * JwtService delegating signing and verification to a JWTManager
+ */
+class ManagedJwtService extends JwtService {
+    constructor(private manager: JWTManager) {
+        super('');
+    }
+
+    /**
+     * Tokens expire after the manager's expiry - `expiresIn` is not supported
+     */
+    generateToken(payload: Partial<JwtPayload>): string {
+        return this.manager.generateToken(payload as any);
+    }
+
+    verifyToken(token: string): JwtVerificationResult {
+        try {
+            return {
+                success: true,
+                payload: this.manager.verifyToken(token) as unknown as JwtPayload
+            };
+        } catch (error: unknown) {
+            const message = (error as Error).message || 'Token validation failed';
+            return {
+                success: false,
+                error: message,
+                errorType: message === 'Token expired' ? 'EXPIRED' : 'INVALID'
+            };
+        }
+    }
+}
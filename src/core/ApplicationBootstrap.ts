@@ -8,8 +8,12 @@ import { Container } from './container/Container';
 import { ContainerBuilder } from './container/ContainerBuilder';
 import { SERVICE_TYPES } from './container/ServiceTypes';
 import { ApplicationConfig, createDefaultApplicationConfig } from './container/ApplicationConfig';
-import { Logger } from '../utils/logger';
+import { Logger, createLogger } from '../utils/logger';
 import { ServerStarter } from './bootstrap/ServerStarter';
+import type { DatabaseProvider } from '../database/interfaces/DatabaseProvider';
+import type { HealthCheckService } from './health/HealthCheckService';
+import type { MetricsService } from './metrics/MetricsService';
+import { LifecycleManager } from './lifecycle/LifecycleManager';
 
 /**
  * Bootstrap result interface
@@ -27,6 +31,18 @@ export interface BootstrapResult {
 export interface BootstrapOptions {
     enableAutoDiscovery?: boolean;
     verbose?: boolean;
+    /** Apply pending schema migrations before the server starts */
+    runMigrations?: boolean;
+    /** Serve /health, /health/live and /health/ready (default true) */
+    enableHealthChecks?: boolean;
+    /** Record and serve Prometheus metrics (defaults to config.metrics.enabled, then false) - the endpoint is not authenticated */
+    enableMetrics?: boolean;
+    /** Process metrics sampling interval in milliseconds (defaults to config.metrics.interval) */
+    metricsIntervalMs?: number;
+    /** Maximum duration of each onInit / onReady / onShutdown hook in milliseconds (default 10000) */
+    lifecycleHookTimeoutMs?: number;
+    /** Time to drain in-flight requests on shutdown in milliseconds (defaults to config.server.timeout.shutdown, then 10000) */
+    shutdownTimeoutMs?: number;
 }
 
 /**
@@ -37,13 +53,14 @@ export class ApplicationBootstrap {
     private containerBuilder: ContainerBuilder;
     private container?: Container;
     private serverStarter?: ServerStarter;
+    private lifecycle?: LifecycleManager;
     private config: ApplicationConfig;
     private logger: Logger;
 
     constructor(config: ApplicationConfig) {
         // Apply defaults if needed
         this.config = { ...createDefaultApplicationConfig(), ...config };
-        this.logger = new Logger();
+        this.logger = createLogger(this.config.logging);
 
         // Initialize container builder with modern system
         this.containerBuilder = ContainerBuilder.create({
@@ -66,20 +83,38 @@ export class ApplicationBootstrap {
             this.container = result.container;
 
             // 2. Manual registration of core services (temporary fix)
-            this.registerCoreServices();
+            this.registerCoreServices(options);
 
-            // 3. Perform auto-discovery
-            await this.performAutoDiscovery();
+            // 3. Apply pending migrations before anything can query the database
+            if (options.runMigrations) {
+                await this.runMigrations();
+            }
 
-            // 4. Setup server lifecycle management
+            // 4. Perform auto-discovery
+            await this.performAutoDiscovery(options);
+
+            // 5. Setup server lifecycle management
             const wrapper = this.container.resolve(SERVICE_TYPES.ServerWrapper) as any; // Type assertion needed for start method
-            this.serverStarter = new ServerStarter(this.logger);
+            this.serverStarter = new ServerStarter(this.logger, wrapper);
+
+            // 6. Initialize services (onInit) in dependency order
+            this.lifecycle = new LifecycleManager(this.container, this.logger, {
+                hookTimeoutMs: options.lifecycleHookTimeoutMs
+            });
+            await this.lifecycle.init();
 
-            // 5. Start the actual HTTP server
+            // Service shutdown hooks (metrics sampling, database, ...) run in reverse order once the server is drained
+            const lifecycle = this.lifecycle;
+            this.serverStarter.onShutdown((signal) => lifecycle.shutdown(signal));
+
+            // 7. Start the actual HTTP server
             await wrapper.start();
 
-            // 6. Start server lifecycle management
-            await this.serverStarter.start();
+            // 8. Start server lifecycle management, then tell services the server is up
+            await this.serverStarter.start({
+                shutdownTimeoutMs: options.shutdownTimeoutMs ?? this.config.server.timeout?.shutdown
+            });
+            await this.lifecycle.ready();
 
             this.logger.info('✅ Application started successfully with modern architecture');
 
@@ -98,16 +133,13 @@ export class ApplicationBootstrap {
     /**
      * Manual registration of core services - temporary fix
      */
-    private registerCoreServices(): void {
+    private registerCoreServices(options: BootstrapOptions): void {
         if (!this.container) {
             throw new Error('Container not initialized');
         }
 
-        // Register Logger
-        this.container.registerSingleton(SERVICE_TYPES.Logger, () => {
-            const { Logger } = require('../utils/logger');
-            return new Logger();
-        });
+        // Register Logger - the bootstrap logger, so every service shares its transports
+        this.container.registerSingleton(SERVICE_TYPES.Logger, () => this.logger);
 
         // Register ErrorHandler
         this.container.registerSingleton(SERVICE_TYPES.ErrorHandler, (container) => {
@@ -116,29 +148,166 @@ export class ApplicationBootstrap {
             return new ErrorHandler(logger);
         });
 
+        // Register JWTManager unless the application provides its own - HTTP and WebSocket auth share it
+        if (!this.container.isRegistered(SERVICE_TYPES.JWTManager)) {
+            this.container.registerSingleton(SERVICE_TYPES.JWTManager, (container) => {
+                const config = container.resolve(SERVICE_TYPES.Config) as ApplicationConfig;
+                const { JWTManager } = require('../auth/jwtManager');
+                return new JWTManager(config.auth.jwtSecret, config.auth.jwtExpiresIn);
+            });
+        }
+
         // Register ServerWrapper
         this.container.registerSingleton(SERVICE_TYPES.ServerWrapper, (container) => {
             const config = container.resolve(SERVICE_TYPES.Config) as ApplicationConfig;
             const logger = container.resolve(SERVICE_TYPES.Logger);
             const errorHandler = container.resolve(SERVICE_TYPES.ErrorHandler);
+            const jwtManager = container.resolve(SERVICE_TYPES.JWTManager);
             const { UWebSocketWrapper } = require('./ServerWrapper');
-            return new UWebSocketWrapper(config.server.port, logger, errorHandler);
+            return new UWebSocketWrapper(config.server.port, logger, errorHandler, jwtManager, {
+                host: config.server.host,
+                socketPath: config.server.socketPath,
+                requestOptions: {
+                    maxBodySize: config.server.maxBodySize,
+                    requestTimeoutMs: config.server.timeout?.request
+                },
+                ssl: config.server.ssl,
+                websocket: config.websocket
+            });
         });
 
+        // Register MetricsService unless the application provides its own
+        if (!this.container.isRegistered(SERVICE_TYPES.MetricsService)) {
+            this.container.registerSingleton(SERVICE_TYPES.MetricsService, (container) => {
+                const config = container.resolve(SERVICE_TYPES.Config) as ApplicationConfig;
+                const logger = container.resolve(SERVICE_TYPES.Logger);
+                const { MetricsService } = require('./metrics/MetricsService');
+                return new MetricsService(logger, { prefix: config.metrics?.prefix });
+            });
+        }
+        const metricsEnabled = this.isMetricsEnabled(options);
+
+        // Register CacheManager unless the application provides its own (e.g. Redis-backed)
+        if (!this.container.isRegistered(SERVICE_TYPES.CacheManager)) {
+            this.container.registerSingleton(SERVICE_TYPES.CacheManager, (container) => {
+                const config = container.resolve(SERVICE_TYPES.Config) as ApplicationConfig;
+                const logger = container.resolve(SERVICE_TYPES.Logger);
+                const { CacheManager } = require('./cache/CacheManager');
+                return new CacheManager({
+                    logger,
+                    maxSize: config.cache?.maxSize,
+                    defaultTtlMs: config.cache?.ttl
+                });
+            });
+        }
+
         // Register Router
         this.container.registerSingleton(SERVICE_TYPES.Router, (container) => {
+            const config = container.resolve(SERVICE_TYPES.Config) as ApplicationConfig;
+            const wrapper = container.resolve(SERVICE_TYPES.ServerWrapper);
             const logger = container.resolve(SERVICE_TYPES.Logger);
+            const errorHandler = container.resolve(SERVICE_TYPES.ErrorHandler);
             const { Router } = require('./routing/Router');
-            return new Router(logger);
+            const { JwtService } = require('../auth/JwtService');
+            const { UserRoleService } = require('../auth/UserRoleService');
+            const { AuthenticationErrorHandler } = require('../auth/AuthenticationErrorHandler');
+            return new Router(wrapper, logger, errorHandler, {
+                corsOptions: config.cors,
+                enableLogging: config.logging?.enabled !== false,
+                jwtManager: JwtService.fromManager(container.resolve(SERVICE_TYPES.JWTManager)),
+                userRoleService: new UserRoleService(),
+                authErrorHandler: new AuthenticationErrorHandler(logger),
+                metricsService: metricsEnabled ? container.resolve(SERVICE_TYPES.MetricsService) : undefined,
+                cacheManager: container.resolve(SERVICE_TYPES.CacheManager),
+                container
+            });
         });
 
+        // Register GatewayManager - serves @WebSocketGateway classes
+        if (!this.container.isRegistered(SERVICE_TYPES.GatewayManager)) {
+            this.container.registerSingleton(SERVICE_TYPES.GatewayManager, (container) => {
+                const wrapper = container.resolve(SERVICE_TYPES.ServerWrapper);
+                const logger = container.resolve(SERVICE_TYPES.Logger);
+                const errorHandler = container.resolve(SERVICE_TYPES.ErrorHandler);
+                const { GatewayManager } = require('./websocket/GatewayManager');
+                const { JwtService } = require('../auth/JwtService');
+                const { UserRoleService } = require('../auth/UserRoleService');
+                const { AuthenticationErrorHandler } = require('../auth/AuthenticationErrorHandler');
+                return new GatewayManager(wrapper, logger, errorHandler, {
+                    jwtService: JwtService.fromManager(container.resolve(SERVICE_TYPES.JWTManager)),
+                    userRoleService: new UserRoleService(),
+                    authErrorHandler: new AuthenticationErrorHandler(logger)
+                });
+            });
+        }
+
+        // Register PubSubService - topic publishing from controllers, guarded subscriptions
+        if (!this.container.isRegistered(SERVICE_TYPES.PubSubService)) {
+            this.container.registerSingleton(SERVICE_TYPES.PubSubService, (container) => {
+                const wrapper = container.resolve(SERVICE_TYPES.ServerWrapper);
+                const logger = container.resolve(SERVICE_TYPES.Logger);
+                const { PubSubService } = require('./websocket/PubSubService');
+                return new PubSubService(wrapper, logger, metricsEnabled ? container.resolve(SERVICE_TYPES.MetricsService) : undefined);
+            });
+        }
+
+        // Register DatabaseProvider when a database is configured
+        if (this.config.database) {
+            this.container.registerSingleton(SERVICE_TYPES.DatabaseProvider, (container) => {
+                const config = container.resolve(SERVICE_TYPES.Config) as ApplicationConfig;
+                const logger = container.resolve(SERVICE_TYPES.Logger);
+                const { createDatabaseProvider } = require('../database/providers/DatabaseProviderFactory');
+                return createDatabaseProvider(config.database, logger);
+            });
+        }
+
+        // Register HealthCheckService unless the application provides its own
+        if (!this.container.isRegistered(SERVICE_TYPES.HealthCheckService)) {
+            this.container.registerSingleton(SERVICE_TYPES.HealthCheckService, (container) => {
+                const logger = container.resolve(SERVICE_TYPES.Logger);
+                const { HealthCheckService } = require('./health/HealthCheckService');
+                return new HealthCheckService(logger);
+            });
+        }
+
+        // Register 404 / 405 handlers unless the application provides its own
+        if (!this.container.isRegistered(SERVICE_TYPES.NotFoundHandler)) {
+            this.container.registerSingleton(SERVICE_TYPES.NotFoundHandler, (container) => {
+                const errorHandler = container.resolve(SERVICE_TYPES.ErrorHandler);
+                const { DefaultNotFoundHandler } = require('./routing/FallbackHandlers');
+                return new DefaultNotFoundHandler(errorHandler);
+            });
+        }
+
+        if (!this.container.isRegistered(SERVICE_TYPES.MethodNotAllowedHandler)) {
+            this.container.registerSingleton(SERVICE_TYPES.MethodNotAllowedHandler, (container) => {
+                const errorHandler = container.resolve(SERVICE_TYPES.ErrorHandler);
+                const { DefaultMethodNotAllowedHandler } = require('./routing/FallbackHandlers');
+                return new DefaultMethodNotAllowedHandler(errorHandler);
+            });
+        }
+
         this.logger.info('✅ Core services registered manually');
     }
 
+    /**
+     * Apply pending schema migrations
+     */
+    private async runMigrations(): Promise<void> {
+        if (!this.container || !this.config.database) {
+            this.logger.warn('⚠️ runMigrations requested but no database is configured - skipping');
+            return;
+        }
+
+        const provider = this.container.resolve<DatabaseProvider>(SERVICE_TYPES.DatabaseProvider);
+        const { MigrationRunner } = require('../database/migrations/MigrationRunner');
+        await MigrationRunner.fromConfig(provider, this.config.database, this.logger).up();
+    }
+
     /**
      * Perform auto-discovery of handlers and controllers
      */
-    private async performAutoDiscovery(): Promise<void> {
+    private async performAutoDiscovery(options: BootstrapOptions): Promise<void> {
         if (!this.container) {
             throw new Error('Container not initialized');
         }
@@ -159,19 +328,19 @@ export class ApplicationBootstrap {
 
             this.logger.info('✅ Auto-registration completed:', stats);
 
-            // Setup routes from discovered handlers
-            await this.setupDiscoveredRoutes();
-
         } catch (error) {
             this.logger.warn('Auto-registration failed:', error);
             // Don't attempt fallback manual registration - keep it pure
         }
+
+        // Setup routes from discovered handlers - a broken route setup must abort startup
+        await this.setupDiscoveredRoutes(options);
     }
 
     /**
      * Setup routes from discovered handlers using decorators
      */
-    private async setupDiscoveredRoutes(): Promise<void> {
+    private async setupDiscoveredRoutes(options: BootstrapOptions): Promise<void> {
         if (!this.container) return;
 
         try {
@@ -180,14 +349,88 @@ export class ApplicationBootstrap {
             // Use the AutoRegistration system to process route decorators
             const { AutoRegistration } = await import('./AutoRegistration');
             await AutoRegistration.processRouteDecorators(this.container, this.logger);
+            await AutoRegistration.processGatewayDecorators(this.container, this.logger);
+
+            const router = this.container.resolve(SERVICE_TYPES.Router) as any;
+
+            if (options.enableHealthChecks !== false) {
+                this.setupHealthChecks(router);
+            }
+
+            if (this.isMetricsEnabled(options)) {
+                this.setupMetrics(router, options);
+            }
+
+            // Catch-all 404 / 405 for everything the routes above don't accept
+            router.registerFallbackHandlers(
+                this.container.resolve(SERVICE_TYPES.NotFoundHandler),
+                this.container.resolve(SERVICE_TYPES.MethodNotAllowedHandler)
+            );
 
             this.logger.info('✅ Route decorators processed successfully');
 
         } catch (error) {
             this.logger.error('Failed to process route decorators:', error);
-            // Simplified fallback: just log the error, don't try manual registration
-            this.logger.warn('Routes will not be available - auto-registration failed');
+            throw error;
+        }
+    }
+
+    /**
+     * Register the built-in health checks and the /health endpoints
+     * Checks the application registered under the same names are kept
+     */
+    private setupHealthChecks(router: any): void {
+        if (!this.container) return;
+
+        const healthCheckService = this.container.resolve<HealthCheckService>(SERVICE_TYPES.HealthCheckService);
+        const {
+            createServerCheck,
+            createEventLoopCheck,
+            createMemoryCheck,
+            createDatabaseCheck
+        } = require('./health/BuiltinHealthChecks');
+
+        const builtinChecks = [
+            createServerCheck(this.container.resolve(SERVICE_TYPES.ServerWrapper)),
+            createEventLoopCheck(),
+            createMemoryCheck()
+        ];
+        if (this.config.database) {
+            builtinChecks.push(createDatabaseCheck(this.container.resolve(SERVICE_TYPES.DatabaseProvider)));
         }
+
+        for (const check of builtinChecks) {
+            if (!healthCheckService.has(check.name)) {
+                healthCheckService.register(check);
+            }
+        }
+
+        const { HealthController } = require('./health/HealthController');
+        router.registerHandler(HealthController, new HealthController(healthCheckService));
+
+        this.logger.info(`🩺 Health checks enabled: ${healthCheckService.getCheckNames().join(', ')}`);
+    }
+
+    /**
+     * Fold error metrics in, sample process metrics and serve the scrape endpoint
+     */
+    private setupMetrics(router: any, options: BootstrapOptions): void {
+        if (!this.container) return;
+
+        const metricsService = this.container.resolve<MetricsService>(SERVICE_TYPES.MetricsService);
+        metricsService.registerErrorMetrics(this.container.resolve(SERVICE_TYPES.ErrorHandler));
+        metricsService.startProcessMetrics(options.metricsIntervalMs ?? this.config.metrics?.interval);
+
+        const endpoint = this.config.metrics?.endpoint || '/metrics';
+        const { createMetricsController } = require('./metrics/MetricsController');
+        const controller = createMetricsController(metricsService, endpoint);
+        router.registerHandler(controller.constructor, controller);
+
+        this.logger.info(`📈 Metrics available at ${endpoint}`);
+    }
+
+    private isMetricsEnabled(options: BootstrapOptions): boolean {
+        return options.enableMetrics ?? this.config.metrics?.enabled === true;
     }
 
     /**
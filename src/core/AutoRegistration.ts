@@ -5,19 +5,33 @@
  */
 
 import 'reflect-metadata';
-import { Container } from './container/Container';
+import { Container, ServiceScope, ServiceIdentifier, Constructor, ServiceNotFoundError } from './container/Container';
 import { SERVICE_TYPES } from './container/ServiceTypes';
 import { ComponentRegistry, ComponentMetadata, RegistrationOptions } from './discovery/ComponentRegistry';
 import { Logger } from '../utils/logger';
-import { MiddlewareContextImpl } from '../middleware/MiddlewareContext';
+import { MetadataUtils } from './decorators/MetadataUtils';
+import { InjectionMetadata } from './decorators/types';
+import type { Router } from './routing/Router';
+import type { GatewayManager } from './websocket/GatewayManager';
 
 // Metadata key for injectable components
 const INJECTABLE_KEY = Symbol('injectable');
 
+// Design types emitted for interfaces, primitives and untyped parameters
+const NON_INJECTABLE_TYPES: unknown[] = [Object, String, Number, Boolean, Symbol, Array, Function, Promise];
+
+// Framework classes registered under a SERVICE_TYPES symbol of a different name
+const FRAMEWORK_TOKENS: Record<string, symbol> = {
+    UWebSocketWrapper: SERVICE_TYPES.ServerWrapper,
+    SQLiteProvider: SERVICE_TYPES.DatabaseProvider
+};
+
 export interface InjectableMetadata {
     identifier: string | symbol;
     singleton: boolean;
-    type: 'service' | 'controller' | 'repository' | 'middleware' | 'component';
+    type: 'service' | 'controller' | 'repository' | 'middleware' | 'component' | 'gateway';
+    /** Overrides `singleton` - 'scoped' means one instance per request */
+    scope?: ServiceScope;
 }
 
 /**
@@ -47,6 +61,7 @@ export class AutoRegistration {
         repositories: number;
         middlewares: number;
         components: number;
+        gateways: number;
         total: number;
         errors: string[];
     }> {
@@ -56,6 +71,7 @@ export class AutoRegistration {
             repositories: 0,
             middlewares: 0,
             components: 0,
+            gateways: 0,
             total: 0,
             errors: [] as string[]
         };
@@ -97,42 +113,26 @@ export class AutoRegistration {
         const metadata = this.extractMetadata(constructor);
         if (!metadata) return null;
 
-        const { identifier, singleton, type } = metadata;
+        const { identifier, singleton, type, scope } = metadata;
         
         try {
-            const factory = () => {
-                // Get constructor parameters
-                const paramTypes = Reflect.getMetadata('design:paramtypes', constructor) || [];
-                
-                console.log(`\n🔧 Creating ${constructor.name} with ${paramTypes.length} dependencies:`);
-                paramTypes.forEach((paramType: any, index: number) => {
-                    console.log(`  [${index}] ${paramType?.name || 'unknown'}`);
-                });
-                
-                // Resolve dependencies
-                const args = paramTypes.map((paramType: any, index: number) => {
-                    console.log(`🔍 Resolving dependency [${index}]: ${paramType?.name || 'unknown'}`);
-                    try {
-                        const resolved = this.resolveDependency(container, paramType, constructor.name);
-                        console.log(`✅ Resolved [${index}]: ${paramType?.name} -> ${resolved?.constructor?.name || 'instance'}`);
-                        return resolved;
-                    } catch (error) {
-                        console.log(`❌ Failed to resolve [${index}]: ${paramType?.name} - ${error}`);
-                        throw error;
-                    }
-                });
-
-                console.log(`✅ All dependencies resolved for ${constructor.name}, creating instance...`);
-                return new constructor(...args);
-            };
+            // Resolve through the container passed in, which is the request scope for scoped services
+            const factory = (resolver: Container) => new constructor(...this.resolveParameters(resolver, constructor));
 
-            // Register based on singleton preference
-            if (singleton) {
+            // Register based on scope, then singleton preference
+            if (scope === 'scoped') {
+                container.registerScoped(identifier, factory);
+            } else if (singleton) {
                 container.registerSingleton(identifier, factory);
             } else {
                 container.registerTransient(identifier, factory);
             }
 
+            // Make the class itself injectable by type when it is registered under another token
+            if (identifier !== constructor.name && !container.isRegistered(constructor)) {
+                container.registerTransient(constructor, (resolver) => resolver.resolve(identifier));
+            }
+
             return type;
         } catch (error) {
             throw new Error(`Registration failed for ${String(identifier)}: ${error instanceof Error ? error.message : String(error)}`);
@@ -147,81 +147,69 @@ export class AutoRegistration {
     }
 
     /**
-     * Enhanced dependency resolution
+     * Resolve the constructor arguments of a class from its design:paramtypes
+     * and its @Inject / @Optional / @InjectAll metadata
      */
-    private static resolveDependency(container: Container, paramType: any, consumerName: string): any {
-        const typeName = paramType.name || paramType;
-        
-        try {
-            // Try direct resolution first
-            return container.resolve(typeName);
-        } catch (error) {
-            // Try common service mappings (string to string mappings)
-            const commonMappings = this.getCommonServiceMappings();
-            const mappedName = commonMappings[typeName];
-            
-            if (mappedName) {
-                try {
-                    return container.resolve(mappedName);
-                } catch (commonError) {
-                    console.log(`Failed to resolve ${typeName} -> ${mappedName} for ${consumerName}`);
-                }
-            }
-            
-            // Try with SERVICE_TYPES symbols
-            try {
-                const serviceTypeMapping = this.getServiceTypeMapping(typeName);
-                if (serviceTypeMapping) {
-                    return container.resolve(serviceTypeMapping);
-                }
-            } catch (serviceTypeError) {
-                console.log(`Failed to resolve via SERVICE_TYPES mapping for ${typeName} in ${consumerName}`);
-            }
-            
-            // List available services for debugging (safely handle symbols)
-            try {
-                const availableServices = container.getRegisteredServices();
-                const serviceNames = availableServices.map(service => {
-                    if (typeof service === 'symbol') {
-                        return service.toString();
-                    }
-                    return String(service);
-                }).filter(name => name !== 'null');
-                console.log(`Available services: ${serviceNames.join(', ')}`);
-                
-                throw new Error(`Cannot resolve dependency: ${typeName} for ${consumerName}. Available: ${serviceNames.join(', ')}`);
-            } catch (listError) {
-                throw new Error(`Cannot resolve dependency: ${typeName} for ${consumerName}. Error listing services: ${listError}`);
-            }
-        }
+    private static resolveParameters(container: Container, constructor: any): unknown[] {
+        const paramTypes: unknown[] = Reflect.getMetadata('design:paramtypes', constructor) || [];
+        const injections = MetadataUtils.getInjections(constructor);
+        const count = Math.max(paramTypes.length, ...Object.keys(injections).map(index => Number(index) + 1));
+
+        return Array.from({ length: count }, (_, index) =>
+            this.resolveParameter(container, constructor, index, paramTypes[index], injections[index] || {})
+        );
     }
 
-    /**
-     * Get SERVICE_TYPES symbol mapping for a given type name
-     */
-    private static getServiceTypeMapping(typeName: string): symbol | null {
-        const mappings: Record<string, symbol> = {
-            'UWebSocketWrapper': SERVICE_TYPES.ServerWrapper,
-            'Logger': SERVICE_TYPES.Logger,
-            'ErrorHandler': SERVICE_TYPES.ErrorHandler,
-            'Router': SERVICE_TYPES.Router,
-            'Config': SERVICE_TYPES.Config
-        };
-        return mappings[typeName] || null;
+    private static resolveParameter(
+        container: Container,
+        constructor: any,
+        parameterIndex: number,
+        paramType: unknown,
+        injection: InjectionMetadata
+    ): unknown {
+        if (injection.tag !== undefined) {
+            return container.resolveByTag(injection.tag);
+        }
+
+        const tokens = injection.token !== undefined
+            ? [injection.token as ServiceIdentifier]
+            : this.getTypeTokens(paramType);
+
+        const token = tokens.find(candidate => container.isRegistered(candidate));
+        if (token !== undefined) {
+            return container.resolve(token);
+        }
+
+        if (injection.optional) {
+            return undefined;
+        }
+
+        throw new ServiceNotFoundError(
+            tokens[0] ?? (paramType as Function | undefined)?.name ?? 'unknown',
+            container.getRegisteredServices(),
+            {
+                consumer: constructor.name,
+                parameterIndex,
+                hint: tokens.length === 0 ? 'interfaces and primitives need @Inject(token)' : undefined
+            }
+        );
     }
 
     /**
-     * Common service name mappings (string to string)
+     * Tokens a class-typed parameter may be registered under: the class itself,
+     * its name (the decorators' default identifier) and its SERVICE_TYPES symbol
      */
-    private static getCommonServiceMappings(): Record<string, string> {
-        return {
-            'UserService': 'UserService',
-            'UserServiceImpl': 'UserService', // Map implementation class to service identifier
-            'ProductService': 'ProductService',            'ProductRepository': 'ProductRepository',
-            'UserRepository': 'UserRepository',
-            'AppRepositoryManager': 'AppRepositoryManager',
-            'RepositoryManager': 'AppRepositoryManager'
-        };
+    private static getTypeTokens(paramType: unknown): ServiceIdentifier[] {
+        if (typeof paramType !== 'function' || NON_INJECTABLE_TYPES.includes(paramType)) {
+            return [];
+        }
+
+        const tokens: ServiceIdentifier[] = [paramType as Constructor, paramType.name, Symbol.for(paramType.name)];
+        const frameworkToken = FRAMEWORK_TOKENS[paramType.name];
+        if (frameworkToken) {
+            tokens.push(frameworkToken);
+        }
+        return tokens;
     }
 
     /**
@@ -265,33 +253,28 @@ export class AutoRegistration {
 
     /**
      * Process route decorators from registered controllers
+     * Routes go through the Router so decorator middlewares and guards are applied
      */
     static async processRouteDecorators(container: Container, logger?: Logger): Promise<void> {
         logger?.info('🔗 Processing route decorators from controllers...');
-          try {
-            // Get the server wrapper to register routes
-            const serverWrapper = container.resolve(SERVICE_TYPES.ServerWrapper) as any;
-            
-            if (!serverWrapper) {
-                throw new Error('ServerWrapper not found in container');
-            }
-            
-            if (typeof serverWrapper.addHttpHandler !== 'function') {
-                logger?.error('ServerWrapper methods available:', Object.getOwnPropertyNames(serverWrapper));
-                throw new Error('ServerWrapper does not support route registration - missing addHttpHandler() method');
+        try {
+            const router = container.resolve(SERVICE_TYPES.Router) as Router;
+
+            if (!router || typeof router.registerHandler !== 'function') {
+                throw new Error('Router does not support route registration - missing registerHandler() method');
             }
-            
+
             // Process each registered controller
             for (const constructor of this.registeredClasses) {
                 const metadata = this.extractMetadata(constructor);
-                
+
                 if (metadata && metadata.type === 'controller') {
-                    await this.processControllerRoutes(container, constructor, metadata, serverWrapper, logger);
+                    this.processControllerRoutes(container, constructor, metadata, router, logger);
                 }
             }
-            
+
             logger?.info('✅ Route decorators processed successfully');
-            
+
         } catch (error) {
             logger?.error('Failed to process route decorators:', error);
             logger?.error('Error details:', {
@@ -305,41 +288,33 @@ export class AutoRegistration {
     /**
      * Process routes for a single controller
      */
-    private static async processControllerRoutes(
+    private static processControllerRoutes(
         container: Container,
         constructor: any,
         metadata: InjectableMetadata,
-        serverWrapper: any,
+        router: Router,
         logger?: Logger
-    ): Promise<void> {        try {            // Get the controller instance from container
+    ): void {
+        try {
+            // Get the controller instance from container
             const controllerInstance = container.resolve(metadata.identifier);
-            
+
             if (!controllerInstance) {
                 logger?.warn(`Controller ${String(metadata.identifier)} not found in container`);
                 return;
-            }            // If the controller extends BaseController, inject common dependencies
+            }
+
+            // If the controller extends BaseController, inject common dependencies
             if ((controllerInstance as any).setDependencies && typeof (controllerInstance as any).setDependencies === 'function') {
                 const errorHandler = container.resolve(SERVICE_TYPES.ErrorHandler);
                 const server = container.resolve(SERVICE_TYPES.ServerWrapper);
                 (controllerInstance as any).setDependencies(errorHandler, server);
                 logger?.debug(`Dependencies injected for BaseController: ${String(metadata.identifier)}`);
             }
-            
-            // Import MetadataUtils to properly extract route information
-            const { MetadataUtils } = await import('./decorators/MetadataUtils');
-            
-            // Get route information using MetadataUtils
-            const { classMetadata, routes } = MetadataUtils.extractRouteInfo(constructor);
-              // Register each route
-            for (const route of routes) {
-                const fullPath = MetadataUtils.getFullPath(classMetadata, route.path);
-                await this.registerRoute(serverWrapper, route.method, fullPath, controllerInstance, route.handler, logger);
-            }
-            
-            if (routes.length > 0) {
-                logger?.info(`✅ Registered ${routes.length} routes for controller ${String(metadata.identifier)}`);
-            }
-            
+
+            // Middleware chain, guards and server registration are handled by the Router
+            router.registerHandler(constructor, controllerInstance);
+
         } catch (error) {
             logger?.error(`Failed to process routes for controller ${String(metadata.identifier)}:`, error);
             throw error;
@@ -347,77 +322,26 @@ export class AutoRegistration {
     }
 
     /**
-     * Register a single route
+     * Register the WebSocket gateways (@WebSocketGateway classes) with the GatewayManager
      */
-    private static async registerRoute(
-        serverWrapper: any,
-        httpMethod: 'get' | 'post' | 'put' | 'delete' | 'patch',
-        path: string,
-        controllerInstance: any,
-        methodName: string,
-        logger?: Logger
-    ): Promise<void> {
-        try {      
-                logger?.debug(`HELLO`);
-            // Validate method name      
-                const handler = async (req: any, res: any) => {
-                // Create proper MiddlewareContext instance
-                const context = new MiddlewareContextImpl(req, res);
-                
-                // Set up context properties
-                context.url = req.getUrl ? req.getUrl() : req.url || path;
-                context.method = httpMethod.toUpperCase();
-                context.requestId = Math.random().toString(36).substring(2, 15);
-                context.routePattern = path;
-                context.data = {
-                    requestId: context.requestId,
-                    startTime: Date.now()
-                };                  try {
-                    logger?.debug(`About to call handler method for: ${httpMethod.toUpperCase()} ${path}`, {
-                        method: httpMethod,
-                        path,
-                        handlerMethod: methodName,
-                        controllerName: controllerInstance.constructor.name,
-                        contextKeys: Object.keys(context)
-                    });
-                    
-                    await controllerInstance[methodName](context);
-                    
-                    logger?.debug(`Handler method completed successfully for: ${httpMethod.toUpperCase()} ${path}`, {
-                        method: httpMethod,
-                        path,
-                        handlerMethod: methodName
-                    });                } catch (handlerError) {
-                    const error = handlerError as Error;
-                    logger?.error(`Handler error caught for ${httpMethod.toUpperCase()} ${path}:`, {
-                        error: handlerError,
-                        errorMessage: error?.message || String(handlerError),
-                        errorStack: error?.stack,
-                        method: httpMethod,
-                        path,
-                        handlerMethod: methodName,
-                        controllerName: controllerInstance.constructor.name,
-                        contextType: context.constructor.name,
-                        contextMethods: Object.getOwnPropertyNames(Object.getPrototypeOf(context))
-                    });
-                    
-                    // Send error response if not already sent
-                    if (!res.aborted && res.writeStatus) {
-                        res.writeStatus('500 Internal Server Error');
-                        res.writeHeader('Content-Type', 'application/json');
-                        res.end(JSON.stringify({ error: 'Internal Server Error' }));
-                    }
-                }
-            };
-            
-            // Register route based on HTTP method using UWebSocketWrapper's addHttpHandler method
-            serverWrapper.addHttpHandler(httpMethod as 'get' | 'post' | 'put' | 'delete', path, handler, false);
-            
-            logger?.info(`🛤️ Route registered: ${httpMethod.toUpperCase()} ${path} -> ${controllerInstance.constructor.name}.${methodName}`);
-            
-        } catch (error) {
-            logger?.error(`Failed to register route ${httpMethod.toUpperCase()} ${path}:`, error);
-            throw error;
+    static async processGatewayDecorators(container: Container, logger?: Logger): Promise<void> {
+        const gateways = Array.from(this.registeredClasses)
+            .filter(constructor => this.extractMetadata(constructor)?.type === 'gateway');
+
+        if (gateways.length === 0) {
+            return;
+        }
+
+        const gatewayManager = container.resolve(SERVICE_TYPES.GatewayManager) as GatewayManager;
+
+        for (const constructor of gateways) {
+            const metadata = this.extractMetadata(constructor)!;
+            try {
+                gatewayManager.registerGateway(constructor, container.resolve(metadata.identifier));
+            } catch (error) {
+                logger?.error(`Failed to register gateway ${String(metadata.identifier)}:`, error);
+                throw error;
+            }
         }
     }
 
@@ -459,6 +383,29 @@ export const Controller = createInjectableDecorator('controller', false);
 export const Repository = createInjectableDecorator('repository', true);
 export const Middleware = createInjectableDecorator('middleware', true);
 export const Component = createInjectableDecorator('component', true);
+/** Used by @WebSocketGateway - gateways are singletons shared by all connections */
+export const Gateway = createInjectableDecorator('gateway', true);
+
+/**
+ * Request-scoped service decorator
+ * One instance per HTTP request, shared by everything resolving it from `context.scope`
+ * and disposed (through its dispose() method, if any) once the response is sent
+ */
+export function Scoped(identifier?: string | symbol) {
+    return function <T extends { new (...args: any[]): {} }>(constructor: T) {
+        const metadata: InjectableMetadata = {
+            identifier: identifier || constructor.name,
+            singleton: false,
+            type: 'service',
+            scope: 'scoped'
+        };
+
+        Reflect.defineMetadata(INJECTABLE_KEY, metadata, constructor);
+        AutoRegistration.registerClass(constructor);
+
+        return constructor;
+    };
+}
 
 /**
  * Generic Injectable decorator
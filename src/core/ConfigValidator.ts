@@ -101,7 +101,7 @@ export class ConfigValidator {
             const configObj = config as any;
 
             // Basic required field validation
-            if (!configObj.server?.port) {
+            if (configObj.server?.port === undefined) {
                 if (typeof configObj.port === 'number') {
                     // Migrate legacy format
                     configObj.server = { ...configObj.server, port: configObj.port };
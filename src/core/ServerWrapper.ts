@@ -3,8 +3,9 @@
  * Single Responsibility: uWebSockets.js app configuration and route registration
  */
 
+import fs from 'fs';
 import * as uWS from 'uWebSockets.js';
-import { HttpHandler, WebSocketHandler } from '../types';
+import { HttpHandler, HttpMethod, WebSocketHandler } from '../types';
 import { Logger } from '../utils/logger';
 import { ErrorHandler } from '../utils/errorHandler';
 import { JWTManager } from '../auth/jwtManager';
@@ -15,6 +16,11 @@ import { HttpHandlerWrapper, HandlerWrapperOptions } from './server/HttpHandlerW
 import { AuthenticationWrapper, AuthenticationOptions } from './server/AuthenticationWrapper';
 import { ResponseManager, ResponseOptions } from './server/ResponseManager';
 import { RequestManager, RequestManagerOptions } from './server/RequestManager';
+import { createTemplatedApp, createHttpsRedirectApp } from './server/TlsAppFactory';
+import { WebSocketSender, WebSocketSendStatus } from './server/WebSocketSender';
+import type { SslConfig, WebSocketConfig } from './container/ApplicationConfig';
+import type { MultipartOptions } from './upload/MultipartParser';
+import type { BodyParser, BodySource } from './server/BodyReader';
 
 export interface UWebSocketWrapperOptions {
     /** Handler wrapper options */
@@ -27,8 +33,40 @@ export interface UWebSocketWrapperOptions {
     requestOptions?: RequestManagerOptions;
     /** Enable server events */
     enableEvents?: boolean;
+    /** Serve HTTPS (uWS.SSLApp) when enabled */
+    ssl?: SslConfig;
+    /** Interface to bind, IPv4 or IPv6 (all interfaces when omitted) */
+    host?: string;
+    /** Listen on a Unix domain socket instead of host and port */
+    socketPath?: string;
+    /** Defaults for every WebSocket route and managed sends */
+    websocket?: WebSocketConfig;
 }
 
+/** TemplatedApp method registering the routes of each HTTP method */
+const APP_ROUTE_METHODS: Record<HttpMethod, 'get' | 'post' | 'put' | 'del' | 'patch' | 'head' | 'options' | 'connect' | 'trace' | 'any'> = {
+    get: 'get',
+    post: 'post',
+    put: 'put',
+    delete: 'del',
+    patch: 'patch',
+    head: 'head',
+    options: 'options',
+    connect: 'connect',
+    trace: 'trace',
+    any: 'any'
+};
+
+const WEBSOCKET_DEFAULTS: Required<WebSocketConfig> = {
+    compression: 'disabled',
+    maxPayloadLength: 16 * 1024,
+    idleTimeout: 120,
+    heartbeat: true,
+    maxBackpressure: 64 * 1024,
+    backpressurePolicy: 'queue',
+    maxQueuedMessages: 1000
+};
+
 /**
  * UWebSocket Wrapper - Refactored with Single Responsibility Principle
  * Now delegates specific responsibilities to specialized managers
@@ -46,10 +84,22 @@ export class UWebSocketWrapper {
     private authWrapper?: AuthenticationWrapper;
     private responseManager!: ResponseManager;
     private requestManager!: RequestManager;
+    private webSocketSender!: WebSocketSender;
 
     // Server state
     private isStarted = false;
     private listenSocket?: uWS.us_listen_socket;
+    private host?: string;
+    private socketPath?: string;
+    private ssl?: SslConfig;
+    private redirectListenSocket?: uWS.us_listen_socket;
+    private websocket: Required<WebSocketConfig>;
+
+    // Drain state - in-flight async requests and open WebSockets
+    private draining = false;
+    private inFlightRequests = 0;
+    private openSockets = new Set<uWS.WebSocket<any>>();
+    private idleWaiters: Array<() => void> = [];
 
     constructor(
         port: number, 
@@ -59,7 +109,15 @@ export class UWebSocketWrapper {
         options: UWebSocketWrapperOptions = {}
     ) {
         this.port = port;
-        this.app = uWS.App();
+        this.host = options.host;
+        this.socketPath = options.socketPath;
+        this.ssl = options.ssl;
+        // Settings left unset (e.g. missing environment variables) keep their default
+        this.websocket = {
+            ...WEBSOCKET_DEFAULTS,
+            ...Object.fromEntries(Object.entries(options.websocket || {}).filter(([, value]) => value !== undefined))
+        };
+        this.app = createTemplatedApp(options.ssl);
         this.logger = logger;
         this.errorHandler = errorHandler;
         this.jwtManager = jwtManager;
@@ -99,6 +157,13 @@ export class UWebSocketWrapper {
 
         // Request manager
         this.requestManager = new RequestManager(this.logger, options.requestOptions);
+
+        // Backpressure-aware WebSocket sends
+        this.webSocketSender = new WebSocketSender({
+            maxBackpressure: this.websocket.maxBackpressure,
+            policy: this.websocket.backpressurePolicy,
+            maxQueuedMessages: this.websocket.maxQueuedMessages
+        }, this.logger);
     }
 
     /**
@@ -113,35 +178,112 @@ export class UWebSocketWrapper {
         await this.eventManager?.emit('starting', { port: this.port });
 
         return new Promise((resolve, reject) => {
-            this.app.listen(this.port, (token: uWS.us_listen_socket | false) => {
+            const onListen = (token: uWS.us_listen_socket | false) => {
                 if (token) {
+                    // Port 0 binds an ephemeral port - report the real one
+                    if (!this.socketPath) {
+                        this.port = uWS.us_socket_local_port(token);
+                    }
+
+                    if (!this.startHttpsRedirect()) {
+                        uWS.us_listen_socket_close(token);
+                        const error = new Error(`Failed to listen for HTTP redirects on port ${this.ssl?.redirectHttpPort}`);
+                        this.logger.error(error.message);
+                        this.eventManager?.emit('error', { error: error.message, port: this.port });
+                        reject(error);
+                        return;
+                    }
+
                     this.listenSocket = token;
                     this.isStarted = true;
                     
-                    this.logger.info(`🚀 Server running on port ${this.port}`);
-                    this.eventManager?.emit('started', { port: this.port });
+                    this.logger.info(`🚀 Server running on ${this.getAddress()}`);
+                    this.eventManager?.emit('started', { port: this.port, address: this.getAddress() });
                     
                     resolve();
                 } else {
-                    const error = new Error('Failed to start server');
-                    this.logger.error('Failed to start server', { port: this.port });
+                    const error = new Error(`Failed to start server on ${this.getAddress()}`);
+                    this.logger.error('Failed to start server', { address: this.getAddress() });
                     this.eventManager?.emit('error', { error: error.message, port: this.port });
                     
                     reject(error);
                 }
-            });
+            };
+
+            if (this.socketPath) {
+                this.removeStaleSocket(this.socketPath);
+                this.app.listen_unix(onListen, this.socketPath);
+            } else if (this.host) {
+                this.app.listen(this.host, this.port, onListen);
+            } else {
+                this.app.listen(this.port, onListen);
+            }
         });
     }
 
     /**
-     * Stop the server
+     * A socket file left by a crashed process would make listen_unix fail
+     */
+    private removeStaleSocket(socketPath: string): void {
+        try {
+            if (fs.statSync(socketPath).isSocket()) {
+                fs.unlinkSync(socketPath);
+            }
+        } catch {
+            // Nothing there
+        }
+    }
+
+    /**
+     * Listen on ssl.redirectHttpPort with an app redirecting to HTTPS (when configured)
+     */
+    private startHttpsRedirect(): boolean {
+        const redirectPort = this.ssl?.enabled ? this.ssl.redirectHttpPort : undefined;
+        if (redirectPort === undefined) {
+            return true;
+        }
+
+        let listening = false;
+        const onListen = (token: uWS.us_listen_socket | false) => {
+            if (token) {
+                this.redirectListenSocket = token;
+                listening = true;
+                this.logger.info(`↪️ Redirecting HTTP on port ${redirectPort} to HTTPS`);
+            }
+        };
+
+        const redirectApp = createHttpsRedirectApp(this.port);
+        if (this.host) {
+            redirectApp.listen(this.host, redirectPort, onListen);
+        } else {
+            redirectApp.listen(redirectPort, onListen);
+        }
+        return listening;
+    }
+
+    /**
+     * Stop the server: stop accepting, drain, then emit 'stopped'
      */
-    async stop(): Promise<void> {
+    async stop(drainTimeoutMs: number = 10000): Promise<void> {
         if (!this.isStarted) {
             this.logger.warn('Server is not started');
             return;
         }
 
+        await this.stopAccepting();
+        await this.drain(drainTimeoutMs);
+        await this.finishShutdown();
+    }
+
+    /**
+     * Close the listen socket - established connections stay open
+     * Requests arriving on them from now on are answered with 503 and Connection: close.
+     */
+    async stopAccepting(): Promise<void> {
+        if (!this.isStarted) {
+            return;
+        }
+
         await this.eventManager?.emit('stopping', { port: this.port });
 
         try {
@@ -149,10 +291,18 @@ export class UWebSocketWrapper {
                 uWS.us_listen_socket_close(this.listenSocket);
                 this.listenSocket = undefined;
             }
+            if (this.redirectListenSocket) {
+                uWS.us_listen_socket_close(this.redirectListenSocket);
+                this.redirectListenSocket = undefined;
+            }
+
+            if (this.socketPath) {
+                this.removeStaleSocket(this.socketPath);
+            }
 
             this.isStarted = false;
-            this.logger.info(`🛑 Server stopped on port ${this.port}`);
-            await this.eventManager?.emit('stopped', { port: this.port });
+            this.draining = true;
+            this.logger.info(`🚧 Stopped accepting connections on ${this.getAddress()}`);
 
         } catch (error) {
             this.logger.error('Error stopping server:', error);
@@ -161,11 +311,62 @@ export class UWebSocketWrapper {
         }
     }
 
+    /**
+     * Wait for in-flight requests to finish and WebSockets to close
+     * WebSockets are asked to close with 1001 (going away) and are closed forcefully
+     * when the timeout elapses. Resolves false if anything was still open by then.
+     */
+    async drain(timeoutMs: number): Promise<boolean> {
+        this.draining = true;
+
+        for (const ws of Array.from(this.openSockets)) {
+            try {
+                ws.end(1001, 'Server shutting down');
+            } catch {
+                // Already closed
+                this.openSockets.delete(ws);
+            }
+        }
+
+        let timer: NodeJS.Timeout | undefined;
+        const idle = new Promise<boolean>(resolve => {
+            this.idleWaiters.push(() => resolve(true));
+            this.notifyIfIdle();
+        });
+        const timeout = new Promise<boolean>(resolve => {
+            timer = setTimeout(() => resolve(false), timeoutMs);
+        });
+
+        const drained = await Promise.race([idle, timeout]);
+        clearTimeout(timer);
+
+        if (!drained) {
+            this.logger.warn(`⚠️ Drain timed out after ${timeoutMs}ms`, {
+                inFlightRequests: this.inFlightRequests,
+                openWebSockets: this.openSockets.size
+            });
+            for (const ws of Array.from(this.openSockets)) {
+                ws.close();
+            }
+            this.openSockets.clear();
+        }
+
+        return drained;
+    }
+
+    /**
+     * Mark the shutdown complete
+     */
+    async finishShutdown(): Promise<void> {
+        this.logger.info(`🛑 Server stopped on ${this.getAddress()}`);
+        await this.eventManager?.emit('stopped', { port: this.port });
+    }
+
     /**
      * Add HTTP handler with automatic wrapping
      */
     addHttpHandler(
-        method: 'get' | 'post' | 'put' | 'delete', 
+        method: HttpMethod, 
         route: string, 
         handler: HttpHandler, 
         requireAuth: boolean = false
@@ -182,24 +383,19 @@ export class UWebSocketWrapper {
 
         // Create uWS adapter (swaps req/res order)
         const uwsHandler = (res: uWS.HttpResponse, req: uWS.HttpRequest) => {
-            wrappedHandler(req, res);
+            if (this.draining) {
+                this.rejectWhileDraining(res);
+                return;
+            }
+            this.trackRequest(wrappedHandler(req, res));
         };
 
         // Register with uWebSockets
-        switch (method) {
-            case 'get':
-                this.app.get(route, uwsHandler);
-                break;
-            case 'post':
-                this.app.post(route, uwsHandler);
-                break;
-            case 'put':
-                this.app.put(route, uwsHandler);
-                break;
-            case 'delete':
-                this.app.del(route, uwsHandler);
-                break;
+        const appMethod = APP_ROUTE_METHODS[method];
+        if (!appMethod) {
+            throw new Error(`Unsupported HTTP method: ${method}`);
         }
+        this.registerOnEveryServerName(() => this.app[appMethod](route, uwsHandler));
 
         this.logger.debug(`Registered ${method.toUpperCase()} ${route}`, { requireAuth });
     }
@@ -208,7 +404,7 @@ export class UWebSocketWrapper {
      * Add HTTP handler with optional authentication
      */
     addHttpHandlerWithOptionalAuth(
-        method: 'get' | 'post' | 'put' | 'delete',
+        method: HttpMethod,
         route: string,
         handler: HttpHandler
     ): void {
@@ -225,15 +421,23 @@ export class UWebSocketWrapper {
 
     /**
      * Add WebSocket handler
+     * Compression, payload and idle limits come from the websocket configuration unless overridden in options.
      */
     addWebSocketHandler<UserData = any>(
         route: string,
         handler: WebSocketHandler,
         options: Partial<uWS.WebSocketBehavior<UserData>> = {}
     ): void {
-        this.app.ws<UserData>(route, {
+        const behavior: uWS.WebSocketBehavior<UserData> = {
+            ...this.getWebSocketBehavior(),
             ...options,
             open: (ws: uWS.WebSocket<UserData>) => {
+                if (this.draining) {
+                    ws.end(1001, 'Server shutting down');
+                    return;
+                }
+                this.openSockets.add(ws);
+
                 try {
                     if (handler.onOpen) {
                         handler.onOpen(ws);
@@ -254,7 +458,29 @@ export class UWebSocketWrapper {
                     ws.close();
                 }
             },
+            drain: (ws: uWS.WebSocket<UserData>) => {
+                // Queued messages go first, so onDrain sees the room that is left
+                if (!this.webSocketSender.flush(ws)) {
+                    return;
+                }
+
+                try {
+                    if (handler.onDrain) {
+                        handler.onDrain(ws);
+                    }
+                } catch (error) {
+                    this.errorHandler.handleError(error as Error, 'WebSocket Drain');
+                }
+            },
             close: (ws: uWS.WebSocket<UserData>, code: number, message: ArrayBuffer) => {
+                this.webSocketSender.release(ws);
+
+                // Sockets turned away while draining never reached onOpen
+                if (!this.openSockets.delete(ws)) {
+                    return;
+                }
+                this.notifyIfIdle();
+
                 try {
                     if (handler.onClose) {
                         const msg = Buffer.from(message).toString();
@@ -264,11 +490,95 @@ export class UWebSocketWrapper {
                     this.errorHandler.handleError(error as Error, 'WebSocket Close');
                 }
             },
-        });
+        };
 
+        this.registerOnEveryServerName(() => this.app.ws<UserData>(route, behavior));
         this.logger.debug(`Registered WebSocket ${route}`);
     }
 
+    /**
+     * Register a route on the default router and on the router of each SNI server name
+     * uWS keeps one router per server name, so a route added once would only answer the default certificate.
+     */
+    private registerOnEveryServerName(register: () => void): void {
+        const serverNames = this.ssl?.enabled ? Object.keys(this.ssl.serverNames || {}) : [];
+
+        for (const serverName of serverNames) {
+            this.app.domain(serverName);
+            register();
+        }
+        if (serverNames.length > 0) {
+            // No server name is empty - this selects the default router again
+            this.app.domain('');
+        }
+        register();
+    }
+
+    /**
+     * Send to a WebSocket, queueing or dropping the message while the connection is backpressured
+     * Prefer this over ws.send() - queued messages are flushed on drain, in order.
+     */
+    sendWebSocket(
+        ws: uWS.WebSocket<any>,
+        message: uWS.RecognizedString,
+        isBinary: boolean = false,
+        compress: boolean = this.websocket.compression !== 'disabled'
+    ): WebSocketSendStatus {
+        return this.webSocketSender.send(ws, message, isBinary, compress);
+    }
+
+    private getWebSocketBehavior(): Partial<uWS.WebSocketBehavior<any>> {
+        const compressors = {
+            disabled: uWS.DISABLED,
+            shared: uWS.SHARED_COMPRESSOR,
+            dedicated: uWS.DEDICATED_COMPRESSOR
+        };
+
+        return {
+            compression: compressors[this.websocket.compression],
+            maxPayloadLength: this.websocket.maxPayloadLength,
+            idleTimeout: this.websocket.idleTimeout,
+            sendPingsAutomatically: this.websocket.heartbeat,
+            maxBackpressure: this.websocket.maxBackpressure
+        };
+    }
+
+    // ============================================================================
+    // DRAIN TRACKING
+    // ============================================================================
+
+    private trackRequest(result: void | Promise<void>): void {
+        if (!result || typeof result.then !== 'function') {
+            return;
+        }
+
+        this.inFlightRequests++;
+        const settle = () => {
+            this.inFlightRequests--;
+            this.notifyIfIdle();
+        };
+        result.then(settle, settle);
+    }
+
+    private notifyIfIdle(): void {
+        if (this.inFlightRequests === 0 && this.openSockets.size === 0) {
+            this.idleWaiters.splice(0).forEach(resolve => resolve());
+        }
+    }
+
+    private rejectWhileDraining(res: uWS.HttpResponse): void {
+        res.cork(() => {
+            res.writeStatus('503 Service Unavailable');
+            res.writeHeader('Content-Type', 'application/json');
+            // closeConnection - uWS sends Connection: close itself
+            res.end(JSON.stringify({
+                error: 'Service Unavailable',
+                message: 'Server is shutting down',
+                statusCode: 503
+            }), true);
+        });
+    }
+
     // ============================================================================
     // DELEGATED METHODS - Forward to specialized managers
     // ============================================================================
@@ -282,16 +592,24 @@ export class UWebSocketWrapper {
 
     /**
      * Read request body (delegates to RequestManager)
+     * Router handlers pass context.res - the body is then read by the request's BodyReader.
      */
-    readBody(res: uWS.HttpResponse): Promise<string> {
+    readBody(res: BodySource): Promise<string> {
         return this.requestManager.readBody(res);
     }
 
     /**
      * Parse request body (delegates to RequestManager)
      */
-    async parseBody(res: uWS.HttpResponse, req: uWS.HttpRequest) {
-        return this.requestManager.parseBody(res, req);
+    async parseBody(res: BodySource, req: uWS.HttpRequest, multipart?: MultipartOptions) {
+        return this.requestManager.parseBody(res, req, multipart);
+    }
+
+    /**
+     * Register the body parser of a media type (delegates to RequestManager)
+     */
+    registerBodyParser(mediaType: string, parser: BodyParser): void {
+        this.requestManager.registerBodyParser(mediaType, parser);
     }
 
     /**
@@ -333,6 +651,25 @@ export class UWebSocketWrapper {
         this.eventManager?.off(eventType, handler);
     }
 
+    // ============================================================================
+    // TOPICS
+    // ============================================================================
+
+    /**
+     * Publish to every WebSocket subscribed to the topic, across all routes
+     * @returns false when the message could not be published
+     */
+    publish(topic: string, message: uWS.RecognizedString, isBinary: boolean = false, compress: boolean = false): boolean {
+        return this.app.publish(topic, message, isBinary, compress);
+    }
+
+    /**
+     * Number of WebSockets subscribed to the topic
+     */
+    getSubscriberCount(topic: string): number {
+        return this.app.numSubscribers(topic);
+    }
+
     // ============================================================================
     // GETTERS AND STATUS
     // ============================================================================
@@ -345,12 +682,52 @@ export class UWebSocketWrapper {
     }
 
     /**
-     * Get server port
+     * Check if the server is shutting down (no longer accepting requests)
+     */
+    isDraining(): boolean {
+        return this.draining;
+    }
+
+    /**
+     * Number of async requests still being handled
+     */
+    getInFlightRequestCount(): number {
+        return this.inFlightRequests;
+    }
+
+    /**
+     * 'https' when serving through uWS.SSLApp
+     */
+    getProtocol(): 'http' | 'https' {
+        return this.ssl?.enabled ? 'https' : 'http';
+    }
+
+    /**
+     * Get server port - the bound port once started, even when configured as 0
      */
     getPort(): number {
         return this.port;
     }
 
+    /**
+     * Unix domain socket path, when listening on one
+     */
+    getSocketPath(): string | undefined {
+        return this.socketPath;
+    }
+
+    /**
+     * Human-readable listen address, e.g. https://[::1]:8443 or unix:/run/app.sock
+     */
+    getAddress(): string {
+        if (this.socketPath) {
+            return `unix:${this.socketPath}`;
+        }
+        const host = !this.host ? 'localhost'
+            : this.host.includes(':') ? `[${this.host}]` : this.host;
+        return `${this.getProtocol()}://${host}:${this.port}`;
+    }
+
     /**
      * Get response manager (for advanced usage)
      */
@@ -379,6 +756,13 @@ export class UWebSocketWrapper {
         return this.authWrapper;
     }
 
+    /**
+     * Get WebSocket sender (queue statistics)
+     */
+    getWebSocketSender(): WebSocketSender {
+        return this.webSocketSender;
+    }
+
     /**
      * Get event manager (if available)
      */
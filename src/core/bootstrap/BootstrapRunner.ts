@@ -8,6 +8,9 @@ import { ContainerBuilder } from '../container/ContainerBuilder';
 import { ApplicationConfig } from '../container/ApplicationConfig';
 import { SERVICE_TYPES } from '../container/ServiceTypes';
 import { Logger } from '../../utils/logger';
+import { FileDiscoveryUtils } from './FileDiscoveryUtils';
+import type { DatabaseProvider } from '../../database/interfaces/DatabaseProvider';
+import type { MetricsService } from '../metrics/MetricsService';
 
 export interface BootstrapResult {
     container: Container;
@@ -30,6 +33,8 @@ export interface BootstrapOptions {
     metricsIntervalMs?: number;
     /** Custom schema path (relative to project root) */
     schemaPath?: string;
+    /** Apply pending schema migrations (ignored with skipDatabaseInit) */
+    runMigrations?: boolean;
 }
 
 /**
@@ -55,6 +60,13 @@ export class BootstrapRunner {
                 enableDebug: this.config.environment === 'development'
             }).withConfig(this.config);
 
+            if (options.enableHealthChecks) {
+                containerBuilder.withHealthChecks();
+            }
+            if (options.enableMetrics) {
+                containerBuilder.withMetrics();
+            }
+
             const result = containerBuilder.build();
             const container = result.container;
 
@@ -72,6 +84,17 @@ export class BootstrapRunner {
                 }, logger);
             }
 
+            // 4. Start sampling process metrics
+            if (options.enableMetrics) {
+                container.resolve<MetricsService>(SERVICE_TYPES.MetricsService)
+                    .startProcessMetrics(options.metricsIntervalMs ?? this.config.metrics?.interval);
+            }
+
+            // 5. Apply pending migrations
+            if (options.runMigrations && !options.skipDatabaseInit) {
+                await this.runMigrations(container, options);
+            }
+
             const startupDuration = Date.now() - this.startTime;
 
             return {
@@ -86,6 +109,41 @@ export class BootstrapRunner {
         }
     }
 
+    /**
+     * Apply pending migrations, using the registered DatabaseProvider when there is one
+     * A schemaPath, when given, locates the migrations folder next to it
+     */
+    private async runMigrations(container: Container, options: BootstrapOptions): Promise<void> {
+        const logger = container.tryResolve<Logger>(SERVICE_TYPES.Logger);
+
+        if (!this.config.database) {
+            logger?.warn('⚠️ runMigrations requested but no database is configured - skipping');
+            return;
+        }
+
+        const { MigrationRunner } = require('../../database/migrations/MigrationRunner');
+        const { createDatabaseProvider } = require('../../database/providers/DatabaseProviderFactory');
+
+        const registered = container.tryResolve<DatabaseProvider>(SERVICE_TYPES.DatabaseProvider);
+        const provider: DatabaseProvider = registered || createDatabaseProvider(this.config.database, logger);
+
+        const directory = this.config.database.migrations?.directory || (options.schemaPath
+            ? FileDiscoveryUtils.detectMigrationsPath({ patterns: [options.schemaPath] })
+            : undefined);
+
+        try {
+            await MigrationRunner.fromConfig(provider, {
+                ...this.config.database,
+                migrations: { ...this.config.database.migrations, directory }
+            }, logger).up();
+        } finally {
+            // Only close connections opened for the migration run
+            if (!registered) {
+                await provider.close();
+            }
+        }
+    }
+
     /**
      * Get startup duration
      */
@@ -38,12 +38,9 @@ export class FileDiscoveryUtils {
             'database/migrations/schema.sql'
         ];
 
-        const possiblePaths = patterns.map(pattern => path.join(baseDir, pattern));
-
-        for (const schemaPath of possiblePaths) {
-            if (fs.existsSync(schemaPath)) {
-                return schemaPath;
-            }
+        const schemaPath = this.findFirstExisting(baseDir, patterns, 'file');
+        if (schemaPath) {
+            return schemaPath;
         }
 
         // If recursive search is enabled, look in subdirectories
@@ -54,6 +51,52 @@ export class FileDiscoveryUtils {
         return null;
     }
 
+    /**
+     * Auto-detect the migrations folder - next to a detected schema file first,
+     * then in the usual locations
+     */
+    static detectMigrationsPath(options: SchemaDiscoveryOptions = {}): string | null {
+        const baseDir = options.baseDirectory || process.cwd();
+
+        const schemaPath = this.detectSchemaPath(options);
+        if (schemaPath) {
+            const schemaDir = path.dirname(schemaPath);
+            const siblingDir = path.basename(schemaDir) === 'migrations'
+                ? schemaDir
+                : path.join(schemaDir, 'migrations');
+            if (this.isDirectory(siblingDir)) {
+                return siblingDir;
+            }
+        }
+
+        return this.findFirstExisting(baseDir, [
+            'migrations',
+            'database/migrations',
+            'db/migrations',
+            'sql/migrations'
+        ], 'directory');
+    }
+
+    /**
+     * First pattern resolving to an existing file or directory
+     */
+    private static findFirstExisting(baseDir: string, patterns: string[], kind: 'file' | 'directory'): string | null {
+        for (const pattern of patterns) {
+            const candidate = path.join(baseDir, pattern);
+            const exists = kind === 'file'
+                ? fs.existsSync(candidate) && fs.statSync(candidate).isFile()
+                : this.isDirectory(candidate);
+            if (exists) {
+                return candidate;
+            }
+        }
+        return null;
+    }
+
+    private static isDirectory(dirPath: string): boolean {
+        return fs.existsSync(dirPath) && fs.statSync(dirPath).isDirectory();
+    }
+
     /**
      * Recursively search for schema files
      */
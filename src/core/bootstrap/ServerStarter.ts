@@ -8,13 +8,29 @@ import { Logger } from '../../utils/logger';
 export interface ServerStarterOptions {
     /** Enable automatic graceful shutdown handling */
     enableGracefulShutdown?: boolean;
-    /** Shutdown timeout in milliseconds */
+    /** Time to wait for in-flight requests and WebSocket closes in milliseconds (default 10000) */
     shutdownTimeoutMs?: number;
+    /** Exit forcefully when the whole shutdown takes longer (default shutdownTimeoutMs + 10000) */
+    forceExitTimeoutMs?: number;
     /** Enable verbose logging */
     verbose?: boolean;
 }
 
-export type ShutdownHandler = () => Promise<void>;
+export type ShutdownHandler = (signal?: string) => Promise<void>;
+
+/**
+ * Server that can be drained during shutdown (implemented by UWebSocketWrapper)
+ */
+export interface DrainableServer {
+    /** Close the listen socket and emit 'stopping' */
+    stopAccepting(): Promise<void>;
+    /** Wait for in-flight work - resolves false on timeout */
+    drain(timeoutMs: number): Promise<boolean>;
+    /** Emit 'stopped' */
+    finishShutdown(): Promise<void>;
+}
+
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 10000;
 
 /**
  * ServerStarter - Manages server lifecycle and OS signals
@@ -23,22 +39,30 @@ export type ShutdownHandler = () => Promise<void>;
 export class ServerStarter {
     private shutdownHandlers: ShutdownHandler[] = [];
     private isShuttingDown = false;
+    private shutdownPromise?: Promise<void>;
+    private options: ServerStarterOptions = {};
     private logger?: Logger;
+    private server?: DrainableServer;
 
     constructor(
-        logger?: Logger
+        logger?: Logger,
+        server?: DrainableServer
     ) {
         this.logger = logger;
+        this.server = server;
     }
 
     /**
      * Start the server with lifecycle management
      */
     async start(options: ServerStarterOptions = {}): Promise<void> {
+        this.options = options;
+
         try {
             // Setup graceful shutdown if enabled (default: true)
             if (options.enableGracefulShutdown !== false) {
-                this.setupGracefulShutdown(options.shutdownTimeoutMs);
+                const shutdownTimeoutMs = options.shutdownTimeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS;
+                this.setupGracefulShutdown(options.forceExitTimeoutMs ?? shutdownTimeoutMs + 10000);
             }
 
             if (options.verbose && this.logger) {
@@ -56,8 +80,9 @@ export class ServerStarter {
     /**
      * Setup graceful shutdown handlers for OS signals
      */
-    private setupGracefulShutdown(timeoutMs: number = 5000): void {
-        const shutdown = async (signal: string) => {
+    private setupGracefulShutdown(timeoutMs: number): void {
+        // A crash still runs the shutdown sequence but must not look like a clean exit
+        const shutdown = async (signal: string, exitCode: number = 0) => {
             if (this.logger) {
                 this.logger.info(`🛑 Received ${signal}, shutting down gracefully...`);
             } else {
@@ -76,9 +101,9 @@ export class ServerStarter {
             }, timeoutMs);
 
             try {
-                await this.shutdown();
+                await this.shutdown(signal);
                 clearTimeout(forceExitTimer);
-                process.exit(0);
+                process.exit(exitCode);
             } catch (error) {
                 const message = 'Error during graceful shutdown:';
                 if (this.logger) {
@@ -103,7 +128,7 @@ export class ServerStarter {
             } else {
                 console.error(message, error);
             }
-            await shutdown('UNCAUGHT_EXCEPTION');
+            await shutdown('UNCAUGHT_EXCEPTION', 1);
         });
 
         process.on('unhandledRejection', async (reason) => {
@@ -113,29 +138,49 @@ export class ServerStarter {
             } else {
                 console.error(message, reason);
             }
-            await shutdown('UNHANDLED_REJECTION');
+            await shutdown('UNHANDLED_REJECTION', 1);
         });
     }
 
     /**
      * Graceful shutdown sequence
+     *
+     * 1. stop accepting connections ('stopping' is emitted)
+     * 2. readiness fails - the server reports itself as draining
+     * 3. wait for in-flight requests and WebSocket closes, up to shutdownTimeoutMs
+     * 4. run shutdown handlers (service onShutdown hooks, ...)
+     * 5. flush logs
+     * 6. emit 'stopped'
+     *
+     * Concurrent calls (a second signal) wait for the running sequence.
      */
-    async shutdown(): Promise<void> {
-        if (this.isShuttingDown) {
-            return;
+    shutdown(signal?: string): Promise<void> {
+        if (!this.shutdownPromise) {
+            this.isShuttingDown = true;
+            this.shutdownPromise = this.runShutdown(signal);
         }
+        return this.shutdownPromise;
+    }
 
-        this.isShuttingDown = true;
-
+    private async runShutdown(signal?: string): Promise<void> {
         try {
             if (this.logger) {
                 this.logger.info('🛑 Starting shutdown sequence...');
             }
 
-            // Execute custom shutdown handlers first
+            if (this.server) {
+                await this.server.stopAccepting();
+
+                const drainTimeoutMs = this.options.shutdownTimeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS;
+                const drained = await this.server.drain(drainTimeoutMs);
+                if (drained && this.logger) {
+                    this.logger.info('✅ In-flight requests drained');
+                }
+            }
+
             for (const handler of this.shutdownHandlers) {
                 try {
-                    await handler();
+                    await handler(signal);
                 } catch (error) {
                     if (this.logger) {
                         this.logger.error('Error in shutdown handler:', error);
@@ -145,8 +190,11 @@ export class ServerStarter {
 
             if (this.logger) {
                 this.logger.info('✅ Shutdown sequence completed');
+                await this.logger.flush();
             }
 
+            await this.server?.finishShutdown();
+
         } catch (error) {
             if (this.logger) {
                 this.logger.error('❌ Error during shutdown:', error);
@@ -0,0 +1,122 @@
+/**
+ * CacheManager - Application cache facade
+ * Single responsibility: Cache reads, writes and invalidation over a pluggable provider
+ */
+
+import { Logger } from '../../utils/logger';
+import { CacheProvider, CacheSetOptions } from './CacheProvider';
+import { MemoryCacheProvider } from './MemoryCacheProvider';
+
+export interface CacheManagerOptions {
+    /** Store backing the cache (defaults to an in-memory LRU) */
+    provider?: CacheProvider;
+    /** Entry limit of the default in-memory provider */
+    maxSize?: number;
+    /** TTL in milliseconds used when set() is called without one */
+    defaultTtlMs?: number;
+    logger?: Logger;
+}
+
+/**
+ * Cache Manager
+ *
+ * Provider failures are logged and treated as cache misses, so an unavailable
+ * external store slows the application down instead of breaking it.
+ */
+export class CacheManager {
+    private provider: CacheProvider;
+    private defaultTtlMs?: number;
+    private logger?: Logger;
+    private stats = { hits: 0, misses: 0 };
+
+    constructor(options: CacheManagerOptions = {}) {
+        this.provider = options.provider || new MemoryCacheProvider({ maxSize: options.maxSize });
+        this.defaultTtlMs = options.defaultTtlMs;
+        this.logger = options.logger;
+    }
+
+    async get<T>(key: string): Promise<T | undefined> {
+        try {
+            const value = await this.provider.get<T>(key);
+            if (value === undefined) {
+                this.stats.misses++;
+            } else {
+                this.stats.hits++;
+            }
+            return value;
+        } catch (error) {
+            this.logger?.warn(`Cache read failed for '${key}'`, error);
+            this.stats.misses++;
+            return undefined;
+        }
+    }
+
+    async set<T>(key: string, value: T, options: CacheSetOptions = {}): Promise<void> {
+        try {
+            await this.provider.set(key, value, {
+                ttlMs: options.ttlMs ?? this.defaultTtlMs,
+                tags: options.tags
+            });
+        } catch (error) {
+            this.logger?.warn(`Cache write failed for '${key}'`, error);
+        }
+    }
+
+    /**
+     * Return the cached value, or compute, store and return it
+     */
+    async wrap<T>(key: string, compute: () => Promise<T>, options: CacheSetOptions = {}): Promise<T> {
+        const cached = await this.get<T>(key);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const value = await compute();
+        await this.set(key, value, options);
+        return value;
+    }
+
+    // ============================================================================
+    // INVALIDATION
+    // ============================================================================
+
+    /**
+     * Remove an entry
+     */
+    async invalidate(key: string): Promise<boolean> {
+        const deleted = await this.provider.delete(key);
+        this.logger?.debug(`Cache invalidated: ${key}`);
+        return deleted;
+    }
+
+    /**
+     * Remove every entry carrying one of the tags
+     */
+    async invalidateTags(...tags: string[]): Promise<number> {
+        let removed = 0;
+        for (const tag of tags) {
+            removed += await this.provider.deleteByTag(tag);
+        }
+        this.logger?.debug(`Cache invalidated ${removed} entries for tags: ${tags.join(', ')}`);
+        return removed;
+    }
+
+    /**
+     * Remove everything
+     */
+    async clear(): Promise<void> {
+        await this.provider.clear();
+    }
+
+    getStats(): { hits: number; misses: number; hitRate: number } {
+        const total = this.stats.hits + this.stats.misses;
+        return {
+            ...this.stats,
+            hitRate: total > 0 ? this.stats.hits / total : 0
+        };
+    }
+
+    getProvider(): CacheProvider {
+        return this.provider;
+    }
+}
@@ -0,0 +1,24 @@
+/**
+ * CacheProvider - Contract for cache stores
+ * Single responsibility: Define what CacheManager needs from a store (memory, Redis, ...)
+ */
+
+export interface CacheSetOptions {
+    /** Time to live in milliseconds (no expiry when omitted) */
+    ttlMs?: number;
+    /** Tags for group invalidation */
+    tags?: string[];
+}
+
+/**
+ * Cache Provider - implement it to back CacheManager with an external store
+ * Values are stored as given; providers crossing a process boundary must serialize them.
+ */
+export interface CacheProvider {
+    get<T>(key: string): Promise<T | undefined>;
+    set<T>(key: string, value: T, options?: CacheSetOptions): Promise<void>;
+    delete(key: string): Promise<boolean>;
+    /** Delete every entry carrying the tag, returning how many were removed */
+    deleteByTag(tag: string): Promise<number>;
+    clear(): Promise<void>;
+}
@@ -0,0 +1,112 @@
+/**
+ * MemoryCacheProvider - In-process LRU cache
+ * Single responsibility: Bounded in-memory storage with expiry and tags
+ */
+
+import { CacheProvider, CacheSetOptions } from './CacheProvider';
+
+interface MemoryEntry {
+    value: unknown;
+    expiresAt?: number;
+    tags: string[];
+}
+
+export interface MemoryCacheProviderOptions {
+    /** Maximum number of entries - the least recently used one is evicted first */
+    maxSize?: number;
+}
+
+/**
+ * Memory Cache Provider
+ * A Map keeps insertion order, so re-inserting on read makes its first key the LRU entry.
+ */
+export class MemoryCacheProvider implements CacheProvider {
+    private entries = new Map<string, MemoryEntry>();
+    private tagIndex = new Map<string, Set<string>>();
+    private maxSize: number;
+
+    constructor(options: MemoryCacheProviderOptions = {}) {
+        this.maxSize = Math.max(1, options.maxSize ?? 1000);
+    }
+
+    async get<T>(key: string): Promise<T | undefined> {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+
+        if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            this.remove(key);
+            return undefined;
+        }
+
+        // Mark as most recently used
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+
+        return entry.value as T;
+    }
+
+    async set<T>(key: string, value: T, options: CacheSetOptions = {}): Promise<void> {
+        this.remove(key);
+
+        const tags = options.tags || [];
+        this.entries.set(key, {
+            value,
+            expiresAt: options.ttlMs !== undefined ? Date.now() + options.ttlMs : undefined,
+            tags
+        });
+
+        for (const tag of tags) {
+            let keys = this.tagIndex.get(tag);
+            if (!keys) {
+                keys = new Set();
+                this.tagIndex.set(tag, keys);
+            }
+            keys.add(key);
+        }
+
+        while (this.entries.size > this.maxSize) {
+            this.remove(this.entries.keys().next().value as string);
+        }
+    }
+
+    async delete(key: string): Promise<boolean> {
+        return this.remove(key);
+    }
+
+    async deleteByTag(tag: string): Promise<number> {
+        const keys = Array.from(this.tagIndex.get(tag) || []);
+        keys.forEach(key => this.remove(key));
+        return keys.length;
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+        this.tagIndex.clear();
+    }
+
+    /**
+     * Number of stored entries (expired ones included until they are read or evicted)
+     */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    private remove(key: string): boolean {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return false;
+        }
+
+        this.entries.delete(key);
+        for (const tag of entry.tags) {
+            const keys = this.tagIndex.get(tag);
+            keys?.delete(key);
+            if (keys?.size === 0) {
+                this.tagIndex.delete(tag);
+            }
+        }
+        return true;
+    }
+}
@@ -5,6 +5,7 @@
 
 import { ValidationSchema, ValidationRule } from '../interfaces/IValidationProvider';
 import { NativeValidationProvider } from '../validation/NativeValidationProvider';
+import type { LogRotationOptions } from '../../utils/logTransports';
 
 // ============================================================================
 // CONFIGURATION INTERFACES
@@ -23,6 +24,14 @@ export interface ApplicationConfig {
     cors?: CorsConfig;
     /** Logging configuration */
     logging?: LoggingConfig;
+    /** Database configuration (no database when omitted) */
+    database?: DatabaseConfig;
+    /** Metrics configuration */
+    metrics?: MetricsConfig;
+    /** Response cache configuration */
+    cache?: CacheConfig;
+    /** WebSocket settings applied to every WebSocket route */
+    websocket?: WebSocketConfig;
     /** Environment */
     environment?: 'development' | 'production' | 'test';
     /** Application metadata */
@@ -30,21 +39,46 @@ export interface ApplicationConfig {
 }
 
 export interface ServerConfig {
-    /** Server port */
+    /** Server port - 0 picks a free port, read it back with UWebSocketWrapper.getPort() */
     port: number;
-    /** Server host */
+    /** Server host, IPv4 or IPv6 (all interfaces when omitted) */
     host?: string;
+    /** Listen on this Unix domain socket instead of host and port */
+    socketPath?: string;
+    /** Maximum request body size in bytes (default 1 MB) - multipart uploads have their own limits */
+    maxBodySize?: number;
     /** Timeout settings */
     timeout?: {
+        /** Time to receive a request body in milliseconds */
         request?: number;
         idle?: number;
+        /** Time to drain in-flight requests on shutdown in milliseconds */
+        shutdown?: number;
     };
     /** SSL configuration */
-    ssl?: {
-        enabled: boolean;
-        certPath?: string;
-        keyPath?: string;
-    };
+    ssl?: SslConfig;
+}
+
+export interface SslCertificateConfig {
+    /** PEM certificate (chain) file */
+    certPath?: string;
+    /** PEM private key file */
+    keyPath?: string;
+    /** Passphrase of an encrypted private key */
+    passphrase?: string;
+    /** CA bundle file */
+    caPath?: string;
+    /** Diffie-Hellman parameters file */
+    dhParamsPath?: string;
+}
+
+export interface SslConfig extends SslCertificateConfig {
+    /** Serve HTTPS through uWS.SSLApp */
+    enabled: boolean;
+    /** Additional certificates selected by SNI, keyed by hostname (wildcards like *.example.com allowed) */
+    serverNames?: Record<string, SslCertificateConfig>;
+    /** Also listen for plain HTTP on this port and redirect it to HTTPS */
+    redirectHttpPort?: number;
 }
 
 export interface AuthConfig {
@@ -78,6 +112,42 @@ export interface CorsConfig {
     maxAge?: number;
 }
 
+export interface DatabaseConfig {
+    /** Database engine */
+    type: 'sqlite' | 'mysql' | 'postgresql';
+    /** SQLite settings */
+    sqlite?: {
+        /** Database file path, or ':memory:' */
+        file: string;
+        /** Enable write-ahead logging */
+        walMode?: boolean;
+    };
+    /** MySQL settings */
+    mysql?: {
+        host: string;
+        port?: number;
+        user: string;
+        password?: string;
+        database: string;
+        connectionLimit?: number;
+    };
+    /** PostgreSQL settings */
+    postgresql?: {
+        host: string;
+        port?: number;
+        user: string;
+        password?: string;
+        database: string;
+    };
+    /** Schema migrations settings */
+    migrations?: {
+        /** Folder holding migration files (auto-detected when omitted) */
+        directory?: string;
+        /** Table recording applied versions (defaults to 'schema_migrations') */
+        tableName?: string;
+    };
+}
+
 export interface LoggingConfig {
     /** Enable logging */
     enabled: boolean;
@@ -87,8 +157,45 @@ export interface LoggingConfig {
     format?: 'json' | 'text';
     /** Log output */
     output?: 'console' | 'file' | 'both';
-    /** Log file path */
+    /** Log file path (default 'logs/app.log') */
     filePath?: string;
+    /** Log file rotation (default: daily, keeping 14 files) */
+    rotation?: LogRotationOptions;
+}
+
+export interface MetricsConfig {
+    /** Serve metrics (default false) - the endpoint is not authenticated, expose it to the scraper only */
+    enabled?: boolean;
+    /** Scrape path (default '/metrics') */
+    endpoint?: string;
+    /** Process metrics sampling interval in milliseconds (default 10000) */
+    interval?: number;
+    /** Prefix added to every metric name */
+    prefix?: string;
+}
+
+export interface CacheConfig {
+    /** Default entry TTL in milliseconds (@Cache routes use their own) */
+    ttl?: number;
+    /** Maximum number of entries kept by the in-memory cache (default 1000) */
+    maxSize?: number;
+}
+
+export interface WebSocketConfig {
+    /** permessage-deflate compression (default 'disabled') */
+    compression?: 'disabled' | 'shared' | 'dedicated';
+    /** Largest accepted message in bytes - larger ones close the connection (default 16384) */
+    maxPayloadLength?: number;
+    /** Seconds without traffic before a connection is closed, 0 disables (default 120) */
+    idleTimeout?: number;
+    /** Ping connections before the idle timeout so live clients stay connected (default true) */
+    heartbeat?: boolean;
+    /** Buffered bytes per connection above which sends are queued or dropped (default 65536) */
+    maxBackpressure?: number;
+    /** What managed sends do while a connection is backpressured (default 'queue') */
+    backpressurePolicy?: 'queue' | 'drop';
+    /** Messages queued per connection before further ones are dropped (default 1000) */
+    maxQueuedMessages?: number;
 }
 
 export interface ApplicationMetadata {
@@ -166,6 +273,12 @@ const createValidationRules = {
         type: 'custom',
         message,
         validator: (value: any) => typeof value === 'number' && value >= 1 && value <= 65535
+    }),
+
+    listenPort: (message = 'Must be a valid port number (0-65535, 0 picks a free port)'): ValidationRule => ({
+        type: 'custom',
+        message,
+        validator: (value: any) => Number.isInteger(value) && value >= 0 && value <= 65535
     })
 };
 
@@ -177,11 +290,18 @@ export const ServerConfigSchema: ValidationSchema = {
         port: [
             createValidationRules.required(),
             createValidationRules.number(),
-            createValidationRules.port()
+            createValidationRules.listenPort()
         ],
         host: [
             createValidationRules.string()
         ],
+        socketPath: [
+            createValidationRules.string()
+        ],
+        maxBodySize: [
+            createValidationRules.number(),
+            createValidationRules.min(1)
+        ],
         'timeout.request': [
             createValidationRules.number(),
             createValidationRules.min(1)
@@ -190,6 +310,10 @@ export const ServerConfigSchema: ValidationSchema = {
             createValidationRules.number(),
             createValidationRules.min(1)
         ],
+        'timeout.shutdown': [
+            createValidationRules.number(),
+            createValidationRules.min(0)
+        ],
         'ssl.enabled': [
             createValidationRules.boolean()
         ],
@@ -198,10 +322,44 @@ export const ServerConfigSchema: ValidationSchema = {
         ],
         'ssl.keyPath': [
             createValidationRules.string()
+        ],
+        'ssl.passphrase': [
+            createValidationRules.string()
+        ],
+        'ssl.caPath': [
+            createValidationRules.string()
+        ],
+        'ssl.dhParamsPath': [
+            createValidationRules.string()
+        ],
+        'ssl.redirectHttpPort': [
+            createValidationRules.number(),
+            createValidationRules.port()
         ]
-    }
+    },
+    validators: [
+        (data) => validateSslConfig(data?.ssl)
+    ]
 };
 
+/**
+ * Certificate and key are required once SSL is enabled, for every SNI entry too
+ */
+function validateSslConfig(ssl?: SslConfig): true | string {
+    if (!ssl?.enabled) {
+        return true;
+    }
+    if (!ssl.certPath || !ssl.keyPath) {
+        return 'ssl: certPath and keyPath are required when SSL is enabled';
+    }
+    for (const [hostname, certificate] of Object.entries(ssl.serverNames || {})) {
+        if (!certificate.certPath || !certificate.keyPath) {
+            return `ssl.serverNames.${hostname}: certPath and keyPath are required`;
+        }
+    }
+    return true;
+}
+
 /**
  * Authentication configuration validation schema
  */
@@ -281,6 +439,12 @@ export const DatabaseConfigSchema: ValidationSchema = {
         ],
         'postgresql.database': [
             createValidationRules.string()
+        ],
+        'migrations.directory': [
+            createValidationRules.string()
+        ],
+        'migrations.tableName': [
+            createValidationRules.string()
         ]
     }
 };
@@ -336,6 +500,87 @@ export const LoggingConfigSchema: ValidationSchema = {
         ],
         filePath: [
             createValidationRules.string()
+        ],
+        'rotation.maxSize': [
+            createValidationRules.number(),
+            createValidationRules.min(1024)
+        ],
+        'rotation.interval': [
+            createValidationRules.enum(['daily', 'hourly'])
+        ],
+        'rotation.maxFiles': [
+            createValidationRules.number(),
+            createValidationRules.min(1)
+        ]
+    }
+};
+
+/**
+ * Metrics configuration validation schema
+ */
+export const MetricsConfigSchema: ValidationSchema = {
+    fields: {
+        enabled: [
+            createValidationRules.boolean()
+        ],
+        endpoint: [
+            createValidationRules.string()
+        ],
+        interval: [
+            createValidationRules.number(),
+            createValidationRules.min(1000)
+        ],
+        prefix: [
+            createValidationRules.string()
+        ]
+    }
+};
+
+/**
+ * Cache configuration validation schema
+ */
+export const CacheConfigSchema: ValidationSchema = {
+    fields: {
+        ttl: [
+            createValidationRules.number(),
+            createValidationRules.min(1000)
+        ],
+        maxSize: [
+            createValidationRules.number(),
+            createValidationRules.min(1)
+        ]
+    }
+};
+
+/**
+ * WebSocket configuration validation schema
+ */
+export const WebSocketConfigSchema: ValidationSchema = {
+    fields: {
+        compression: [
+            createValidationRules.enum(['disabled', 'shared', 'dedicated'])
+        ],
+        maxPayloadLength: [
+            createValidationRules.integer(),
+            createValidationRules.min(1)
+        ],
+        idleTimeout: [
+            createValidationRules.integer(),
+            createValidationRules.min(0)
+        ],
+        heartbeat: [
+            createValidationRules.boolean()
+        ],
+        maxBackpressure: [
+            createValidationRules.integer(),
+            createValidationRules.min(1)
+        ],
+        backpressurePolicy: [
+            createValidationRules.enum(['queue', 'drop'])
+        ],
+        maxQueuedMessages: [
+            createValidationRules.integer(),
+            createValidationRules.min(1)
         ]
     }
 };
@@ -365,6 +610,18 @@ export const ApplicationConfigSchema: ValidationSchema = {
         ...Object.fromEntries(
             Object.entries(LoggingConfigSchema.fields ?? LoggingConfigSchema).map(([key, value]) => [`logging.${key}`, value])
         ),
+        // Metrics config (optional)
+        ...Object.fromEntries(
+            Object.entries(MetricsConfigSchema.fields ?? MetricsConfigSchema).map(([key, value]) => [`metrics.${key}`, value])
+        ),
+        // Cache config (optional)
+        ...Object.fromEntries(
+            Object.entries(CacheConfigSchema.fields ?? CacheConfigSchema).map(([key, value]) => [`cache.${key}`, value])
+        ),
+        // WebSocket config (optional)
+        ...Object.fromEntries(
+            Object.entries(WebSocketConfigSchema.fields ?? WebSocketConfigSchema).map(([key, value]) => [`websocket.${key}`, value])
+        ),
         // Environment
         environment: [
             createValidationRules.enum(['development', 'production', 'test'])
@@ -379,7 +636,10 @@ export const ApplicationConfigSchema: ValidationSchema = {
         'metadata.description': [
             createValidationRules.string()
         ]
-    }
+    },
+    validators: [
+        (data) => validateSslConfig(data?.server?.ssl)
+    ]
 };
 
 // ============================================================================
@@ -401,6 +661,9 @@ export class ApplicationConfigBuilder {
         this.validator.registerSchema('DatabaseConfig', DatabaseConfigSchema);
         this.validator.registerSchema('CorsConfig', CorsConfigSchema);
         this.validator.registerSchema('LoggingConfig', LoggingConfigSchema);
+        this.validator.registerSchema('MetricsConfig', MetricsConfigSchema);
+        this.validator.registerSchema('CacheConfig', CacheConfigSchema);
+        this.validator.registerSchema('WebSocketConfig', WebSocketConfigSchema);
     }
 
     /**
@@ -427,6 +690,30 @@ export class ApplicationConfigBuilder {
         return this;
     }
 
+    /**
+     * Set metrics configuration
+     */
+    metrics(config: MetricsConfig): this {
+        this.config.metrics = config;
+        return this;
+    }
+
+    /**
+     * Set cache configuration
+     */
+    cache(config: CacheConfig): this {
+        this.config.cache = config;
+        return this;
+    }
+
+    /**
+     * Set WebSocket configuration
+     */
+    websocket(config: WebSocketConfig): this {
+        this.config.websocket = config;
+        return this;
+    }
+
     /**
      * Set logging configuration
      */
@@ -435,6 +722,14 @@ export class ApplicationConfigBuilder {
         return this;
     }
 
+    /**
+     * Set database configuration
+     */
+    database(config: DatabaseConfig): this {
+        this.config.database = config;
+        return this;
+    }
+
     /**
      * Set environment
      */
@@ -477,10 +772,22 @@ export class ApplicationConfigBuilder {
         builder.server({
             port: parseInt(process.env.PORT || '3000', 10),
             host: process.env.HOST || '0.0.0.0',
+            socketPath: process.env.SOCKET_PATH,
+            maxBodySize: process.env.MAX_BODY_SIZE ? parseInt(process.env.MAX_BODY_SIZE, 10) : undefined,
             timeout: {
                 request: process.env.REQUEST_TIMEOUT ? parseInt(process.env.REQUEST_TIMEOUT, 10) : undefined,
-                idle: process.env.IDLE_TIMEOUT ? parseInt(process.env.IDLE_TIMEOUT, 10) : undefined
-            }
+                idle: process.env.IDLE_TIMEOUT ? parseInt(process.env.IDLE_TIMEOUT, 10) : undefined,
+                shutdown: process.env.SHUTDOWN_TIMEOUT ? parseInt(process.env.SHUTDOWN_TIMEOUT, 10) : undefined
+            },
+            ssl: process.env.SSL_ENABLED === 'true' ? {
+                enabled: true,
+                certPath: process.env.SSL_CERT_PATH,
+                keyPath: process.env.SSL_KEY_PATH,
+                passphrase: process.env.SSL_PASSPHRASE,
+                caPath: process.env.SSL_CA_PATH,
+                dhParamsPath: process.env.SSL_DH_PARAMS_PATH,
+                redirectHttpPort: process.env.SSL_REDIRECT_PORT ? parseInt(process.env.SSL_REDIRECT_PORT, 10) : undefined
+            } : undefined
         });
 
         // Authentication configuration
@@ -506,13 +813,55 @@ export class ApplicationConfigBuilder {
             });
         }
 
+        // Database configuration
+        if (process.env.DB_FILE) {
+            builder.database({
+                type: 'sqlite',
+                sqlite: { file: process.env.DB_FILE },
+                migrations: process.env.DB_MIGRATIONS_DIR
+                    ? { directory: process.env.DB_MIGRATIONS_DIR }
+                    : undefined
+            });
+        }
+
+        // Metrics configuration
+        builder.metrics({
+            enabled: process.env.METRICS_ENABLED === 'true',
+            endpoint: process.env.METRICS_PATH,
+            interval: process.env.METRICS_INTERVAL ? parseInt(process.env.METRICS_INTERVAL, 10) : undefined
+        });
+
+        // Cache configuration
+        if (process.env.CACHE_TTL || process.env.CACHE_MAX_SIZE) {
+            builder.cache({
+                ttl: process.env.CACHE_TTL ? parseInt(process.env.CACHE_TTL, 10) : undefined,
+                maxSize: process.env.CACHE_MAX_SIZE ? parseInt(process.env.CACHE_MAX_SIZE, 10) : undefined
+            });
+        }
+
+        // WebSocket configuration
+        builder.websocket({
+            compression: readEnvEnum('WS_COMPRESSION', ['disabled', 'shared', 'dedicated']),
+            maxPayloadLength: process.env.WS_MAX_PAYLOAD_LENGTH ? parseInt(process.env.WS_MAX_PAYLOAD_LENGTH, 10) : undefined,
+            idleTimeout: process.env.WS_IDLE_TIMEOUT ? parseInt(process.env.WS_IDLE_TIMEOUT, 10) : undefined,
+            heartbeat: process.env.WS_HEARTBEAT ? process.env.WS_HEARTBEAT !== 'false' : undefined,
+            maxBackpressure: process.env.WS_MAX_BACKPRESSURE ? parseInt(process.env.WS_MAX_BACKPRESSURE, 10) : undefined,
+            backpressurePolicy: readEnvEnum('WS_BACKPRESSURE_POLICY', ['queue', 'drop']),
+            maxQueuedMessages: process.env.WS_MAX_QUEUED_MESSAGES ? parseInt(process.env.WS_MAX_QUEUED_MESSAGES, 10) : undefined
+        });
+
         // Logging configuration
         builder.logging({
             enabled: process.env.ENABLE_LOGGING !== 'false',
             level: (process.env.LOG_LEVEL as any) || 'info',
             format: (process.env.LOG_FORMAT as any) || 'text',
             output: (process.env.LOG_OUTPUT as any) || 'console',
-            filePath: process.env.LOG_FILE
+            filePath: process.env.LOG_FILE,
+            rotation: process.env.LOG_ROTATION || process.env.LOG_MAX_SIZE || process.env.LOG_MAX_FILES ? {
+                interval: process.env.LOG_ROTATION as any,
+                maxSize: process.env.LOG_MAX_SIZE ? parseInt(process.env.LOG_MAX_SIZE, 10) : undefined,
+                maxFiles: process.env.LOG_MAX_FILES ? parseInt(process.env.LOG_MAX_FILES, 10) : undefined
+            } : undefined
         });
 
         // Environment
@@ -535,6 +884,20 @@ export class ApplicationConfigBuilder {
 // UTILITY FUNCTIONS
 // ============================================================================
 
+/**
+ * Read an environment variable limited to a set of values (undefined when unset)
+ */
+function readEnvEnum<T extends string>(name: string, allowed: readonly T[]): T | undefined {
+    const value = process.env[name];
+    if (value === undefined || value === '') {
+        return undefined;
+    }
+    if (!(allowed as readonly string[]).includes(value)) {
+        throw new Error(`${name} must be one of: ${allowed.join(', ')} (got '${value}')`);
+    }
+    return value as T;
+}
+
 /**
  * Create application configuration from environment variables
  */
@@ -52,10 +52,26 @@ export class ContainerError extends Error {
     }
 }
 
+/**
+ * Constructor parameter that could not be injected
+ */
+export interface DependencyRequest {
+    consumer: string;
+    parameterIndex: number;
+    /** How to fix it, appended to the message */
+    hint?: string;
+}
+
 export class ServiceNotFoundError extends ContainerError {
-    constructor(identifier: ServiceIdentifier, availableServices?: ServiceIdentifier[]) {
-        const message = `Service not registered: ${String(identifier)}`;
-        const context = availableServices ? { availableServices: availableServices.map(s => String(s)) } : undefined;
+    constructor(identifier: ServiceIdentifier, availableServices?: ServiceIdentifier[], requestedBy?: DependencyRequest) {
+        const name = typeof identifier === 'function' ? identifier.name : String(identifier);
+        const message = requestedBy
+            ? `Cannot resolve parameter #${requestedBy.parameterIndex} of ${requestedBy.consumer}: service not registered: ${name}${requestedBy.hint ? ` - ${requestedBy.hint}` : ''}`
+            : `Service not registered: ${name}`;
+        const context = availableServices || requestedBy ? {
+            ...(availableServices ? { availableServices: availableServices.map(s => typeof s === 'function' ? s.name : String(s)) } : {}),
+            ...requestedBy
+        } : undefined;
         super(message, context);
         this.name = 'ServiceNotFoundError';
     }
@@ -79,6 +95,12 @@ export class Container {
     private options: Required<ContainerOptions>;
     private static defaultInstance?: Container;
 
+    private singletonListeners: Array<(instance: unknown, identifier: ServiceIdentifier) => void> = [];
+
+    /** Set on scopes created by createScope() */
+    private parent?: Container;
+    private scopedInstances?: Map<ServiceIdentifier, any>;
+
     constructor(options: ContainerOptions = {}) {
         this.options = {
             enableDebug: false,
@@ -218,10 +240,11 @@ export class Container {
      * Resolve a service with full context tracking
      */
     resolve<T>(identifier: ServiceIdentifier<T>, context?: ResolutionContext): T {
+        // Outside a scope every resolve() call gets its own scoped instances
         const resolveContext: ResolutionContext = context || {
             path: [],
             depth: 0,
-            scopedInstances: new Map()
+            scopedInstances: this.scopedInstances || new Map()
         };
 
         // Check resolution depth
@@ -239,9 +262,9 @@ export class Container {
 
         this.debug(`Resolving: ${String(identifier)} (depth: ${resolveContext.depth})`);
 
-        const registration = this.registrations.get(identifier);
+        const registration = this.findRegistration(identifier);
         if (!registration) {
-            throw new ServiceNotFoundError(identifier, Array.from(this.registrations.keys()));
+            throw new ServiceNotFoundError(identifier, this.getRegisteredServices());
         }
 
         // Update context
@@ -269,15 +292,7 @@ export class Container {
      * Resolve multiple services by tag
      */
     resolveByTag<T>(tag: string): T[] {
-        const services: T[] = [];
-        
-        for (const registration of this.registrations.values()) {
-            if (registration.tags?.includes(tag)) {
-                services.push(this.resolve(registration.identifier));
-            }
-        }
-        
-        return services;
+        return this.getServicesByTag(tag).map(registration => this.resolve<T>(registration.identifier));
     }
 
     /**
@@ -299,6 +314,11 @@ export class Container {
     // ============================================================================
 
     private resolveSingleton<T>(registration: ServiceRegistration<T>, context: ResolutionContext): T {
+        // Singletons live in the container that registered them, so they never capture scoped instances
+        if (this.parent && this.registrations.get(registration.identifier) !== registration) {
+            return this.parent.resolveSingleton(registration, context);
+        }
+
         if (this.singletonInstances.has(registration.identifier)) {
             const instance = this.singletonInstances.get(registration.identifier);
             this.debug(`Using cached singleton: ${String(registration.identifier)}`);
@@ -308,6 +328,7 @@ export class Container {
         this.debug(`Creating singleton: ${String(registration.identifier)}`);
         const instance = registration.factory(this);
         this.singletonInstances.set(registration.identifier, instance);
+        this.singletonListeners.forEach(listener => listener(instance, registration.identifier));
         return instance;
     }
 
@@ -341,28 +362,46 @@ export class Container {
      * Check if service is registered
      */
     isRegistered<T>(identifier: ServiceIdentifier<T>): boolean {
-        return this.registrations.has(identifier);
+        return this.findRegistration(identifier) !== undefined;
     }
 
     /**
      * Get registration for a service
      */
     getRegistration<T>(identifier: ServiceIdentifier<T>): ServiceRegistration<T> | undefined {
-        return this.registrations.get(identifier) as ServiceRegistration<T> | undefined;
+        return this.findRegistration(identifier) as ServiceRegistration<T> | undefined;
+    }
+
+    /**
+     * Get the singleton instances created so far, in creation order
+     * A singleton is created after its dependencies, so this is also dependency order.
+     */
+    getSingletonInstances(): unknown[] {
+        return Array.from(new Set(this.singletonInstances.values()));
+    }
+
+    /**
+     * Be notified when a singleton is created, returns an unsubscribe function
+     */
+    onSingletonCreated(listener: (instance: unknown, identifier: ServiceIdentifier) => void): () => void {
+        this.singletonListeners.push(listener);
+        return () => {
+            this.singletonListeners = this.singletonListeners.filter(current => current !== listener);
+        };
     }
 
     /**
      * Get all registered service identifiers
      */
     getRegisteredServices(): ServiceIdentifier[] {
-        return Array.from(this.registrations.keys());
+        return Array.from(this.getAllRegistrations().keys());
     }
 
     /**
      * Get services by tag
      */
     getServicesByTag(tag: string): ServiceRegistration[] {
-        return Array.from(this.registrations.values())
+        return Array.from(this.getAllRegistrations().values())
             .filter(reg => reg.tags?.includes(tag));
     }
 
@@ -390,6 +429,71 @@ export class Container {
         return child;
     }
 
+    // ============================================================================
+    // SCOPES
+    // ============================================================================
+
+    /**
+     * Create a resolution scope, e.g. one per HTTP request
+     *
+     * Scoped services are created once per scope, singletons still come from
+     * this container, and instances registered on the scope stay local to it.
+     * Call dispose() when the scope ends.
+     */
+    createScope(): Container {
+        const scope = new Container(this.options);
+        scope.parent = this;
+        scope.scopedInstances = new Map();
+
+        this.debug('Created scope');
+        return scope;
+    }
+
+    /**
+     * Check if this container is a scope created by createScope()
+     */
+    isScope(): boolean {
+        return this.scopedInstances !== undefined;
+    }
+
+    /**
+     * End the scope - scoped instances are disposed in reverse creation order
+     * through their dispose() method, when they have one
+     */
+    async dispose(): Promise<void> {
+        if (!this.scopedInstances) {
+            return;
+        }
+
+        const instances = Array.from(this.scopedInstances.values()).reverse();
+        this.scopedInstances.clear();
+
+        for (const instance of instances) {
+            if (typeof instance?.dispose !== 'function') {
+                continue;
+            }
+            try {
+                await instance.dispose();
+            } catch (error) {
+                this.options.logger.error(`Failed to dispose scoped ${instance.constructor?.name || 'service'}:`, error);
+            }
+        }
+    }
+
+    private findRegistration(identifier: ServiceIdentifier): ServiceRegistration | undefined {
+        return this.registrations.get(identifier) || this.parent?.findRegistration(identifier);
+    }
+
+    /**
+     * Registrations visible from this container (scope-local ones take precedence)
+     */
+    private getAllRegistrations(): Map<ServiceIdentifier, ServiceRegistration> {
+        if (!this.parent) {
+            return this.registrations;
+        }
+        return new Map([...this.parent.getAllRegistrations(), ...this.registrations]);
+    }
+
     /**
      * Get container statistics
      */
@@ -470,7 +574,7 @@ export class Container {
         visited: Set<ServiceIdentifier>
     ): void {
         const indent = '  '.repeat(depth);
-        const registration = this.registrations.get(identifier);
+        const registration = this.findRegistration(identifier);
         
         if (!registration) {
             lines.push(`${indent}❌ ${String(identifier)} (not registered)`);
@@ -137,7 +137,16 @@ export const DEFAULT_SERVICE_CONFIG: ServiceConfig = {
                 const jwtManager = container.tryResolve(SERVICE_TYPES.JWTManager);
                 
                 const { UWebSocketWrapper } = require('../ServerWrapper');
-                return new UWebSocketWrapper(config.server.port, logger, errorHandler, jwtManager);
+                return new UWebSocketWrapper(config.server.port, logger, errorHandler, jwtManager, {
+                    host: config.server.host,
+                    socketPath: config.server.socketPath,
+                    requestOptions: {
+                        maxBodySize: config.server.maxBodySize,
+                        requestTimeoutMs: config.server.timeout?.request
+                    },
+                    ssl: config.server.ssl,
+                    websocket: config.websocket
+                });
             }
         },
         
@@ -158,13 +167,20 @@ export const DEFAULT_SERVICE_CONFIG: ServiceConfig = {
                 const logger = container.resolve<Logger>(SERVICE_TYPES.Logger);
                 const errorHandler = container.resolve<ErrorHandler>(SERVICE_TYPES.ErrorHandler);
                 const config = container.resolve<ApplicationConfig>(SERVICE_TYPES.Config);
+                // The same JWTManager as the server wrapper - absent when no JWT secret is configured
                 const jwtManager = container.tryResolve(SERVICE_TYPES.JWTManager);
                 
                 const { Router } = require('../routing/Router');
+                const { JwtService } = require('../../auth/JwtService');
+                const { UserRoleService } = require('../../auth/UserRoleService');
+                const { AuthenticationErrorHandler } = require('../../auth/AuthenticationErrorHandler');
                 return new Router(wrapper, logger, errorHandler, {
                     corsOptions: config.cors,
                     enableLogging: config.logging?.enabled !== false,
-                    jwtManager
+                    jwtManager: jwtManager ? JwtService.fromManager(jwtManager) : undefined,
+                    userRoleService: new UserRoleService(),
+                    authErrorHandler: new AuthenticationErrorHandler(logger),
+                    container
                 });
             }
         }
@@ -173,7 +189,7 @@ export const DEFAULT_SERVICE_CONFIG: ServiceConfig = {
     auth: {
         jwtManager: {
             identifier: SERVICE_TYPES.JWTManager,
-            modulePath: '../../auth/JwtManager',
+            modulePath: '../../auth/jwtManager',
             className: 'JWTManager',
             scope: 'singleton',
             dependencies: [SERVICE_TYPES.Config],
@@ -184,7 +200,7 @@ export const DEFAULT_SERVICE_CONFIG: ServiceConfig = {
             },
             factory: (container: Container) => {
                 const config = container.resolve<ApplicationConfig>(SERVICE_TYPES.Config);
-                const { JWTManager } = require('../../auth/JwtManager');
+                const { JWTManager } = require('../../auth/jwtManager');
                 return new JWTManager(config.auth.jwtSecret, config.auth.jwtExpiresIn);
             }
         }
@@ -23,12 +23,18 @@ export const SERVICE_TYPES = {
     Router: Symbol.for('Router'),
     MiddlewareManager: Symbol.for('MiddlewareManager'),
     RouteRegistry: Symbol.for('RouteRegistry'),
+    NotFoundHandler: Symbol.for('NotFoundHandler'),
+    MethodNotAllowedHandler: Symbol.for('MethodNotAllowedHandler'),
+    GatewayManager: Symbol.for('GatewayManager'),
+    PubSubService: Symbol.for('PubSubService'),
     
     // HTTP Components
     HttpHandlerWrapper: Symbol.for('HttpHandlerWrapper'),
     ResponseManager: Symbol.for('ResponseManager'),
     RequestManager: Symbol.for('RequestManager'),
     AuthenticationWrapper: Symbol.for('AuthenticationWrapper'),
+    /** MiddlewareContext of the current request (request scopes only) */
+    RequestContext: Symbol.for('RequestContext'),
     
     // Configuration
     Config: Symbol.for('Config'),
@@ -39,6 +45,9 @@ export const SERVICE_TYPES = {
     HealthCheckService: Symbol.for('HealthCheckService'),
     MetricsService: Symbol.for('MetricsService'),
     
+    // Database
+    DatabaseProvider: Symbol.for('DatabaseProvider'),
+    
     // Cache
     CacheManager: Symbol.for('CacheManager'),
     CacheProvider: Symbol.for('CacheProvider'),
@@ -120,6 +129,21 @@ export interface ServiceTypeMap {
     // Server
     [SERVICE_TYPES.ServerWrapper]: import('../ServerWrapper').UWebSocketWrapper;
     [SERVICE_TYPES.Router]: import('../routing/Router').Router;
+    [SERVICE_TYPES.NotFoundHandler]: import('../routing/FallbackHandlers').NotFoundHandler;
+    [SERVICE_TYPES.MethodNotAllowedHandler]: import('../routing/FallbackHandlers').MethodNotAllowedHandler;
+    [SERVICE_TYPES.RequestContext]: import('../../middleware/MiddlewareContext').MiddlewareContext;
+    [SERVICE_TYPES.GatewayManager]: import('../websocket/GatewayManager').GatewayManager;
+    [SERVICE_TYPES.PubSubService]: import('../websocket/PubSubService').PubSubService;
+    
+    // Health & Monitoring
+    [SERVICE_TYPES.HealthCheckService]: import('../health/HealthCheckService').HealthCheckService;
+    [SERVICE_TYPES.MetricsService]: import('../metrics/MetricsService').MetricsService;
+    
+    // Cache
+    [SERVICE_TYPES.CacheManager]: import('../cache/CacheManager').CacheManager;
+    
+    // Database
+    [SERVICE_TYPES.DatabaseProvider]: import('../../database/interfaces/DatabaseProvider').DatabaseProvider;
     
     // Config
     [SERVICE_TYPES.Config]: any; // Application config type varies
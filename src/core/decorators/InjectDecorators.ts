@@ -0,0 +1,40 @@
+/**
+ * Injection decorators for constructor parameters
+ * Following Single Responsibility Principle - only dependency injection metadata
+ */
+
+import { MetadataUtils } from './MetadataUtils';
+import type { ServiceIdentifier } from '../container/Container';
+
+/**
+ * Inject decorator
+ * Resolves the parameter by token instead of its declared type (required for interfaces)
+ * @example constructor(@Inject(SERVICE_TYPES.Config) config: ApplicationConfig)
+ */
+export function Inject(token: ServiceIdentifier): ParameterDecorator {
+    return function (target: Object, propertyKey: string | symbol | undefined, parameterIndex: number) {
+        MetadataUtils.addInjection(target, parameterIndex, { token });
+    };
+}
+
+/**
+ * Optional decorator
+ * Injects undefined instead of failing when nothing is registered for the parameter
+ * @example constructor(@Optional() metrics?: MetricsService)
+ */
+export function Optional(): ParameterDecorator {
+    return function (target: Object, propertyKey: string | symbol | undefined, parameterIndex: number) {
+        MetadataUtils.addInjection(target, parameterIndex, { optional: true });
+    };
+}
+
+/**
+ * InjectAll decorator
+ * Injects an array of every service registered with the tag
+ * @example constructor(@InjectAll('health-check') checks: HealthCheck[])
+ */
+export function InjectAll(tag: string): ParameterDecorator {
+    return function (target: Object, propertyKey: string | symbol | undefined, parameterIndex: number) {
+        MetadataUtils.addInjection(target, parameterIndex, { tag });
+    };
+}
@@ -9,8 +9,13 @@ import {
     RawRouteMetadata, 
     METADATA_KEYS,
     RouteMetadata,
-    ClassMetadata
+    ClassMetadata,
+    InjectionMetadata,
+    GatewayMetadata,
+    WebSocketHandlerMetadata,
+    RouteParamMetadata
 } from './types';
+import { HttpMethod } from '../../types';
 
 export class MetadataUtils {
     /**
@@ -50,14 +55,32 @@ export class MetadataUtils {
             const middlewares = Reflect.getMetadata(METADATA_KEYS.MIDDLEWARES, rawRoute.target, rawRoute.propertyKey) || [];
             
             return {
-                method: rawRoute.method as any,
+                method: rawRoute.method as HttpMethod,
                 path: rawRoute.path,
                 middlewares,
-                handler: rawRoute.handler
+                handler: rawRoute.handler,
+                params: this.getRouteParams(rawRoute.target, rawRoute.propertyKey)
             } as RouteMetadata;
         });
     }
 
+    /**
+     * Add a @Param handler parameter to a method
+     */
+    static addRouteParam(target: any, propertyKey: string, param: RouteParamMetadata): void {
+        const params = Reflect.getMetadata(METADATA_KEYS.ROUTE_PARAMS, target, propertyKey) || [];
+        params.push(param);
+        Reflect.defineMetadata(METADATA_KEYS.ROUTE_PARAMS, params, target, propertyKey);
+    }
+
+    /**
+     * Get the decorated parameters of a handler method, by parameter index
+     */
+    static getRouteParams(target: any, propertyKey: string): RouteParamMetadata[] {
+        const params: RouteParamMetadata[] = Reflect.getMetadata(METADATA_KEYS.ROUTE_PARAMS, target, propertyKey) || [];
+        return [...params].sort((a, b) => a.index - b.index);
+    }
+
     /**
      * Extract class metadata from a handler class
      */
@@ -72,6 +95,53 @@ export class MetadataUtils {
         Reflect.defineMetadata(METADATA_KEYS.CLASS_METADATA, metadata, target);
     }
 
+    /**
+     * Merge injection metadata for a constructor parameter
+     * Parameter decorators on constructors receive the class itself as target
+     */
+    static addInjection(target: any, parameterIndex: number, injection: InjectionMetadata): void {
+        const injections: Record<number, InjectionMetadata> = { ...this.getInjections(target) };
+        injections[parameterIndex] = { ...injections[parameterIndex], ...injection };
+        Reflect.defineMetadata(METADATA_KEYS.INJECTIONS, injections, target);
+    }
+
+    /**
+     * Get injection metadata of a class, keyed by constructor parameter index
+     */
+    static getInjections(target: any): Record<number, InjectionMetadata> {
+        return Reflect.getOwnMetadata(METADATA_KEYS.INJECTIONS, target) || {};
+    }
+
+    /**
+     * Set gateway metadata on a WebSocket gateway class
+     */
+    static setGatewayMetadata(target: any, metadata: GatewayMetadata): void {
+        Reflect.defineMetadata(METADATA_KEYS.GATEWAY, metadata, target);
+    }
+
+    /**
+     * Get gateway metadata of a WebSocket gateway class
+     */
+    static getGatewayMetadata(target: any): GatewayMetadata | undefined {
+        return Reflect.getMetadata(METADATA_KEYS.GATEWAY, target);
+    }
+
+    /**
+     * Add an @OnOpen / @OnMessage / @OnClose handler to a gateway class
+     */
+    static addWebSocketHandler(target: any, handler: WebSocketHandlerMetadata): void {
+        const handlers = Reflect.getMetadata(METADATA_KEYS.WS_HANDLERS, target.constructor) || [];
+        handlers.push(handler);
+        Reflect.defineMetadata(METADATA_KEYS.WS_HANDLERS, handlers, target.constructor);
+    }
+
+    /**
+     * Get the WebSocket handlers of a gateway class
+     */
+    static getWebSocketHandlers(target: any): WebSocketHandlerMetadata[] {
+        return Reflect.getMetadata(METADATA_KEYS.WS_HANDLERS, target) || [];
+    }
+
     /**
      * Get full route path by combining class base path and method path
      */
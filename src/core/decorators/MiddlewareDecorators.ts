@@ -5,6 +5,7 @@
 
 import { MetadataUtils } from './MetadataUtils';
 import { RateLimitOptions, CorsOptions } from './types';
+import type { SseOptions } from '../../middleware/SseStream';
 
 // =============================================================================
 // RATE LIMITING DECORATORS
@@ -109,20 +110,22 @@ export function AllowOrigins(origins: string[]): MethodDecorator {
 
 /**
  * Cache decorator
- * Applies caching to the decorated route
+ * Caches GET responses - `:param` in the key and tags is replaced by the path parameter
  * @param ttl - Time to live in seconds
- * @param key - Cache key pattern (optional)
- * @example @Cache(300) or @Cache(60, 'user-:id')
+ * @param key - Cache key pattern (optional, defaults to the route path with its parameters filled in)
+ * @param tags - Tag patterns for CacheManager.invalidateTags (optional)
+ * @example @Cache(300) or @Cache(60, 'user-:id', ['users'])
  */
-export function Cache(ttl: number, key?: string): MethodDecorator {
+export function Cache(ttl: number, key?: string, tags?: string[]): MethodDecorator {
     return function (target: any, propertyKey: string | symbol | undefined, descriptor?: PropertyDescriptor) {
         const methodKey = propertyKey as string;
         
         MetadataUtils.addMiddleware(target, methodKey, {
-            type: 'cache' as any,
+            type: 'cache',
             options: {
                 ttl,
-                key: key || `${target.constructor.name}:${methodKey}`
+                key,
+                tags
             }
         });
     };
@@ -138,7 +141,7 @@ export function NoCache(): MethodDecorator {
         const key = propertyKey as string;
         
         MetadataUtils.addMiddleware(target, key, {
-            type: 'cache' as any,
+            type: 'cache',
             options: {
                 disabled: true
             }
@@ -146,6 +149,27 @@ export function NoCache(): MethodDecorator {
     };
 }
 
+// =============================================================================
+// STREAMING DECORATORS
+// =============================================================================
+
+/**
+ * Server-Sent Events decorator
+ * Opens a text/event-stream response before the handler runs - get it with context.sse()
+ * @param options - Keepalive interval, retry delay, slow-client limit and resume hook
+ * @example @GET('/events') @SSE() events(context: MiddlewareContext) { context.sse().send({ ok: true }); }
+ */
+export function SSE(options: SseOptions = {}): MethodDecorator {
+    return function (target: any, propertyKey: string | symbol | undefined, descriptor?: PropertyDescriptor) {
+        const key = propertyKey as string;
+
+        MetadataUtils.addMiddleware(target, key, {
+            type: 'sse',
+            options
+        });
+    };
+}
+
 // =============================================================================
 // CUSTOM MIDDLEWARE DECORATORS
 // =============================================================================
@@ -0,0 +1,105 @@
+/**
+ * Parameter decorators for route handler methods
+ * Following Single Responsibility Principle - only handler argument metadata
+ */
+
+import { MetadataUtils } from './MetadataUtils';
+import { RouteParamMetadata } from './types';
+import { ParseFloatPipe, ParseBoolPipe } from '../routing/Pipes';
+import type { PipeType, PipeTransform } from '../routing/Pipes';
+
+/**
+ * Record a handler parameter
+ * String sources (path, query, headers) declared `number` or `boolean` without pipes are
+ * converted when present - a missing value stays undefined (`@Query('page') page?: number`).
+ */
+function routeParam(source: RouteParamMetadata['source'], name?: string, pipes: PipeType[] = []): ParameterDecorator {
+    return function (target: Object, propertyKey: string | symbol | undefined, parameterIndex: number) {
+        const key = propertyKey as string;
+
+        if (pipes.length === 0 && name !== undefined && (source === 'param' || source === 'query' || source === 'headers')) {
+            const type = (Reflect.getMetadata('design:paramtypes', target, key) || [])[parameterIndex];
+            if (type === Number) {
+                pipes = [whenPresent(new ParseFloatPipe())];
+            } else if (type === Boolean) {
+                pipes = [whenPresent(new ParseBoolPipe())];
+            }
+        }
+
+        MetadataUtils.addRouteParam(target, key, {
+            index: parameterIndex,
+            source,
+            name,
+            pipes
+        });
+    };
+}
+
+/**
+ * Run the pipe on defined values only
+ */
+function whenPresent(pipe: PipeTransform): PipeTransform {
+    return {
+        transform: (value, metadata) => value === undefined ? value : pipe.transform(value, metadata)
+    };
+}
+
+/**
+ * Param decorator
+ * Passes a path parameter (decoded) to the handler, run through the given pipes.
+ * The converted value is also stored in `context.params`.
+ * @param name - Parameter name from the route path (all parameters when omitted)
+ * @example async getUser(@Param('id', ParseIntPipe) id: number)
+ */
+export function Param(name?: string, ...pipes: PipeType[]): ParameterDecorator {
+    return routeParam('param', name, pipes);
+}
+
+/**
+ * Body decorator
+ * Passes the parsed request body, or one of its fields.
+ * @param name - Body field (the whole body when omitted)
+ * @example async createUser(@Body() data: CreateUserDto)
+ */
+export function Body(name?: string, ...pipes: PipeType[]): ParameterDecorator {
+    return routeParam('body', name, pipes);
+}
+
+/**
+ * Query decorator
+ * Passes a decoded query string value (undefined when absent).
+ * @param name - Query key (every key when omitted)
+ * @example async list(@Query('page', ParseIntPipe) page: number)
+ */
+export function Query(name?: string, ...pipes: PipeType[]): ParameterDecorator {
+    return routeParam('query', name, pipes);
+}
+
+/**
+ * Headers decorator
+ * Passes a request header - repeated headers are joined with ', '.
+ * @param name - Header name, any case (every header when omitted)
+ * @example async list(@Headers('x-tenant') tenant: string)
+ */
+export function Headers(name?: string, ...pipes: PipeType[]): ParameterDecorator {
+    return routeParam('headers', name, pipes);
+}
+
+/**
+ * CurrentUser decorator
+ * Passes the authenticated user (undefined on routes without @Auth).
+ * @param property - User property (the whole user when omitted)
+ * @example async me(@CurrentUser() user: User)
+ */
+export function CurrentUser(property?: string): ParameterDecorator {
+    return routeParam('user', property);
+}
+
+/**
+ * Ctx decorator
+ * Passes the request context - for handlers that also take decorated parameters.
+ * @example async download(@Param('id') id: string, @Ctx() context: MiddlewareContext)
+ */
+export function Ctx(): ParameterDecorator {
+    return routeParam('context');
+}
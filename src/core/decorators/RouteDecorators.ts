@@ -5,6 +5,7 @@
 
 import { MetadataUtils } from './MetadataUtils';
 import { ClassMetadata } from './types';
+import { HttpMethod } from '../../types';
 
 // =============================================================================
 // CLASS DECORATORS
@@ -33,7 +34,7 @@ export function Route(basePath?: string): ClassDecorator {
  * HTTP method decorator factory
  * Creates decorators for different HTTP methods
  */
-function createMethodDecorator(method: string) {
+function createMethodDecorator(method: HttpMethod) {
     return function (path?: string): MethodDecorator {
         return function (target: any, propertyKey: string | symbol | undefined, descriptor?: PropertyDescriptor) {
             const key = propertyKey as string;
@@ -76,3 +77,41 @@ export const DELETE = createMethodDecorator('delete');
  * @example @PATCH('/users/:id') or @PATCH()
  */
 export const PATCH = createMethodDecorator('patch');
+
+/**
+ * HEAD route decorator
+ * GET routes answer HEAD automatically, use this only to override that behaviour
+ * @param path - Route path (optional, defaults to empty string)
+ * @example @HEAD('/users/:id') or @HEAD()
+ */
+export const HEAD = createMethodDecorator('head');
+
+/**
+ * OPTIONS route decorator
+ * CORS preflight is answered automatically, use this for custom OPTIONS responses
+ * @param path - Route path (optional, defaults to empty string)
+ * @example @OPTIONS('/users') or @OPTIONS()
+ */
+export const OPTIONS = createMethodDecorator('options');
+
+/**
+ * CONNECT route decorator
+ * @param path - Route path (optional, defaults to empty string)
+ * @example @CONNECT('/tunnel')
+ */
+export const CONNECT = createMethodDecorator('connect');
+
+/**
+ * TRACE route decorator
+ * @param path - Route path (optional, defaults to empty string)
+ * @example @TRACE('/debug')
+ */
+export const TRACE = createMethodDecorator('trace');
+
+/**
+ * ANY route decorator - matches every HTTP method
+ * Method-specific routes on the same path take precedence
+ * @param path - Route path (optional, defaults to empty string)
+ * @example @ANY('/proxy/*')
+ */
+export const ANY = createMethodDecorator('any');
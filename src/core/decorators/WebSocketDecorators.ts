@@ -0,0 +1,80 @@
+/**
+ * WebSocket gateway decorators
+ * Following Single Responsibility Principle - only WebSocket gateway definition decorators
+ */
+
+import { MetadataUtils } from './MetadataUtils';
+import { WebSocketGatewayOptions } from './types';
+import { Gateway } from '../AutoRegistration';
+import type { ValidationSchema } from '../interfaces/IValidationProvider';
+
+// =============================================================================
+// CLASS DECORATORS
+// =============================================================================
+
+/**
+ * WebSocket gateway class decorator
+ * Registers the class as a singleton and serves it on `path` once discovered
+ * @param path - WebSocket route, e.g. '/ws/chat'
+ * @example @WebSocketGateway('/ws/chat', { auth: { roles: ['user'] } })
+ */
+export function WebSocketGateway(path: string, options: WebSocketGatewayOptions = {}): ClassDecorator {
+    return function <T extends Function>(target: T) {
+        MetadataUtils.setGatewayMetadata(target, { path, options });
+        Gateway()(target as any);
+        return target;
+    };
+}
+
+// =============================================================================
+// METHOD DECORATORS
+// =============================================================================
+
+/**
+ * Called once the connection is open
+ * @example @OnOpen() handleOpen(ws: GatewaySocket)
+ */
+export function OnOpen(): MethodDecorator {
+    return function (target: any, propertyKey: string | symbol | undefined) {
+        MetadataUtils.addWebSocketHandler(target, { kind: 'open', handler: propertyKey as string });
+    };
+}
+
+/**
+ * Handles `{ "event": "<event>", "data": ... }` envelopes
+ * A non-undefined return value is sent back as `{ event, data }`.
+ * @param event - Envelope event (handles every event without a dedicated handler when omitted)
+ * @param options.schema - Schema or registered schema name the data is validated against
+ * @example @OnMessage('chat:send', { schema: chatMessageSchema }) send(ws: GatewaySocket, data: ChatMessage)
+ */
+export function OnMessage(event?: string, options: { schema?: ValidationSchema | string } = {}): MethodDecorator {
+    return function (target: any, propertyKey: string | symbol | undefined) {
+        MetadataUtils.addWebSocketHandler(target, {
+            kind: 'message',
+            event,
+            schema: options.schema,
+            handler: propertyKey as string
+        });
+    };
+}
+
+/**
+ * Called when a backpressured connection can take more data again
+ * Messages queued by GatewayManager.send() are flushed before this runs.
+ * @example @OnDrain() resumeStream(ws: GatewaySocket)
+ */
+export function OnDrain(): MethodDecorator {
+    return function (target: any, propertyKey: string | symbol | undefined) {
+        MetadataUtils.addWebSocketHandler(target, { kind: 'drain', handler: propertyKey as string });
+    };
+}
+
+/**
+ * Called once the connection is closed - the socket can no longer be used
+ * @example @OnClose() handleClose(ws: GatewaySocket, code: number, reason: string)
+ */
+export function OnClose(): MethodDecorator {
+    return function (target: any, propertyKey: string | symbol | undefined) {
+        MetadataUtils.addWebSocketHandler(target, { kind: 'close', handler: propertyKey as string });
+    };
+}
@@ -4,17 +4,31 @@
  */
 
 import 'reflect-metadata';
+import { HttpMethod } from '../../types';
+import type { ValidationSchema } from '../interfaces/IValidationProvider';
+import type { PipeType } from '../routing/Pipes';
 
 // Route metadata types
 export interface RouteMetadata {
-    method: 'get' | 'post' | 'put' | 'delete' | 'patch';
+    method: HttpMethod;
     path: string;
     middlewares: MiddlewareMetadata[];
     handler: string;
+    /** Handler parameters filled by @Param, @Body, @Query... - the others receive the context */
+    params: RouteParamMetadata[];
+}
+
+// Handler parameters (@Param, @Body, @Query, @Headers, @CurrentUser, @Ctx)
+export interface RouteParamMetadata {
+    index: number;
+    source: 'param' | 'body' | 'query' | 'headers' | 'user' | 'context';
+    /** Single value to pass (the whole object when omitted) */
+    name?: string;
+    pipes: PipeType[];
 }
 
 export interface MiddlewareMetadata {
-    type: 'auth' | 'validate' | 'rateLimit' | 'cors' | 'logging' | 'cache' | 'custom';
+    type: 'auth' | 'validate' | 'rateLimit' | 'cors' | 'logging' | 'cache' | 'sse' | 'custom';
     options?: any;
 }
 
@@ -32,11 +46,45 @@ export interface RawRouteMetadata {
     propertyKey: string;
 }
 
+// Constructor parameter injection (@Inject, @Optional, @InjectAll)
+export interface InjectionMetadata {
+    /** Token to resolve instead of the declared parameter type */
+    token?: string | symbol | Function;
+    /** Inject every service registered with this tag */
+    tag?: string;
+    /** Inject undefined when nothing is registered */
+    optional?: boolean;
+}
+
+// WebSocket gateways (@WebSocketGateway, @OnOpen, @OnMessage, @OnClose)
+export interface WebSocketGatewayOptions {
+    /** Require a valid JWT at upgrade - pass roles to restrict access further */
+    auth?: boolean | AuthOptions;
+}
+
+export interface GatewayMetadata {
+    path: string;
+    options: WebSocketGatewayOptions;
+}
+
+export interface WebSocketHandlerMetadata {
+    kind: 'open' | 'message' | 'close' | 'drain';
+    /** Envelope event handled by an @OnMessage method (any unhandled event when omitted) */
+    event?: string;
+    /** Schema (or registered schema name) the envelope data is validated against */
+    schema?: ValidationSchema | string;
+    handler: string;
+}
+
 // Metadata keys for reflection
 export const METADATA_KEYS = {
     ROUTES: Symbol('routes'),
     MIDDLEWARES: Symbol('middlewares'),
-    CLASS_METADATA: Symbol('classMetadata')
+    CLASS_METADATA: Symbol('classMetadata'),
+    INJECTIONS: Symbol('injections'),
+    GATEWAY: Symbol('gateway'),
+    WS_HANDLERS: Symbol('wsHandlers'),
+    ROUTE_PARAMS: Symbol('routeParams')
 } as const;
 
 // Authentication options
@@ -172,7 +172,8 @@ export class AsyncComponentDiscovery {
                 repositories: focusedPatterns.repositories || [],
                 middleware: focusedPatterns.middleware || [],
                 controllers: focusedPatterns.controllers || [],
-                components: focusedPatterns.components || []
+                components: focusedPatterns.components || [],
+                gateways: focusedPatterns.gateways || []
             }
         };
 
@@ -12,6 +12,7 @@ export interface ComponentPatterns {
     middleware: string[];
     controllers: string[];
     components: string[];
+    gateways: string[];
 }
 
 export interface DiscoveryConfiguration {
@@ -75,6 +76,10 @@ export class DiscoveryConfig {
             components: [
                 '**/components/**/*.ts',
                 '**/*Component.ts'
+            ],
+            gateways: [
+                '**/gateways/**/*.ts',
+                '**/*Gateway.ts'
             ]
         },
         globalExcludes: [
@@ -174,7 +179,8 @@ export class DiscoveryConfig {
             'repositories',
             'middleware',
             'controllers',
-            'components'
+            'components',
+            'gateways'
         ];
 
         return this.createScanPattern(allTypes, config);
@@ -244,7 +250,8 @@ export class DiscoveryConfig {
                 repositories: ['**/repositories/**/*.ts', '**/*Repository.ts'],
                 middleware: ['**/middleware/**/*.ts'],
                 controllers: ['**/controllers/**/*.ts'],
-                components: ['**/components/**/*.ts']
+                components: ['**/components/**/*.ts'],
+                gateways: ['**/gateways/**/*.ts']
             };
             return config;
         },
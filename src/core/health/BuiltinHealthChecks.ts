@@ -0,0 +1,112 @@
+/**
+ * BuiltinHealthChecks - Checks shipped with the framework
+ * Single responsibility: Probe the server, event loop, memory and database
+ */
+
+import v8 from 'v8';
+import { HealthCheck } from './HealthCheckService';
+import type { DatabaseProvider } from '../../database/interfaces/DatabaseProvider';
+
+/**
+ * Ready once the HTTP server is listening, failing again as soon as it starts draining
+ */
+export function createServerCheck(server: { isServerStarted(): boolean; isDraining?(): boolean }): HealthCheck {
+    return {
+        name: 'server',
+        probes: ['readiness'],
+        check: () => {
+            if (server.isDraining?.()) {
+                return { status: 'down', message: 'Server is shutting down' };
+            }
+            return server.isServerStarted()
+                ? { status: 'up' }
+                : { status: 'down', message: 'Server is not listening' };
+        }
+    };
+}
+
+export interface EventLoopCheckOptions {
+    /** Lag above which the check is degraded (default 100ms) */
+    degradedThresholdMs?: number;
+    /** Lag above which the check is down (default 1000ms) */
+    downThresholdMs?: number;
+}
+
+/**
+ * Event-loop lag, measured as the delay before a freshly scheduled macrotask runs
+ * A blocked loop is the typical reason to restart a process, hence a liveness check
+ */
+export function createEventLoopCheck(options: EventLoopCheckOptions = {}): HealthCheck {
+    const { degradedThresholdMs, downThresholdMs } = {
+        degradedThresholdMs: 100,
+        downThresholdMs: 1000,
+        ...options
+    };
+
+    return {
+        name: 'eventLoop',
+        probes: ['liveness', 'readiness'],
+        check: async () => {
+            const start = process.hrtime.bigint();
+            await new Promise(resolve => setImmediate(resolve));
+            const lagMs = Number(process.hrtime.bigint() - start) / 1e6;
+
+            const details = { lagMs: Math.round(lagMs * 100) / 100 };
+            if (lagMs > downThresholdMs) {
+                return { status: 'down', message: 'Event loop is blocked', details };
+            }
+            if (lagMs > degradedThresholdMs) {
+                return { status: 'degraded', message: 'Event loop is lagging', details };
+            }
+            return { status: 'up', details };
+        }
+    };
+}
+
+export interface MemoryCheckOptions {
+    /** Heap usage ratio (of the heap size limit) above which the check is degraded (default 0.9) */
+    degradedHeapRatio?: number;
+}
+
+/**
+ * Heap usage against the V8 heap limit - never fails, only degrades
+ */
+export function createMemoryCheck(options: MemoryCheckOptions = {}): HealthCheck {
+    const degradedHeapRatio = options.degradedHeapRatio ?? 0.9;
+
+    return {
+        name: 'memory',
+        probes: ['readiness'],
+        critical: false,
+        check: () => {
+            const { heapUsed, rss } = process.memoryUsage();
+            const heapLimit = v8.getHeapStatistics().heap_size_limit;
+            const heapRatio = heapUsed / heapLimit;
+
+            const details = {
+                heapUsedBytes: heapUsed,
+                heapLimitBytes: heapLimit,
+                rssBytes: rss,
+                heapRatio: Math.round(heapRatio * 1000) / 1000
+            };
+
+            return heapRatio > degradedHeapRatio
+                ? { status: 'degraded', message: 'Heap usage is high', details }
+                : { status: 'up', details };
+        }
+    };
+}
+
+/**
+ * Database round trip
+ */
+export function createDatabaseCheck(provider: DatabaseProvider): HealthCheck {
+    return {
+        name: 'database',
+        probes: ['readiness'],
+        check: async () => {
+            await provider.query('SELECT 1');
+            return { status: 'up', details: { type: provider.type } };
+        }
+    };
+}
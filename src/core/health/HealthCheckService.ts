@@ -0,0 +1,187 @@
+/**
+ * HealthCheckService - Named liveness / readiness checks
+ * Single responsibility: Run registered checks and aggregate their results
+ */
+
+import { Logger } from '../../utils/logger';
+
+export type HealthStatus = 'up' | 'degraded' | 'down';
+
+/**
+ * Which probe a check belongs to
+ * - liveness: the process is able to make progress (restart it otherwise)
+ * - readiness: the instance can take traffic (remove it from the load balancer otherwise)
+ */
+export type HealthProbe = 'liveness' | 'readiness';
+
+export interface HealthCheckResult {
+    status: HealthStatus;
+    message?: string;
+    details?: Record<string, unknown>;
+}
+
+export interface HealthCheck {
+    /** Unique check name, used as key in the report */
+    name: string;
+    /** Probes running this check (defaults to readiness only) */
+    probes?: HealthProbe[];
+    /** Fail the check when it takes longer (defaults to the service timeout) */
+    timeoutMs?: number;
+    /** A non-critical check that is down only degrades the report (defaults to true) */
+    critical?: boolean;
+    /** The check itself - throwing counts as down */
+    check(): HealthCheckResult | Promise<HealthCheckResult>;
+}
+
+export interface HealthCheckReport extends HealthCheckResult {
+    durationMs: number;
+    critical: boolean;
+}
+
+export interface HealthReport {
+    status: HealthStatus;
+    probe: HealthProbe;
+    timestamp: string;
+    uptimeSeconds: number;
+    checks: Record<string, HealthCheckReport>;
+}
+
+export interface HealthCheckServiceOptions {
+    /** Default per-check timeout in milliseconds */
+    defaultTimeoutMs?: number;
+}
+
+/**
+ * Health Check Service
+ *
+ * A report is down when any critical check is down, degraded when any other
+ * check is not up, and up otherwise. Use getStatusCode() for the HTTP status.
+ */
+export class HealthCheckService {
+    private checks = new Map<string, HealthCheck>();
+    private options: Required<HealthCheckServiceOptions>;
+
+    constructor(private logger?: Logger, options: HealthCheckServiceOptions = {}) {
+        this.options = {
+            defaultTimeoutMs: 5000,
+            ...options
+        };
+    }
+
+    /**
+     * Register a check (replaces a check with the same name)
+     */
+    register(check: HealthCheck): this {
+        if (this.checks.has(check.name)) {
+            this.logger?.warn(`Health check '${check.name}' replaced`);
+        }
+        this.checks.set(check.name, check);
+        return this;
+    }
+
+    /**
+     * Remove a check
+     */
+    unregister(name: string): boolean {
+        return this.checks.delete(name);
+    }
+
+    /**
+     * Check if a check is registered
+     */
+    has(name: string): boolean {
+        return this.checks.has(name);
+    }
+
+    /**
+     * Registered check names
+     */
+    getCheckNames(): string[] {
+        return Array.from(this.checks.keys());
+    }
+
+    /**
+     * Run the liveness checks
+     */
+    checkLiveness(): Promise<HealthReport> {
+        return this.run('liveness');
+    }
+
+    /**
+     * Run the readiness checks
+     */
+    checkReadiness(): Promise<HealthReport> {
+        return this.run('readiness');
+    }
+
+    /**
+     * HTTP status for a report - degraded still serves traffic
+     */
+    getStatusCode(report: HealthReport): number {
+        return report.status === 'down' ? 503 : 200;
+    }
+
+    // ============================================================================
+    // INTERNALS
+    // ============================================================================
+
+    private async run(probe: HealthProbe): Promise<HealthReport> {
+        const selected = Array.from(this.checks.values())
+            .filter(check => (check.probes || ['readiness']).includes(probe));
+
+        const results = await Promise.all(selected.map(check => this.runCheck(check)));
+
+        const checks: Record<string, HealthCheckReport> = {};
+        let status: HealthStatus = 'up';
+
+        selected.forEach((check, index) => {
+            const result = results[index];
+            checks[check.name] = result;
+
+            if (result.status === 'down' && result.critical) {
+                status = 'down';
+            } else if (result.status !== 'up' && status === 'up') {
+                status = 'degraded';
+            }
+        });
+
+        if (status !== 'up') {
+            this.logger?.warn(`Health ${probe} probe is ${status}`, {
+                failing: Object.keys(checks).filter(name => checks[name].status !== 'up')
+            });
+        }
+
+        return {
+            status,
+            probe,
+            timestamp: new Date().toISOString(),
+            uptimeSeconds: Math.round(process.uptime()),
+            checks
+        };
+    }
+
+    private async runCheck(check: HealthCheck): Promise<HealthCheckReport> {
+        const timeoutMs = check.timeoutMs ?? this.options.defaultTimeoutMs;
+        const critical = check.critical !== false;
+        const startTime = Date.now();
+        let timer: NodeJS.Timeout | undefined;
+
+        try {
+            const timeout = new Promise<never>((_, reject) => {
+                timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+            });
+
+            const result = await Promise.race([Promise.resolve().then(() => check.check()), timeout]);
+            return { ...result, durationMs: Date.now() - startTime, critical };
+        } catch (error) {
+            return {
+                status: 'down',
+                message: error instanceof Error ? error.message : String(error),
+                durationMs: Date.now() - startTime,
+                critical
+            };
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
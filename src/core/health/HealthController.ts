@@ -0,0 +1,44 @@
+/**
+ * HealthController - Kubernetes-style probe endpoints
+ * Single responsibility: Expose HealthCheckService over HTTP
+ *
+ * GET /health/live   liveness probe
+ * GET /health/ready  readiness probe
+ * GET /health        alias of the readiness probe
+ *
+ * Responses are 200 while the probe is up or degraded and 503 once it is down.
+ */
+
+import { Route, GET } from '../decorators/RouteDecorators';
+import { MiddlewareContext } from '../../middleware/MiddlewareContext';
+import { HealthCheckService, HealthReport } from './HealthCheckService';
+
+@Route('/health')
+export class HealthController {
+    constructor(private healthCheckService: HealthCheckService) {}
+
+    @GET()
+    async health(context: MiddlewareContext): Promise<void> {
+        this.send(context, await this.healthCheckService.checkReadiness());
+    }
+
+    @GET('/live')
+    async live(context: MiddlewareContext): Promise<void> {
+        this.send(context, await this.healthCheckService.checkLiveness());
+    }
+
+    @GET('/ready')
+    async ready(context: MiddlewareContext): Promise<void> {
+        this.send(context, await this.healthCheckService.checkReadiness());
+    }
+
+    private send(context: MiddlewareContext, report: HealthReport): void {
+        const statusCode = this.healthCheckService.getStatusCode(report);
+
+        context.res
+            .writeStatus(statusCode === 200 ? '200 OK' : '503 Service Unavailable')
+            .writeHeader('Content-Type', 'application/json')
+            .writeHeader('Cache-Control', 'no-store')
+            .end(JSON.stringify(report));
+    }
+}
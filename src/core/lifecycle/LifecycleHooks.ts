@@ -0,0 +1,38 @@
+/**
+ * Lifecycle Hooks - Contracts for container-managed services
+ * Single responsibility: Define the hooks LifecycleManager calls and how to detect them
+ */
+
+/**
+ * Called once the application is assembled, before the server listens
+ * Hooks run in dependency order - a service's dependencies are initialized first.
+ */
+export interface OnModuleInit {
+    onInit(): void | Promise<void>;
+}
+
+/**
+ * Called once the server is listening
+ */
+export interface OnApplicationReady {
+    onReady(): void | Promise<void>;
+}
+
+/**
+ * Called during graceful shutdown, in reverse dependency order
+ */
+export interface OnShutdown {
+    onShutdown(signal?: string): void | Promise<void>;
+}
+
+export function hasOnInit(instance: unknown): instance is OnModuleInit {
+    return typeof (instance as OnModuleInit | undefined)?.onInit === 'function';
+}
+
+export function hasOnReady(instance: unknown): instance is OnApplicationReady {
+    return typeof (instance as OnApplicationReady | undefined)?.onReady === 'function';
+}
+
+export function hasOnShutdown(instance: unknown): instance is OnShutdown {
+    return typeof (instance as OnShutdown | undefined)?.onShutdown === 'function';
+}
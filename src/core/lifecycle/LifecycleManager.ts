@@ -0,0 +1,141 @@
+/**
+ * LifecycleManager - Runs lifecycle hooks of container-managed singletons
+ * Single responsibility: Call onInit / onReady / onShutdown in dependency order with timeouts
+ */
+
+import { Container } from '../container/Container';
+import { Logger } from '../../utils/logger';
+import { hasOnInit, hasOnReady, hasOnShutdown } from './LifecycleHooks';
+
+export interface LifecycleManagerOptions {
+    /** Maximum duration of a single hook in milliseconds */
+    hookTimeoutMs?: number;
+}
+
+type LifecyclePhase = 'created' | 'initialized' | 'ready' | 'shutdown';
+
+/**
+ * Lifecycle Manager
+ *
+ * The container creates a singleton only after its dependencies, so creation
+ * order is dependency order. Singletons created after init() (lazily resolved
+ * services) are initialized - and made ready - as soon as they appear.
+ *
+ * A failing or timed-out onInit / onReady aborts startup; shutdown hooks are
+ * all attempted and failures are only logged.
+ */
+export class LifecycleManager {
+    private options: Required<LifecycleManagerOptions>;
+    private phase: LifecyclePhase = 'created';
+    private initialized: object[] = [];
+    private unsubscribe?: () => void;
+
+    constructor(
+        private container: Container,
+        private logger?: Logger,
+        options: LifecycleManagerOptions = {}
+    ) {
+        this.options = {
+            hookTimeoutMs: 10000,
+            ...options
+        };
+    }
+
+    /**
+     * Call onInit on every singleton created so far, then on new ones as they are created
+     */
+    async init(): Promise<void> {
+        for (const instance of this.container.getSingletonInstances()) {
+            await this.initInstance(instance);
+        }
+
+        this.unsubscribe = this.container.onSingletonCreated((instance) => {
+            if (!isObject(instance)) {
+                return;
+            }
+            this.initInstance(instance)
+                .then(() => this.phase === 'ready' ? this.readyInstance(instance) : undefined)
+                .catch(error => this.logger?.error(`❌ Lifecycle hook failed for ${describe(instance)}:`, error));
+        });
+
+        this.phase = 'initialized';
+        this.logger?.debug(`Lifecycle: initialized ${this.initialized.length} services`);
+    }
+
+    /**
+     * Call onReady on every initialized singleton
+     */
+    async ready(): Promise<void> {
+        for (const instance of [...this.initialized]) {
+            await this.readyInstance(instance);
+        }
+        this.phase = 'ready';
+    }
+
+    /**
+     * Call onShutdown in reverse initialization order
+     */
+    async shutdown(signal?: string): Promise<void> {
+        if (this.phase === 'shutdown') {
+            return;
+        }
+        this.phase = 'shutdown';
+        this.unsubscribe?.();
+
+        for (const instance of [...this.initialized].reverse()) {
+            if (!hasOnShutdown(instance)) {
+                continue;
+            }
+            try {
+                await this.runHook(instance, 'onShutdown', () => instance.onShutdown(signal));
+            } catch (error) {
+                this.logger?.error(`❌ Shutdown hook failed for ${describe(instance)}:`, error);
+            }
+        }
+    }
+
+    // ============================================================================
+    // HOOK EXECUTION
+    // ============================================================================
+
+    private async initInstance(instance: unknown): Promise<void> {
+        if (!isObject(instance) || this.initialized.includes(instance)) {
+            return;
+        }
+        this.initialized.push(instance);
+
+        if (hasOnInit(instance)) {
+            await this.runHook(instance, 'onInit', () => instance.onInit());
+        }
+    }
+
+    private async readyInstance(instance: object): Promise<void> {
+        if (hasOnReady(instance)) {
+            await this.runHook(instance, 'onReady', () => instance.onReady());
+        }
+    }
+
+    private async runHook(instance: object, hook: string, call: () => void | Promise<void>): Promise<void> {
+        const timeoutMs = this.options.hookTimeoutMs;
+        let timer: NodeJS.Timeout | undefined;
+
+        try {
+            const timeout = new Promise<never>((_, reject) => {
+                timer = setTimeout(() => reject(new Error(`${describe(instance)}.${hook}() timed out after ${timeoutMs}ms`)), timeoutMs);
+            });
+
+            await Promise.race([Promise.resolve().then(call), timeout]);
+            this.logger?.debug(`Lifecycle: ${describe(instance)}.${hook}() done`);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
+
+function isObject(value: unknown): value is object {
+    return typeof value === 'object' && value !== null;
+}
+
+function describe(instance: object): string {
+    return instance.constructor?.name || 'service';
+}
@@ -0,0 +1,242 @@
+/**
+ * Metrics - Counter, Gauge and Histogram primitives
+ * Single responsibility: Hold labelled samples and render them in Prometheus text format
+ */
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+export type Labels = Record<string, string | number>;
+
+export interface MetricOptions {
+    /** Metric name (snake_case, e.g. http_requests_total) */
+    name: string;
+    /** Description shown in # HELP */
+    help: string;
+    /** Allowed label names - samples with other labels are rejected */
+    labelNames?: string[];
+}
+
+export interface HistogramOptions extends MetricOptions {
+    /** Upper bounds of the buckets, in ascending order */
+    buckets?: number[];
+}
+
+/** Default latency buckets, in seconds */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Base metric - one sample series per distinct label set
+ */
+export abstract class Metric<TSeries> {
+    abstract readonly type: MetricType;
+    readonly name: string;
+    readonly help: string;
+    readonly labelNames: string[];
+    protected series = new Map<string, { labels: Labels; value: TSeries }>();
+
+    constructor(options: MetricOptions) {
+        if (!NAME_PATTERN.test(options.name)) {
+            throw new Error(`Invalid metric name: '${options.name}'`);
+        }
+        for (const label of options.labelNames || []) {
+            if (!LABEL_PATTERN.test(label) || label === 'le') {
+                throw new Error(`Invalid label name '${label}' for metric '${options.name}'`);
+            }
+        }
+
+        this.name = options.name;
+        this.help = options.help;
+        this.labelNames = options.labelNames || [];
+    }
+
+    /**
+     * Drop every series
+     */
+    reset(): void {
+        this.series.clear();
+    }
+
+    /**
+     * Prometheus text exposition of this metric
+     */
+    render(): string {
+        const lines = [
+            `# HELP ${this.name} ${escapeHelp(this.help)}`,
+            `# TYPE ${this.name} ${this.type}`
+        ];
+        for (const { labels, value } of this.series.values()) {
+            lines.push(...this.renderSeries(labels, value));
+        }
+        return lines.join('\n');
+    }
+
+    protected abstract renderSeries(labels: Labels, value: TSeries): string[];
+
+    protected abstract createSeries(): TSeries;
+
+    /**
+     * Series for a label set, created on first use
+     */
+    protected getSeries(labels: Labels = {}): TSeries {
+        const key = this.labelKey(labels);
+        let entry = this.series.get(key);
+        if (!entry) {
+            entry = { labels: { ...labels }, value: this.createSeries() };
+            this.series.set(key, entry);
+        }
+        return entry.value;
+    }
+
+    private labelKey(labels: Labels): string {
+        for (const label of Object.keys(labels)) {
+            if (!this.labelNames.includes(label)) {
+                throw new Error(`Unknown label '${label}' for metric '${this.name}'`);
+            }
+        }
+        return this.labelNames.map(label => String(labels[label] ?? '')).join('\u0000');
+    }
+}
+
+/**
+ * Counter - monotonically increasing value
+ */
+export class Counter extends Metric<{ value: number }> {
+    readonly type = 'counter' as const;
+
+    inc(labels?: Labels, value: number = 1): void {
+        if (value < 0) {
+            throw new Error(`Counter '${this.name}' cannot decrease`);
+        }
+        this.getSeries(labels).value += value;
+    }
+
+    get(labels?: Labels): number {
+        return this.getSeries(labels).value;
+    }
+
+    protected createSeries() {
+        return { value: 0 };
+    }
+
+    protected renderSeries(labels: Labels, series: { value: number }): string[] {
+        return [`${this.name}${formatLabels(labels)} ${formatValue(series.value)}`];
+    }
+}
+
+/**
+ * Gauge - value that goes up and down
+ */
+export class Gauge extends Metric<{ value: number }> {
+    readonly type = 'gauge' as const;
+
+    set(labels: Labels | undefined, value: number): void {
+        this.getSeries(labels).value = value;
+    }
+
+    inc(labels?: Labels, value: number = 1): void {
+        this.getSeries(labels).value += value;
+    }
+
+    dec(labels?: Labels, value: number = 1): void {
+        this.getSeries(labels).value -= value;
+    }
+
+    get(labels?: Labels): number {
+        return this.getSeries(labels).value;
+    }
+
+    protected createSeries() {
+        return { value: 0 };
+    }
+
+    protected renderSeries(labels: Labels, series: { value: number }): string[] {
+        return [`${this.name}${formatLabels(labels)} ${formatValue(series.value)}`];
+    }
+}
+
+interface HistogramSeries {
+    counts: number[];
+    sum: number;
+    count: number;
+}
+
+/**
+ * Histogram - distribution of observed values in cumulative buckets
+ */
+export class Histogram extends Metric<HistogramSeries> {
+    readonly type = 'histogram' as const;
+    readonly buckets: number[];
+
+    constructor(options: HistogramOptions) {
+        super(options);
+        this.buckets = [...(options.buckets || DEFAULT_BUCKETS)].sort((a, b) => a - b);
+    }
+
+    observe(labels: Labels | undefined, value: number): void {
+        const series = this.getSeries(labels);
+        const index = this.buckets.findIndex(bound => value <= bound);
+        if (index !== -1) {
+            series.counts[index]++;
+        }
+        series.sum += value;
+        series.count++;
+    }
+
+    /**
+     * Start timing - call the returned function to observe the elapsed seconds
+     */
+    startTimer(labels?: Labels): (endLabels?: Labels) => number {
+        const start = process.hrtime.bigint();
+        return (endLabels?: Labels) => {
+            const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+            this.observe({ ...labels, ...endLabels }, seconds);
+            return seconds;
+        };
+    }
+
+    protected createSeries(): HistogramSeries {
+        return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    }
+
+    protected renderSeries(labels: Labels, series: HistogramSeries): string[] {
+        const lines: string[] = [];
+        let cumulative = 0;
+
+        this.buckets.forEach((bound, index) => {
+            cumulative += series.counts[index];
+            lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${cumulative}`);
+        });
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${series.count}`);
+        lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(series.sum)}`);
+        lines.push(`${this.name}_count${formatLabels(labels)} ${series.count}`);
+
+        return lines;
+    }
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels)
+        .map(([name, value]) => `${name}="${escapeLabelValue(String(value))}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+    if (Number.isNaN(value)) return 'NaN';
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(help: string): string {
+    return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,28 @@
+/**
+ * MetricsController - Prometheus scrape endpoint
+ * Single responsibility: Expose MetricsService over HTTP
+ */
+
+import { Route, GET } from '../decorators/RouteDecorators';
+import { MiddlewareContext } from '../../middleware/MiddlewareContext';
+import { MetricsService, PROMETHEUS_CONTENT_TYPE } from './MetricsService';
+
+/**
+ * Create the controller serving metrics on a configurable path
+ * The class is built per call since the path is part of the route metadata
+ */
+export function createMetricsController(metricsService: MetricsService, path: string = '/metrics'): object {
+    @Route(path)
+    class MetricsController {
+        @GET()
+        metrics(context: MiddlewareContext): void {
+            context.res
+                .writeStatus('200 OK')
+                .writeHeader('Content-Type', PROMETHEUS_CONTENT_TYPE)
+                .writeHeader('Cache-Control', 'no-store')
+                .end(metricsService.render());
+        }
+    }
+
+    return new MetricsController();
+}
@@ -0,0 +1,249 @@
+/**
+ * MetricsService - Application metrics registry
+ * Single responsibility: Create metrics, collect process / HTTP / error metrics, expose them to Prometheus
+ */
+
+import { monitorEventLoopDelay, IntervalHistogram } from 'perf_hooks';
+import { Logger } from '../../utils/logger';
+import type { ErrorHandler } from '../../utils/errorHandler';
+import type { OnShutdown } from '../lifecycle/LifecycleHooks';
+import { Counter, Gauge, Histogram, HistogramOptions, Metric, MetricOptions } from './Metrics';
+
+export interface MetricsServiceOptions {
+    /** Prefix added to every metric name (e.g. 'myapp_') */
+    prefix?: string;
+    /** Buckets of the HTTP latency histogram, in seconds */
+    httpBuckets?: number[];
+}
+
+/** Content-Type of the Prometheus text exposition format */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Metrics Service
+ *
+ * Metrics are created once and looked up by name afterwards, so creating a
+ * metric that already exists returns it instead of failing.
+ */
+export class MetricsService implements OnShutdown {
+    private metrics = new Map<string, Metric<unknown>>();
+    private collectors: Array<() => void> = [];
+    private options: Required<MetricsServiceOptions>;
+    private processTimer?: NodeJS.Timeout;
+    private eventLoopDelay?: IntervalHistogram;
+
+    // HTTP metrics, recorded by the Router
+    private httpRequests: Counter;
+    private httpDuration: Histogram;
+    private httpInFlight: Gauge;
+
+    constructor(private logger?: Logger, options: MetricsServiceOptions = {}) {
+        this.options = {
+            prefix: '',
+            httpBuckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+            ...options
+        };
+
+        this.httpRequests = this.createCounter({
+            name: 'http_requests_total',
+            help: 'Total HTTP requests',
+            labelNames: ['method', 'route', 'status']
+        });
+        this.httpDuration = this.createHistogram({
+            name: 'http_request_duration_seconds',
+            help: 'HTTP request latency in seconds',
+            labelNames: ['method', 'route', 'status'],
+            buckets: this.options.httpBuckets
+        });
+        this.httpInFlight = this.createGauge({
+            name: 'http_requests_in_flight',
+            help: 'HTTP requests currently being handled',
+            labelNames: ['method', 'route']
+        });
+    }
+
+    // ============================================================================
+    // METRIC CREATION
+    // ============================================================================
+
+    createCounter(options: MetricOptions): Counter {
+        return this.getOrCreate(options, () => new Counter(this.prefixed(options)), Counter);
+    }
+
+    createGauge(options: MetricOptions): Gauge {
+        return this.getOrCreate(options, () => new Gauge(this.prefixed(options)), Gauge);
+    }
+
+    createHistogram(options: HistogramOptions): Histogram {
+        return this.getOrCreate(options, () => new Histogram(this.prefixed(options)), Histogram);
+    }
+
+    /**
+     * Get a metric by name (without prefix)
+     */
+    getMetric(name: string): Metric<unknown> | undefined {
+        return this.metrics.get(this.options.prefix + name);
+    }
+
+    /**
+     * Register a function run before every export, to refresh pull-based values
+     */
+    registerCollector(collector: () => void): void {
+        this.collectors.push(collector);
+    }
+
+    // ============================================================================
+    // BUILT-IN COLLECTION
+    // ============================================================================
+
+    /**
+     * Start tracking an HTTP request
+     * @returns function to call with the response status once the request completes
+     */
+    trackHttpRequest(method: string, route: string): (statusCode: number) => void {
+        const labels = { method: method.toUpperCase(), route };
+        const stopTimer = this.httpDuration.startTimer(labels);
+        this.httpInFlight.inc(labels);
+
+        let done = false;
+        return (statusCode: number) => {
+            if (done) return;
+            done = true;
+
+            this.httpInFlight.dec(labels);
+            stopTimer({ status: statusCode });
+            this.httpRequests.inc({ ...labels, status: statusCode });
+        };
+    }
+
+    /**
+     * Export the ErrorHandler's error counts as app_errors_total{code, category}
+     */
+    registerErrorMetrics(errorHandler: ErrorHandler): void {
+        const errors = this.createCounter({
+            name: 'app_errors_total',
+            help: 'Errors handled by the ErrorHandler',
+            labelNames: ['code', 'category']
+        });
+
+        this.registerCollector(() => {
+            errors.reset();
+            for (const [key, metrics] of errorHandler.getErrorMetrics()) {
+                // Keys are `${code}_${category}` and categories have no underscore
+                const separator = key.lastIndexOf('_');
+                errors.inc({
+                    code: key.slice(0, separator),
+                    category: key.slice(separator + 1)
+                }, metrics.count);
+            }
+        });
+    }
+
+    /**
+     * Sample process metrics (memory, event-loop lag, uptime) every intervalMs
+     */
+    startProcessMetrics(intervalMs: number = 10000): void {
+        if (this.processTimer) return;
+
+        const residentMemory = this.createGauge({ name: 'process_resident_memory_bytes', help: 'Resident memory size in bytes' });
+        const heapUsed = this.createGauge({ name: 'nodejs_heap_used_bytes', help: 'V8 heap used in bytes' });
+        const heapTotal = this.createGauge({ name: 'nodejs_heap_total_bytes', help: 'V8 heap size in bytes' });
+        const eventLoopLag = this.createGauge({ name: 'nodejs_eventloop_lag_seconds', help: 'Mean event-loop delay over the last interval' });
+        const uptime = this.createGauge({ name: 'process_uptime_seconds', help: 'Process uptime in seconds' });
+
+        this.eventLoopDelay = monitorEventLoopDelay({ resolution: 20 });
+        this.eventLoopDelay.enable();
+
+        const sample = () => {
+            const memory = process.memoryUsage();
+            residentMemory.set(undefined, memory.rss);
+            heapUsed.set(undefined, memory.heapUsed);
+            heapTotal.set(undefined, memory.heapTotal);
+            uptime.set(undefined, Math.round(process.uptime()));
+
+            if (this.eventLoopDelay && this.eventLoopDelay.count > 0) {
+                eventLoopLag.set(undefined, this.eventLoopDelay.mean / 1e9);
+                this.eventLoopDelay.reset();
+            }
+        };
+
+        sample();
+        this.processTimer = setInterval(sample, intervalMs);
+        this.processTimer.unref();
+
+        this.logger?.debug(`Process metrics sampled every ${intervalMs}ms`);
+    }
+
+    /**
+     * Stop sampling process metrics
+     */
+    stopProcessMetrics(): void {
+        if (this.processTimer) {
+            clearInterval(this.processTimer);
+            this.processTimer = undefined;
+        }
+        this.eventLoopDelay?.disable();
+        this.eventLoopDelay = undefined;
+    }
+
+    /**
+     * Lifecycle hook - stop sampling on graceful shutdown
+     */
+    onShutdown(): void {
+        this.stopProcessMetrics();
+    }
+
+    // ============================================================================
+    // EXPORT
+    // ============================================================================
+
+    /**
+     * Every metric in Prometheus text exposition format
+     */
+    render(): string {
+        for (const collector of this.collectors) {
+            try {
+                collector();
+            } catch (error) {
+                this.logger?.warn('Metrics collector failed', error);
+            }
+        }
+
+        return Array.from(this.metrics.values())
+            .map(metric => metric.render())
+            .join('\n\n') + '\n';
+    }
+
+    /**
+     * Reset every metric (series are recreated on next use)
+     */
+    reset(): void {
+        for (const metric of this.metrics.values()) {
+            metric.reset();
+        }
+    }
+
+    private prefixed<T extends MetricOptions>(options: T): T {
+        return { ...options, name: this.options.prefix + options.name };
+    }
+
+    private getOrCreate<T extends Metric<any>>(
+        options: MetricOptions,
+        create: () => T,
+        type: new (...args: any[]) => T
+    ): T {
+        const name = this.options.prefix + options.name;
+        const existing = this.metrics.get(name);
+
+        if (existing) {
+            if (!(existing instanceof type)) {
+                throw new Error(`Metric '${name}' already exists as a ${existing.type}`);
+            }
+            return existing;
+        }
+
+        const metric = create();
+        this.metrics.set(name, metric);
+        return metric;
+    }
+}
@@ -0,0 +1,84 @@
+/**
+ * Fallback Handlers - answers requests that no registered route accepts
+ * Following Single Responsibility Principle - only 404 / 405 responses
+ */
+
+import { MiddlewareContext } from '../../middleware/MiddlewareContext';
+import { ErrorHandler, AppError, ErrorCode, ErrorSeverity, ErrorCategory } from '../../utils/errorHandler';
+
+/**
+ * Handles requests whose path matches no route
+ * Register your own under SERVICE_TYPES.NotFoundHandler to override the default
+ */
+export interface NotFoundHandler {
+    handle(context: MiddlewareContext): void | Promise<void>;
+}
+
+/**
+ * Handles requests whose path exists but not for the requested method
+ * Register your own under SERVICE_TYPES.MethodNotAllowedHandler to override the default
+ */
+export interface MethodNotAllowedHandler {
+    /**
+     * @param context - Request context
+     * @param allowedMethods - Upper-case methods accepted on this path
+     */
+    handle(context: MiddlewareContext, allowedMethods: string[]): void | Promise<void>;
+}
+
+/**
+ * Default 404 handler - JSON error in the ErrorHandler format
+ * Logged at debug level and kept out of the error metrics - unknown paths are not application errors.
+ */
+export class DefaultNotFoundHandler implements NotFoundHandler {
+    constructor(private errorHandler: ErrorHandler) {}
+
+    handle(context: MiddlewareContext): void {
+        const method = (context.method || 'GET').toUpperCase();
+        const error = new AppError(
+            `Route ${method} ${context.url} not found`,
+            ErrorCode.NOT_FOUND,
+            404,
+            { method, path: context.url },
+            ErrorSeverity.LOW,
+            ErrorCategory.BUSINESS
+        );
+
+        const { response, statusCode } = this.errorHandler.createResponse(error);
+        context.logger?.debug(`Route not found: ${method} ${context.url}`);
+
+        context.res
+            .writeStatus(`${statusCode} Not Found`)
+            .writeHeader('Content-Type', 'application/json')
+            .end(JSON.stringify(response));
+    }
+}
+
+/**
+ * Default 405 handler - JSON error in the ErrorHandler format with an Allow header
+ * Logged at debug level and kept out of the error metrics like the 404.
+ */
+export class DefaultMethodNotAllowedHandler implements MethodNotAllowedHandler {
+    constructor(private errorHandler: ErrorHandler) {}
+
+    handle(context: MiddlewareContext, allowedMethods: string[]): void {
+        const method = (context.method || 'GET').toUpperCase();
+        const error = new AppError(
+            `Method ${method} not allowed on ${context.url}`,
+            ErrorCode.METHOD_NOT_ALLOWED,
+            405,
+            { method, path: context.url, allowedMethods },
+            ErrorSeverity.LOW,
+            ErrorCategory.BUSINESS
+        );
+
+        const { response, statusCode } = this.errorHandler.createResponse(error);
+        context.logger?.debug(`Method not allowed: ${method} ${context.url}`, { allowedMethods });
+
+        context.res
+            .writeStatus(`${statusCode} Method Not Allowed`)
+            .writeHeader('Allow', allowedMethods.join(', '))
+            .writeHeader('Content-Type', 'application/json')
+            .end(JSON.stringify(response));
+    }
+}
@@ -10,6 +10,9 @@ import { CorsMiddleware } from '../../middleware/CorsMiddleware';
 import { ValidationMiddleware } from '../../middleware/ValidationMiddleware';
 import { RateLimitingMiddleware } from '../../middleware/RateLimitingMiddleware';
 import { LoggingMiddleware } from '../../middleware/LoggingMiddleware';
+import { CacheMiddleware } from '../../middleware/CacheMiddleware';
+import { SseMiddleware } from '../../middleware/SseMiddleware';
+import { CacheManager } from '../cache/CacheManager';
 import { Logger } from '../../utils/logger';
 
 export interface MiddlewareServices {
@@ -17,11 +20,13 @@ export interface MiddlewareServices {
     jwtManager?: any;
     userRoleService?: any;
     authErrorHandler?: any;
+    cacheManager?: CacheManager;
 }
 
 export class MiddlewareManager {
     private globalMiddlewares: Middleware[] = [];
     private middlewareFactories: Map<string, (options: any) => Middleware> = new Map();
+    private createdMiddlewares: Middleware[] = [];
     private services: MiddlewareServices;
 
     constructor(services: MiddlewareServices) {
@@ -51,12 +56,25 @@ export class MiddlewareManager {
         );
 
         this.middlewareFactories.set('rateLimit', (options) => 
-            new RateLimitingMiddleware(options)
+            // @RateLimit declares `max`, the middleware expects `maxRequests`
+            new RateLimitingMiddleware(
+                options.max !== undefined ? { maxRequests: options.max, ...options } : options
+            )
         );
 
         this.middlewareFactories.set('logging', (options) => 
             new LoggingMiddleware(this.services.logger, options)
         );
+
+        this.middlewareFactories.set('cache', (options) => {
+            // Without an injected CacheManager, @Cache routes share a default in-memory one
+            this.services.cacheManager ??= new CacheManager({ logger: this.services.logger });
+            return new CacheMiddleware(this.services.cacheManager, options);
+        });
+
+        this.middlewareFactories.set('sse', (options) =>
+            new SseMiddleware(options)
+        );
     }
 
     /**
@@ -85,6 +103,7 @@ export class MiddlewareManager {
                 try {
                     const middleware = factory(metadata.options || {});
                     middlewares.push(middleware);
+                    this.createdMiddlewares.push(middleware);
                 } catch (error) {
                     this.services.logger.error(`Failed to create middleware of type '${metadata.type}':`, error);
                     throw new Error(`Failed to create middleware of type '${metadata.type}': ${error}`);
@@ -94,7 +113,12 @@ export class MiddlewareManager {
                 const customMiddleware = this.wrapCustomMiddleware(metadata.options.middleware);
                 middlewares.push(customMiddleware);
             } else {
-                this.services.logger.warn(`Unknown middleware type: ${metadata.type}`);
+                // A route that silently loses its middleware is a security hole (e.g. @Auth),
+                // so refuse to register it instead of warning
+                throw new Error(
+                    `Unknown middleware type '${metadata.type}'. ` +
+                    `Registered types: ${this.getRegisteredTypes().join(', ')}`
+                );
             }
         }
 
@@ -114,61 +138,43 @@ export class MiddlewareManager {
     }
 
     /**
-     * Execute middleware chain
+     * Execute middleware chain around a terminal handler (Koa-style onion)
+     * `await next()` resumes once every downstream middleware and the handler have finished.
+     * Errors propagate to the caller.
      */
     async executeMiddlewareChain(
         middlewares: Middleware[],
-        context: MiddlewareContext
-    ): Promise<boolean> {
+        context: MiddlewareContext,
+        handler: () => Promise<void>
+    ): Promise<void> {
         const allMiddlewares = [...this.globalMiddlewares, ...middlewares];
-        let responseAborted = false;
+        let lastIndex = -1;
 
-        // Track if response is aborted
-        context.res.onAborted(() => {
-            responseAborted = true;
-        });
+        const dispatch = async (index: number): Promise<void> => {
+            if (index <= lastIndex) {
+                throw new Error('next() called multiple times');
+            }
+            lastIndex = index;
 
-        for (const middleware of allMiddlewares) {
-            try {
-                const nextCalled = { value: false };
-                const next: NextFunction = async () => {
-                    nextCalled.value = true;
-                };
-
-                await middleware.execute(context, next);
-                
-                // If next was not called, stop the chain
-                if (!nextCalled.value) {
-                    return false;
-                }
-                
-                // If response is already sent, stop execution
-                if (responseAborted) {
-                    return false;
-                }
-            } catch (error) {
-                this.services.logger.error('Middleware execution failed:', error);
-                
-                // Send error response if not already sent
-                if (!responseAborted) {
-                    try {
-                        context.res
-                            .writeStatus('500 Internal Server Error')
-                            .writeHeader('Content-Type', 'application/json')
-                            .end(JSON.stringify({
-                                error: 'Internal Server Error',
-                                message: 'Middleware execution failed'
-                            }));
-                    } catch (responseError) {
-                        // Response might already be closed
-                        this.services.logger.warn('Failed to send error response:', responseError);
-                    }
-                }
-                return false;
+            if (index === allMiddlewares.length) {
+                await handler();
+                return;
             }
-        }
 
-        return true;
+            await allMiddlewares[index].execute(context, () => dispatch(index + 1));
+        };
+
+        await dispatch(0);
+    }
+
+    /**
+     * Release resources held by middlewares (e.g. rate limit cleanup timers)
+     */
+    destroy(): void {
+        for (const middleware of [...this.globalMiddlewares, ...this.createdMiddlewares]) {
+            (middleware as { destroy?: () => void }).destroy?.();
+        }
+        this.createdMiddlewares = [];
     }
 
     /**
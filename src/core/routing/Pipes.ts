@@ -0,0 +1,107 @@
+/**
+ * Pipes - convert and check route arguments before the handler runs
+ * Following Single Responsibility Principle - only argument transformation
+ */
+
+import { AppError, ErrorCode, ErrorSeverity, ErrorCategory } from '../../utils/errorHandler';
+
+export interface ArgumentMetadata {
+    /** Where the value comes from, e.g. 'param' */
+    source: string;
+    /** Parameter name, e.g. 'id' for @Param('id') */
+    name?: string;
+}
+
+export interface PipeTransform<T = any, R = any> {
+    /**
+     * Convert the value - throw (e.g. a 400 AppError) to reject the request
+     */
+    transform(value: T, metadata: ArgumentMetadata): R | Promise<R>;
+}
+
+/**
+ * A pipe instance, or a pipe class with a no-argument constructor
+ */
+export type PipeType = PipeTransform | (new () => PipeTransform);
+
+/**
+ * Run a value through pipes, left to right
+ */
+export async function applyPipes(value: unknown, pipes: PipeType[], metadata: ArgumentMetadata): Promise<unknown> {
+    let result = value;
+    for (const pipe of pipes) {
+        const instance = typeof pipe === 'function' ? new pipe() : pipe;
+        result = await instance.transform(result, metadata);
+    }
+    return result;
+}
+
+// ============================================================================
+// BUILT-IN PIPES
+// ============================================================================
+
+/**
+ * '42' -> 42
+ * @example @Param('id', ParseIntPipe) id: number
+ */
+export class ParseIntPipe implements PipeTransform<string, number> {
+    transform(value: string, metadata: ArgumentMetadata): number {
+        if (!/^-?\d+$/.test(String(value ?? '').trim())) {
+            throw invalidArgument(metadata, 'numeric string is expected', value);
+        }
+        return parseInt(value, 10);
+    }
+}
+
+/**
+ * '4.2' -> 4.2
+ */
+export class ParseFloatPipe implements PipeTransform<string, number> {
+    transform(value: string, metadata: ArgumentMetadata): number {
+        const trimmed = String(value ?? '').trim();
+        const number = Number(trimmed);
+        if (trimmed === '' || !Number.isFinite(number)) {
+            throw invalidArgument(metadata, 'numeric string is expected', value);
+        }
+        return number;
+    }
+}
+
+/**
+ * 'true' / '1' -> true, 'false' / '0' -> false
+ */
+export class ParseBoolPipe implements PipeTransform<string, boolean> {
+    transform(value: string, metadata: ArgumentMetadata): boolean {
+        if (value === 'true' || value === '1') {
+            return true;
+        }
+        if (value === 'false' || value === '0') {
+            return false;
+        }
+        throw invalidArgument(metadata, 'boolean string is expected', value);
+    }
+}
+
+/**
+ * Accept UUIDs only, the value is unchanged
+ */
+export class ParseUUIDPipe implements PipeTransform<string, string> {
+    transform(value: string, metadata: ArgumentMetadata): string {
+        if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(String(value ?? ''))) {
+            throw invalidArgument(metadata, 'uuid is expected', value);
+        }
+        return value;
+    }
+}
+
+function invalidArgument(metadata: ArgumentMetadata, expected: string, value: unknown): AppError {
+    const target = metadata.name ? `${metadata.source} '${metadata.name}'` : metadata.source;
+    return new AppError(
+        `Validation failed for ${target} (${expected})`,
+        ErrorCode.VALIDATION_ERROR,
+        400,
+        { field: metadata.name, value, constraint: expected, source: metadata.source },
+        ErrorSeverity.LOW,
+        ErrorCategory.VALIDATION
+    );
+}
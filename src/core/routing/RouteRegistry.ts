@@ -8,6 +8,8 @@ import { MetadataUtils } from '../decorators/MetadataUtils';
 
 export interface RegisteredRoute extends RouteMetadata {
     fullPath: string;
+    /** `:param` names of the path, in the order of uWS `getParameter(i)` */
+    parameterNames: string[];
     handlerClass: any;
     handlerInstance: any;
 }
@@ -30,6 +32,7 @@ export class RouteRegistry {
             const registeredRoute: RegisteredRoute = {
                 ...route,
                 fullPath,
+                parameterNames: RouteRegistry.getParameterNames(fullPath),
                 handlerClass: HandlerClass,
                 handlerInstance
             };
@@ -51,6 +54,16 @@ export class RouteRegistry {
         return registeredRoutes;
     }
 
+    /**
+     * Names of the `:param` segments of a route path
+     * @example getParameterNames('/users/:id/posts/:postId') -> ['id', 'postId']
+     */
+    static getParameterNames(path: string): string[] {
+        return path.split('/')
+            .filter(segment => segment.startsWith(':'))
+            .map(segment => segment.substring(1));
+    }
+
     /**
      * Get all registered routes
      */
@@ -73,6 +86,14 @@ export class RouteRegistry {
         return this.routes.get(routeKey);
     }
 
+    /**
+     * Find every route whose pattern matches a concrete request path
+     * Supports `:param` segments and a trailing `*` wildcard, like uWS
+     */
+    findRoutesByPath(path: string): RegisteredRoute[] {
+        return this.getAllRoutes().filter(route => this.matchesPattern(route.fullPath, path));
+    }
+
     /**
      * Check if a route exists
      */
@@ -103,6 +124,30 @@ export class RouteRegistry {
         this.routesByHandler.clear();
     }
 
+    /**
+     * Match a request path against a route pattern
+     */
+    private matchesPattern(pattern: string, path: string): boolean {
+        const patternSegments = pattern.split('/').filter(Boolean);
+        const pathSegments = path.split('/').filter(Boolean);
+
+        for (let i = 0; i < patternSegments.length; i++) {
+            const segment = patternSegments[i];
+
+            if (segment === '*') {
+                return true;
+            }
+            if (i >= pathSegments.length) {
+                return false;
+            }
+            if (!segment.startsWith(':') && segment !== pathSegments[i]) {
+                return false;
+            }
+        }
+
+        return patternSegments.length === pathSegments.length;
+    }
+
     /**
      * Get route statistics
      */
@@ -7,12 +7,24 @@ import { UWebSocketWrapper } from '../ServerWrapper';
 import { Logger } from '../../utils/logger';
 import { ErrorHandler } from '../../utils/errorHandler';
 import { HttpHandlerUtils } from '../../utils/handlers';
+import { HttpHandler, HttpMethod } from '../../types';
+import { MiddlewareMetadata, RouteParamMetadata } from '../decorators/types';
 
 import { RouteRegistry, RegisteredRoute } from './RouteRegistry';
 import { MiddlewareManager, MiddlewareServices } from './MiddlewareManager';
 import { GuardManager, GuardContext } from './Guards';
+import { NotFoundHandler, MethodNotAllowedHandler } from './FallbackHandlers';
 
 import { MiddlewareContext, MiddlewareContextImpl } from '../../middleware/MiddlewareContext';
+import { ResponseRecorder } from '../../middleware/ResponseRecorder';
+import { ValidationMiddleware } from '../../middleware/ValidationMiddleware';
+import { captureRequest } from '../server/RequestSnapshot';
+import { applyPipes } from './Pipes';
+import type { MetricsService } from '../metrics/MetricsService';
+import type { CacheManager } from '../cache/CacheManager';
+import type { Container } from '../container/Container';
+import { SERVICE_TYPES } from '../container/ServiceTypes';
+import type { OnShutdown } from '../lifecycle/LifecycleHooks';
 
 export interface RouterOptions {
     corsOptions?: any;
@@ -20,9 +32,33 @@ export interface RouterOptions {
     jwtManager?: any;
     userRoleService?: any;
     authErrorHandler?: any;
+    /** Record per-route request count, latency and in-flight requests */
+    metricsService?: MetricsService;
+    /** Store used by @Cache routes */
+    cacheManager?: CacheManager;
+    /** Application container - each request gets its own scope of it */
+    container?: Container;
 }
 
-export class Router {
+/** Validation decorator target checked against each kind of handler parameter */
+const VALIDATION_TARGETS: Partial<Record<RouteParamMetadata['source'], string>> = {
+    param: 'params',
+    body: 'body',
+    query: 'query',
+    headers: 'headers'
+};
+
+/** Prefix of validation errors, as in ValidationMiddleware */
+const ARGUMENT_LABELS: Record<RouteParamMetadata['source'], string> = {
+    param: 'Params',
+    body: 'Body',
+    query: 'Query',
+    headers: 'Headers',
+    user: 'User',
+    context: 'Context'
+};
+
+export class Router implements OnShutdown {
     private wrapper: UWebSocketWrapper;
     private logger: Logger;
     private errorHandler: ErrorHandler;
@@ -32,6 +68,14 @@ export class Router {
     private middlewareManager: MiddlewareManager;
     private guardManager: GuardManager;
 
+    // Framework-provided handlers (HEAD from GET, CORS preflight), keyed by "method path"
+    private derivedHandlers: Map<string, HttpHandler> = new Map();
+    private corsEnabled: boolean = false;
+
+    private metricsService?: MetricsService;
+    private container?: Container;
+    private requestTrackers = new WeakMap<MiddlewareContext, (statusCode: number) => void>();
+
     constructor(
         wrapper: UWebSocketWrapper,
         logger: Logger,
@@ -41,6 +85,8 @@ export class Router {
         this.wrapper = wrapper;
         this.logger = logger;
         this.errorHandler = errorHandler;
+        this.metricsService = options.metricsService;
+        this.container = options.container;
 
         // Initialize specialized managers
         this.routeRegistry = new RouteRegistry();
@@ -49,7 +95,8 @@ export class Router {
             logger: this.logger,
             jwtManager: options.jwtManager,
             userRoleService: options.userRoleService,
-            authErrorHandler: options.authErrorHandler
+            authErrorHandler: options.authErrorHandler,
+            cacheManager: options.cacheManager
         };
         this.middlewareManager = new MiddlewareManager(middlewareServices);
         this.guardManager = new GuardManager(this.logger);
@@ -63,7 +110,8 @@ export class Router {
      */
     private setupDefaultConfiguration(options: RouterOptions): void {
         // Setup CORS if enabled
-        if (options.corsOptions !== false) {
+        this.corsEnabled = options.corsOptions !== false;
+        if (this.corsEnabled) {
             const corsMiddleware = this.middlewareManager.createMiddlewares([{
                 type: 'cors',
                 options: options.corsOptions
@@ -107,88 +155,357 @@ export class Router {
         }
     }
 
+    /**
+     * Register the catch-all handler answering 404 / 405 for unmatched requests
+     * uWS prefers method-specific and non-wildcard routes, so this only runs when nothing else matched
+     */
+    registerFallbackHandlers(
+        notFoundHandler: NotFoundHandler,
+        methodNotAllowedHandler: MethodNotAllowedHandler
+    ): void {
+        const fallbackHandler = async (response: any, request: any) => {
+            const context = this.createContext(request, response, '/*');
+
+            try {
+                await this.middlewareManager.executeMiddlewareChain([], context, async () => {
+                    const allowedMethods = this.getAllowedMethods(context.url || '/');
+
+                    if (allowedMethods.length > 0) {
+                        await methodNotAllowedHandler.handle(context, allowedMethods);
+                    } else {
+                        await notFoundHandler.handle(context);
+                    }
+                });
+            } catch (error) {
+                this.logger.error('Fallback handler failed:', error);
+
+                const recorder = context.response;
+                if (recorder && !recorder.isFinished()) {
+                    recorder.removeHeader('Content-Type');
+                    recorder
+                        .writeStatus('500 Internal Server Error')
+                        .writeHeader('Content-Type', 'application/json')
+                        .end(JSON.stringify({
+                            error: 'Internal Server Error',
+                            message: 'An unexpected error occurred'
+                        }));
+                }
+            }
+
+            this.flushResponse(context);
+        };
+
+        this.wrapper.addHttpHandler('any', '/*', (req: any, res: any) => fallbackHandler(res, req));
+
+        this.logger.debug('Registered fallback route: ANY /*');
+    }
+
+    /**
+     * Get the methods accepted on a request path (used for the Allow header)
+     */
+    getAllowedMethods(path: string): string[] {
+        const methods = new Set<string>();
+
+        for (const route of this.routeRegistry.findRoutesByPath(path)) {
+            methods.add(route.method.toUpperCase());
+
+            if (this.derivedHandlers.has(`head ${route.fullPath}`)) {
+                methods.add('HEAD');
+            }
+            if (this.derivedHandlers.has(`options ${route.fullPath}`)) {
+                methods.add('OPTIONS');
+            }
+        }
+
+        return Array.from(methods);
+    }
+
     /**
      * Register a single route with the underlying server
      */
     private registerRouteWithServer(route: RegisteredRoute): void {
         const { method, fullPath, handlerInstance, handler: handlerMethodName, middlewares } = route;
 
-        // Create middleware instances for this route
-        const routeMiddlewares = this.middlewareManager.createMiddlewares(middlewares);        // Create the route handler
+        // Create middleware instances for this route - @SSE last, so the stream only opens
+        // once every other middleware (auth, rate limiting...) let the request through
+        const routeMiddlewares = this.middlewareManager.createMiddlewares([
+            ...middlewares.filter(middleware => middleware.type !== 'sse'),
+            ...middlewares.filter(middleware => middleware.type === 'sse')
+        ]);
+        const argumentValidators = this.createArgumentValidators(route);
+
+        // Create the route handler
         const routeHandler = async (response: any, request: any) => {
-            // Create context using MiddlewareContextImpl
-            const baseContext = new MiddlewareContextImpl(request, response);
-            
-            // Extract request data using utilities
-            const requestId = HttpHandlerUtils.generateRequestId();
-            const clientIP = HttpHandlerUtils.getClientIP(request);
-              // Populate context with request metadata
-            baseContext.method = request.getMethod?.() || 'GET';
-            baseContext.url = request.getUrl?.() || '';
-            baseContext.requestId = requestId;
-            baseContext.routePattern = fullPath; // Store route pattern for path params
-            baseContext.data = {
-                requestId,
-                clientIP,
-                startTime: Date.now()
-            };
-            
-            // Extend with GuardContext properties
-            const context: MiddlewareContext & GuardContext = Object.assign(baseContext, {
-                user: undefined,
-                permissions: undefined,
-                metadata: {}
-            });
+            const context = this.createContext(request, response, fullPath, route.parameterNames);
 
             try {
-
-                // Execute middleware chain
-                const middlewareSuccess = await this.middlewareManager.executeMiddlewareChain(
-                    routeMiddlewares,
-                    context
-                );
-
-                if (!middlewareSuccess) {
-                    return; // Response already sent by middleware
-                }
-
-                // Execute guards
-                const guardSuccess = await this.guardManager.executeGuards(context);
-                if (!guardSuccess) {
-                    return; // Response already sent by guard
-                }
-
-                // Execute the actual handler method
-                const handlerMethod = handlerInstance[handlerMethodName];
-                if (typeof handlerMethod === 'function') {
-                    await handlerMethod.call(handlerInstance, context);
-                } else {
-                    throw new Error(`Handler method '${handlerMethodName}' not found`);
-                }
+                // Run the middleware onion with guards + handler at its core
+                await this.middlewareManager.executeMiddlewareChain(routeMiddlewares, context, async () => {
+                    const guardSuccess = await this.guardManager.executeGuards(context);
+                    if (!guardSuccess) {
+                        return; // Response already written by guard
+                    }
+
+                    const handlerMethod = handlerInstance[handlerMethodName];
+                    if (typeof handlerMethod === 'function') {
+                        const args = await this.resolveArguments(route, context, argumentValidators);
+                        const result = await handlerMethod.apply(handlerInstance, args);
+                        this.sendResult(context, result);
+                    } else {
+                        throw new Error(`Handler method '${handlerMethodName}' not found`);
+                    }
+                });
 
             } catch (error) {
                 await this.handleRouteError(error, context, route);
             }
+
+            this.flushResponse(context);
         };
 
-        // Register with the underlying server using the addHttpHandler method
-        const httpMethod = method.toLowerCase() as 'get' | 'post' | 'put' | 'delete';
-        
         // Convert to the expected handler signature (req, res) instead of (res, req)
-        const httpHandler = (req: any, res: any) => {
-            routeHandler(res, req); // Router expects (response, request)
+        // The promise is returned so the server can wait for in-flight requests on shutdown
+        const httpHandler = (req: any, res: any) => routeHandler(res, req); // Router expects (response, request)
+
+        this.addServerHandler(method, fullPath, httpHandler);
+
+        // HEAD is answered by the GET pipeline unless the path declares its own @HEAD
+        if (method === 'get' && !this.routeRegistry.hasRoute('head', fullPath)) {
+            this.addDerivedHandler('head', fullPath, httpHandler);
+        }
+
+        // Answer CORS preflight on every CORS-enabled path without an explicit @OPTIONS
+        if (method !== 'options' && method !== 'any' &&
+            !this.routeRegistry.hasRoute('options', fullPath) &&
+            this.isCorsEnabled(middlewares)) {
+            this.addDerivedHandler('options', fullPath, this.createPreflightHandler(route));
+        }
+
+        this.logger.debug(`Registered route: ${method.toUpperCase()} ${fullPath}`);
+    }
+
+    /**
+     * Build the request context for a route
+     */
+    private createContext(request: any, response: any, routePattern: string, parameterNames: string[] = []): MiddlewareContext & GuardContext {
+        // Buffer the response so middlewares can see it after `await next()`
+        const recorder = new ResponseRecorder(response);
+
+        // Extract request data using utilities
+        const requestId = HttpHandlerUtils.generateRequestId();
+
+        // uWS invalidates the request at the handler's first await - copy it now
+        const snapshot = captureRequest(request, parameterNames.length);
+
+        // Create context using MiddlewareContextImpl, logging with the request id bound
+        const baseContext = new MiddlewareContextImpl(request, recorder, this.logger.child({ requestId }), snapshot);
+        
+        const clientIP = HttpHandlerUtils.getClientIP(baseContext.req);
+
+        // Populate context with request metadata
+        baseContext.requestId = requestId;
+        baseContext.routePattern = routePattern; // Store route pattern for path params
+        baseContext.params = Object.fromEntries(parameterNames.map((name, index) => [name, HttpHandlerUtils.decodePathParameter(snapshot.parameters[index])]));
+        baseContext.response = recorder;
+
+        // uWS drops the body unless onData is attached before the handler first awaits
+        const headers = baseContext.headers;
+        const expectsBody = !!headers['transfer-encoding'] || parseInt(headers['content-length'] || '0', 10) > 0;
+        baseContext.bodyReader = this.wrapper.getRequestManager()
+            .createBodyReader(recorder, headers['content-type'], expectsBody);
+        baseContext.data = {
+            requestId,
+            clientIP,
+            startTime: Date.now()
         };
+        
+        // Extend with GuardContext properties
+        const context = Object.assign(baseContext, {
+            user: undefined,
+            permissions: undefined,
+            metadata: {}
+        });
+
+        // Scoped services are shared by everything handling this request
+        if (this.container) {
+            context.scope = this.container.createScope();
+            context.scope.registerInstance(SERVICE_TYPES.RequestContext, context);
+        }
+
+        // Labelled by route pattern, not URL, to keep metric cardinality bounded
+        if (this.metricsService) {
+            this.requestTrackers.set(context, this.metricsService.trackHttpRequest(baseContext.method || 'GET', routePattern));
+        }
+
+        return context;
+    }
+
+    /**
+     * Handler arguments: decorated parameters get their (piped, validated) value, the others the context
+     */
+    private async resolveArguments(
+        route: RegisteredRoute,
+        context: MiddlewareContext,
+        validators: (ValidationMiddleware | undefined)[]
+    ): Promise<unknown[]> {
+        if (route.params.length === 0) {
+            return [context];
+        }
+
+        const args: unknown[] = Array.from({ length: route.params[route.params.length - 1].index + 1 }, () => context);
+
+        for (const [position, param] of route.params.entries()) {
+            const source = await this.readArgumentSource(param, context);
+            const name = param.source === 'headers' ? param.name?.toLowerCase() : param.name;
+            const raw = name === undefined || source === undefined ? source : (source as Record<string, unknown>)[name];
+
+            const value = await applyPipes(raw, param.pipes, { source: param.source, name: param.name });
+            validators[position]?.validateArgument(value, ARGUMENT_LABELS[param.source], name);
+
+            // Later readers (and other @Param of the same name) see the converted value
+            if (param.source === 'param' && name !== undefined) {
+                context.params![name] = value;
+            }
+            args[param.index] = value;
+        }
 
-        if (['get', 'post', 'put', 'delete'].includes(httpMethod)) {
-            this.wrapper.addHttpHandler(httpMethod, fullPath, httpHandler);
-        } else if (method.toLowerCase() === 'patch') {
-            // PATCH might not be supported by the wrapper, log a warning
-            this.logger.warn(`PATCH method not supported by wrapper for route: ${fullPath}`);
+        return args;
+    }
+
+    /**
+     * Object a handler parameter reads from
+     */
+    private async readArgumentSource(param: RouteParamMetadata, context: MiddlewareContext): Promise<unknown> {
+        switch (param.source) {
+            case 'param':
+                return context.params;
+            case 'body':
+                return await context.getRequestBody();
+            case 'query':
+                return context.query;
+            case 'headers':
+                return context.headers;
+            case 'user':
+                return context.user;
+            case 'context':
+                return context;
+        }
+    }
+
+    /**
+     * Validators for the handler parameters, by position in `route.params`: the route's
+     * @ValidateParams / @ValidateQuery / @ValidateHeaders schema, @ValidateBody (or @Validate) for the body
+     */
+    private createArgumentValidators(route: RegisteredRoute): (ValidationMiddleware | undefined)[] {
+        const schemas = route.middlewares.filter(middleware => middleware.type === 'validate');
+
+        return route.params.map(param => {
+            const target = VALIDATION_TARGETS[param.source];
+            const middleware = target && (
+                schemas.find(schema => schema.options?.target === target) ||
+                (target === 'body' ? schemas.find(schema => !schema.options?.target) : undefined)
+            );
+            return middleware ? new ValidationMiddleware(middleware.options.schema) : undefined;
+        });
+    }
+
+    /**
+     * Send what the handler returned, unless it answered itself
+     * `undefined` is left to flushResponse (204 when nothing was written).
+     */
+    private sendResult(context: MiddlewareContext, result: unknown): void {
+        if (result === undefined || context.response?.isFinished()) {
+            return;
+        }
+        context.sendSuccess(result as Record<string, unknown>);
+    }
+
+    /**
+     * Send the recorded response (HEAD responses keep their headers but drop the body),
+     * close its metrics and dispose the request scope (once the stream closes for SSE)
+     * A request nothing answered (e.g. a handler returning undefined) gets an empty 204.
+     */
+    private flushResponse(context: MiddlewareContext): void {
+        const recorder = context.response;
+        if (recorder && !recorder.isFinished()) {
+            recorder.writeStatus('204 No Content').end();
+        }
+
+        recorder?.flush(context.method?.toLowerCase() === 'head');
+        this.requestTrackers.get(context)?.(context.response?.statusCode ?? 200);
+
+        const disposeScope = () => {
+            context.scope?.dispose().catch(error => this.logger.error('Failed to dispose request scope:', error));
+        };
+
+        // An SSE stream outlives the handler and keeps using its request-scoped services
+        if (recorder?.isStreaming()) {
+            context.sse().onClose(disposeScope);
         } else {
-            throw new Error(`Unsupported HTTP method: ${method}`);
+            disposeScope();
         }
+    }
 
-        this.logger.debug(`Registered route: ${method.toUpperCase()} ${fullPath}`);
+    /**
+     * Register a handler with the server, taking over a derived handler on the same method and path
+     */
+    private addServerHandler(method: HttpMethod, path: string, handler: HttpHandler): void {
+        const key = `${method} ${path}`;
+
+        if (this.derivedHandlers.has(key)) {
+            this.derivedHandlers.set(key, handler);
+            return;
+        }
+
+        this.wrapper.addHttpHandler(method, path, handler);
+    }
+
+    /**
+     * Register a framework-provided handler (HEAD from GET, CORS preflight)
+     * Only the first one per method and path is kept, an explicit route can still replace it
+     */
+    private addDerivedHandler(method: HttpMethod, path: string, handler: HttpHandler): void {
+        const key = `${method} ${path}`;
+
+        if (this.derivedHandlers.has(key)) {
+            return;
+        }
+
+        this.derivedHandlers.set(key, handler);
+        this.wrapper.addHttpHandler(method, path, (req, res) => this.derivedHandlers.get(key)!(req, res));
+    }
+
+    /**
+     * Check if CORS applies to a route (globally or through @CORS)
+     */
+    private isCorsEnabled(middlewares: MiddlewareMetadata[]): boolean {
+        return this.corsEnabled || middlewares.some(middleware => middleware.type === 'cors');
+    }
+
+    /**
+     * Create a CORS preflight handler running only the CORS middlewares of a route
+     */
+    private createPreflightHandler(route: RegisteredRoute): HttpHandler {
+        const corsMiddlewares = this.middlewareManager.createMiddlewares(
+            route.middlewares.filter(middleware => middleware.type === 'cors')
+        );
+
+        const preflightHandler = async (response: any, request: any) => {
+            const context = this.createContext(request, response, route.fullPath, route.parameterNames);
+
+            try {
+                await this.middlewareManager.executeMiddlewareChain(corsMiddlewares, context, async () => {
+                    // No CORS middleware answered the preflight, reply with an empty 204
+                    context.res.writeStatus('204 No Content').end();
+                });
+            } catch (error) {
+                await this.handleRouteError(error, context, { ...route, method: 'options' });
+            }
+
+            this.flushResponse(context);
+        };
+
+        return (req: any, res: any) => preflightHandler(res, req);
     }
 
     /**
@@ -201,36 +518,37 @@ export class Router {
     ): Promise<void> {
         this.logger.error(`Error in route ${route.method.toUpperCase()} ${route.fullPath}:`, error);
 
-        // Use a flag to track if response was already sent
-        // In uWS, we can't easily check if response was sent, so we'll wrap it
-        let responseSent = false;
-        
-        if (!responseSent) {
-            try {
-                const requestId = String(context.data?.requestId || 'unknown');
-                const routeContext = `${route.method.toUpperCase()} ${route.fullPath}`;
-                const { response: errorResponse, statusCode } = this.errorHandler.handleError(error, routeContext, requestId);
-                
-                context.res
-                    .writeStatus(`${statusCode} ${this.getStatusText(statusCode)}`)
-                    .writeHeader('Content-Type', 'application/json')
-                    .end(JSON.stringify(errorResponse));
-                    
-                responseSent = true;
-            } catch (handlerError) {
-                this.logger.error('Error handler failed:', String(handlerError));
-                
-                // Fallback error response
-                if (!responseSent) {
-                    context.res
-                        .writeStatus('500 Internal Server Error')
-                        .writeHeader('Content-Type', 'application/json')
-                        .end(JSON.stringify({
-                            error: 'Internal Server Error',
-                            message: 'An unexpected error occurred'
-                        }));
-                }
-            }
+        const recorder = context.response;
+
+        // A middleware may already have written its own error response (e.g. 401 from @Auth)
+        if (!recorder || recorder.isFinished()) {
+            return;
+        }
+
+        // Keep headers set on the way in (e.g. CORS), the error replaces status and body
+        recorder.removeHeader('Content-Type');
+
+        try {
+            const requestId = String(context.data?.requestId || 'unknown');
+            const routeContext = `${route.method.toUpperCase()} ${route.fullPath}`;
+            const { response: errorResponse, statusCode } = this.errorHandler.handleError(error, routeContext, requestId);
+            
+            recorder
+                .writeStatus(`${statusCode} ${this.getStatusText(statusCode)}`)
+                .writeHeader('Content-Type', 'application/json')
+                .end(JSON.stringify(errorResponse));
+        } catch (handlerError) {
+            this.logger.error('Error handler failed:', String(handlerError));
+            
+            // Fallback error response
+            recorder.removeHeader('Content-Type');
+            recorder
+                .writeStatus('500 Internal Server Error')
+                .writeHeader('Content-Type', 'application/json')
+                .end(JSON.stringify({
+                    error: 'Internal Server Error',
+                    message: 'An unexpected error occurred'
+                }));
         }
     }
 
@@ -244,7 +562,11 @@ export class Router {
             401: 'Unauthorized',
             403: 'Forbidden',
             404: 'Not Found',
+            405: 'Method Not Allowed',
+            408: 'Request Timeout',
             409: 'Conflict',
+            413: 'Payload Too Large',
+            415: 'Unsupported Media Type',
             422: 'Unprocessable Entity',
             429: 'Too Many Requests',
             500: 'Internal Server Error',
@@ -255,6 +577,13 @@ export class Router {
         return statusTexts[statusCode] || 'Unknown Status';
     }
 
+    /**
+     * Lifecycle hook - release middleware resources on graceful shutdown
+     */
+    onShutdown(): void {
+        this.middlewareManager.destroy();
+    }
+
     /**
      * Get router statistics
      */
@@ -12,7 +12,7 @@ export const BaseAppConfigSchema: ValidationSchema = {
     fields: {
         'server.port': [
             { type: 'number', defaultValue: 3000 },
-            { type: 'min', value: 1, message: 'Port must be at least 1' },
+            { type: 'min', value: 0, message: 'Port must be at least 0 (0 picks a free port)' },
             { type: 'max', value: 65535, message: 'Port must be at most 65535' }
         ],
         'server.host': [
@@ -186,12 +186,16 @@ export const ServerConfigSchema: ValidationSchema = {
         'port': [
             { type: 'required' },
             { type: 'number' },
-            { type: 'min', value: 1 },
+            { type: 'min', value: 0 },
             { type: 'max', value: 65535 }
         ],
         'host': [
             { type: 'string', defaultValue: '127.0.0.1' }
         ],
+        'socketPath': [
+            { type: 'optional' },
+            { type: 'string' }
+        ],
         'environment': [
             { type: 'string', defaultValue: 'development' },
             { type: 'enum', value: ['development', 'production', 'test'] }
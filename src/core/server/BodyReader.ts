@@ -0,0 +1,358 @@
+/**
+ * BodyReader - The single reader of a request's body
+ * Single Responsibility: Receive the body once, enforce size and time limits, hand it to parsers or streams
+ */
+
+import { AppError, ErrorCode, ErrorSeverity, ErrorCategory } from '../../utils/errorHandler';
+import { HttpHandlerUtils } from '../../utils/handlers';
+
+/**
+ * Turn a complete body into a value - registered per media type
+ */
+export type BodyParser = (body: Buffer, contentType: string) => unknown | Promise<unknown>;
+
+/**
+ * What the body is read from - a uWS response or the ResponseRecorder wrapping it
+ */
+export interface BodySource {
+    onData(callback: (chunk: ArrayBuffer, isLast: boolean) => void): void;
+    onAborted(callback: () => void): void;
+    /** Stop reading from the socket (uWS >= 20.24) */
+    pause?(): void;
+    resume?(): void;
+}
+
+export interface BodyReaderOptions {
+    /** Maximum body size in bytes for buffered reads (streams apply their own limits) */
+    maxBodySize: number;
+    /** Time allowed to receive the whole body, in milliseconds */
+    requestTimeoutMs: number;
+    /** False when the request announced no body (no Content-Length / Transfer-Encoding) */
+    expectBody?: boolean;
+}
+
+export const DEFAULT_BODY_READER_OPTIONS: BodyReaderOptions = {
+    maxBodySize: 1024 * 1024,
+    requestTimeoutMs: 30000
+};
+
+type ChunkListener = (chunk: ArrayBuffer, isLast: boolean) => void;
+
+/** The reader receiving each source's body - a source has a single onData handler */
+const attachedReaders = new WeakMap<BodySource, BodyReader>();
+
+// ============================================================================
+// PARSERS
+// ============================================================================
+
+/**
+ * Body parsers keyed by media type - `type/subtype`, `type/*` or `*\/*`
+ */
+export class BodyParserRegistry {
+    private parsers = new Map<string, BodyParser>();
+
+    constructor() {
+        this.register('application/json', (body) => {
+            const text = body.toString('utf8');
+            try {
+                return text.trim() ? JSON.parse(text) : {};
+            } catch (error) {
+                throw new AppError(
+                    `Invalid JSON: ${(error as Error).message}`,
+                    ErrorCode.BAD_REQUEST,
+                    400,
+                    undefined,
+                    ErrorSeverity.LOW,
+                    ErrorCategory.VALIDATION
+                );
+            }
+        });
+        this.register('application/x-www-form-urlencoded', (body) =>
+            Object.fromEntries(new URLSearchParams(body.toString('utf8')))
+        );
+        this.register('text/*', (body) => body.toString('utf8'));
+    }
+
+    /**
+     * Register (or replace) the parser of a media type
+     * @example registry.register('application/msgpack', body => decode(body))
+     */
+    register(mediaType: string, parser: BodyParser): void {
+        this.parsers.set(mediaType.toLowerCase(), parser);
+    }
+
+    /**
+     * Most specific parser for a Content-Type header
+     */
+    find(contentType: string): BodyParser | undefined {
+        const mediaType = getMediaType(contentType);
+        const [type, structuredSuffix] = [mediaType.split('/')[0], mediaType.split('+')[1]];
+
+        return this.parsers.get(mediaType)
+            // application/vnd.api+json is parsed as application/json
+            ?? (structuredSuffix ? this.parsers.get(`application/${structuredSuffix}`) : undefined)
+            ?? this.parsers.get(`${type}/*`)
+            ?? this.parsers.get('*/*');
+    }
+
+    getMediaTypes(): string[] {
+        return Array.from(this.parsers.keys());
+    }
+}
+
+/**
+ * `Multipart/Form-Data; boundary=x` -> `multipart/form-data`
+ */
+export function getMediaType(contentType: string): string {
+    return contentType.split(';')[0].trim().toLowerCase();
+}
+
+// ============================================================================
+// BODY
+// ============================================================================
+
+/**
+ * Body Reader
+ *
+ * uWS only delivers the body to an `onData` handler attached before the route
+ * handler first awaits, so the Router creates one per request up front. Chunks
+ * are copied and held until a reader asks for them; every reader - validation,
+ * the handler, logging - then shares the same bytes and the same parse result.
+ *
+ * Buffered reads fail with 413 past `maxBodySize`. Streaming readers (multipart)
+ * get every chunk and apply their own limits; until one attaches, reading from
+ * the socket is paused once `maxBodySize` bytes are held.
+ *
+ * A second reader on the same source would take its onData handler away, so
+ * callers reading a body look up the attached one with `BodyReader.attachedTo`.
+ */
+export class BodyReader {
+    private chunks: Buffer[] = [];
+    private received = 0;
+    private complete = false;
+    private error?: Error;
+    private paused = false;
+    private listener?: ChunkListener;
+    private abortListener?: (error: Error) => void;
+    private waiters: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+    private timeoutHandle?: NodeJS.Timeout;
+    private parsed?: Promise<unknown>;
+
+    constructor(
+        private source: BodySource,
+        readonly contentType: string = '',
+        private options: BodyReaderOptions,
+        private parsers: BodyParserRegistry = new BodyParserRegistry()
+    ) {
+        attachedReaders.set(source, this);
+        HttpHandlerUtils.onAborted(source, () => this.fail(new Error('Request aborted')));
+
+        if (options.expectBody === false) {
+            this.complete = true;
+            return;
+        }
+
+        source.onData((chunk, isLast) => this.receive(chunk, isLast));
+
+        this.timeoutHandle = setTimeout(() => this.fail(new AppError(
+            'Request body read timeout',
+            ErrorCode.TIMEOUT_ERROR,
+            408,
+            { timeoutMs: options.requestTimeoutMs },
+            ErrorSeverity.LOW,
+            ErrorCategory.NETWORK
+        )), options.requestTimeoutMs);
+        this.timeoutHandle.unref();
+    }
+
+    /**
+     * The reader already receiving the body of a source, if any
+     */
+    static attachedTo(source: BodySource): BodyReader | undefined {
+        return attachedReaders.get(source);
+    }
+
+    /**
+     * The whole body - rejects with 413 past `maxBodySize`
+     */
+    async buffer(): Promise<Buffer> {
+        await this.whenComplete();
+        return this.chunks.length === 1 ? this.chunks[0] : Buffer.concat(this.chunks);
+    }
+
+    async text(encoding: BufferEncoding = 'utf8'): Promise<string> {
+        return (await this.buffer()).toString(encoding);
+    }
+
+    /**
+     * The body parsed by the parser registered for its Content-Type, computed once
+     * A body without Content-Type is read as JSON; an empty one is `{}`.
+     */
+    parse(): Promise<unknown> {
+        if (!this.parsed) {
+            this.parsed = this.buffer().then(body => {
+                if (body.length === 0) {
+                    return {};
+                }
+
+                const contentType = this.contentType || 'application/json';
+                const parser = this.parsers.find(contentType);
+                if (!parser) {
+                    throw new AppError(
+                        `Unsupported Content-Type '${getMediaType(contentType)}'`,
+                        ErrorCode.UNSUPPORTED_MEDIA_TYPE,
+                        415,
+                        { supported: this.parsers.getMediaTypes() },
+                        ErrorSeverity.LOW,
+                        ErrorCategory.VALIDATION
+                    );
+                }
+                return parser(body, contentType);
+            });
+        }
+        return this.parsed;
+    }
+
+    /**
+     * Read the body as a stream: chunks received so far are replayed, the rest
+     * forwarded as they arrive. Only one stream per body. `onAborted` also
+     * reports read failures (timeout, size) with their error.
+     */
+    stream(): BodySource & { onAborted(callback: (error: Error) => void): void } {
+        return {
+            onAborted: (callback) => {
+                this.abortListener = callback;
+            },
+            onData: (callback) => this.attach(callback)
+        };
+    }
+
+    isComplete(): boolean {
+        return this.complete;
+    }
+
+    getReceivedSize(): number {
+        return this.received;
+    }
+
+    // ============================================================================
+    // RECEIVING
+    // ============================================================================
+
+    private receive(chunk: ArrayBuffer, isLast: boolean): void {
+        if (this.error) {
+            return;
+        }
+
+        this.received += chunk.byteLength;
+
+        if (this.listener) {
+            this.listener(chunk, isLast);
+        } else {
+            // Copy - uWS reuses the chunk memory once the callback returns
+            this.chunks.push(Buffer.from(new Uint8Array(chunk)));
+
+            if (this.received > this.options.maxBodySize && !this.paused && !isLast) {
+                if (!this.source.pause) {
+                    this.fail(this.tooLarge());
+                    return;
+                }
+                // Hold the client until a stream reader attaches, buffered readers get a 413
+                this.paused = true;
+                this.source.pause();
+                this.rejectWaiters(this.tooLarge());
+            }
+        }
+
+        if (isLast) {
+            this.complete = true;
+            clearTimeout(this.timeoutHandle);
+
+            // The last chunk can take a buffered body past the limit too
+            if (!this.listener && this.received > this.options.maxBodySize) {
+                this.rejectWaiters(this.tooLarge());
+            } else {
+                this.resolveWaiters();
+            }
+        }
+    }
+
+    private attach(listener: ChunkListener): void {
+        if (this.listener) {
+            throw new Error('Request body is already being streamed');
+        }
+        this.listener = listener;
+
+        if (this.error) {
+            this.abortListener?.(this.error);
+            return;
+        }
+
+        // Replay what was received before the reader attached
+        const chunks = this.chunks;
+        this.chunks = [];
+        chunks.forEach((chunk, index) => {
+            const arrayBuffer = chunk.buffer.slice(chunk.byteOffset, chunk.byteOffset + chunk.byteLength) as ArrayBuffer;
+            listener(arrayBuffer, this.complete && index === chunks.length - 1);
+        });
+
+        if (this.complete && chunks.length === 0) {
+            listener(new ArrayBuffer(0), true);
+        }
+
+        if (this.paused) {
+            this.paused = false;
+            this.source.resume?.();
+        }
+    }
+
+    private whenComplete(): Promise<void> {
+        if (this.error) {
+            return Promise.reject(this.error);
+        }
+        if (this.listener) {
+            return Promise.reject(new Error('Request body is being streamed'));
+        }
+        if (this.received > this.options.maxBodySize) {
+            return Promise.reject(this.tooLarge());
+        }
+        if (this.complete) {
+            return Promise.resolve();
+        }
+        return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+    }
+
+    private fail(error: Error): void {
+        if (this.error || this.complete) {
+            return;
+        }
+        this.error = error;
+        this.chunks = [];
+        clearTimeout(this.timeoutHandle);
+        this.rejectWaiters(error);
+        this.abortListener?.(error);
+    }
+
+    private resolveWaiters(): void {
+        for (const waiter of this.waiters.splice(0)) {
+            waiter.resolve();
+        }
+    }
+
+    private rejectWaiters(error: Error): void {
+        for (const waiter of this.waiters.splice(0)) {
+            waiter.reject(error);
+        }
+    }
+
+    private tooLarge(): AppError {
+        return new AppError(
+            `Request body too large. Maximum size: ${this.options.maxBodySize} bytes`,
+            ErrorCode.PAYLOAD_TOO_LARGE,
+            413,
+            { limit: 'maxBodySize', value: this.options.maxBodySize },
+            ErrorSeverity.LOW,
+            ErrorCategory.VALIDATION
+        );
+    }
+}
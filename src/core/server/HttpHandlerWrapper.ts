@@ -7,6 +7,7 @@ import * as uWS from 'uWebSockets.js';
 import { HttpHandler } from '../../types';
 import { Logger } from '../../utils/logger';
 import { ErrorHandler } from '../../utils/errorHandler';
+import { HttpHandlerUtils } from '../../utils/handlers';
 
 export interface HandlerWrapperOptions {
     /** Enable request timeout */
@@ -45,11 +46,15 @@ export class HttpHandlerWrapper {
 
     /**
      * Wrap an HTTP handler with common functionality
+     * For async handlers the returned promise settles once the handler is done and never rejects.
      */
     wrapHandler(handler: HttpHandler): HttpHandler {
         return (req: uWS.HttpRequest, res: uWS.HttpResponse) => {
             let hasResponded = false;
             let timeoutHandle: NodeJS.Timeout | null = null;
+            // req is invalid once the handler returns, the abort handler may run later
+            const url = req.getUrl();
+            const method = req.getMethod();
 
             // Set up request timeout
             if (this.options.enableTimeout) {
@@ -61,26 +66,23 @@ export class HttpHandlerWrapper {
                 }, this.options.timeoutMs);
             }
 
-            // Handle response abortion
-            res.onAborted(() => {
+            // Handle response abortion - the ResponseRecorder adds its own handler next to this one
+            HttpHandlerUtils.onAborted(res, () => {
                 hasResponded = true;
                 if (timeoutHandle) {
                     clearTimeout(timeoutHandle);
                 }
                 
                 if (this.options.enableLogging) {
-                    this.logger.warn('Request aborted', {
-                        url: req.getUrl(),
-                        method: req.getMethod()
-                    });
+                    this.logger.warn('Request aborted', { url, method });
                 }
             });
 
             // Log request if enabled
             if (this.options.enableLogging) {
                 this.logger.debug('Incoming request', {
-                    method: req.getMethod(),
-                    url: req.getUrl(),
+                    method,
+                    url,
                     userAgent: req.getHeader('user-agent')
                 });
             }
@@ -90,7 +92,7 @@ export class HttpHandlerWrapper {
 
                 // Handle async handlers
                 if (result && typeof result === 'object' && typeof result.then === 'function') {
-                    (result as Promise<void>)
+                    return (result as Promise<void>)
                         .then(() => {
                             if (timeoutHandle) {
                                 clearTimeout(timeoutHandle);
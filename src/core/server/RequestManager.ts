@@ -5,6 +5,9 @@
 
 import * as uWS from 'uWebSockets.js';
 import { Logger } from '../../utils/logger';
+import { parseMultipart, MultipartOptions } from '../upload/MultipartParser';
+import { captureRequest } from './RequestSnapshot';
+import { BodyReader, BodySource, BodyParser, BodyParserRegistry, getMediaType } from './BodyReader';
 
 export interface RequestManagerOptions {
     /** Maximum body size in bytes */
@@ -15,6 +18,8 @@ export interface RequestManagerOptions {
     enableLogging?: boolean;
     /** Default encoding for text data */
     defaultEncoding?: BufferEncoding;
+    /** Extra body parsers by media type, e.g. { 'application/msgpack': decode } */
+    bodyParsers?: Record<string, BodyParser>;
 }
 
 export interface ParsedBody {
@@ -31,6 +36,7 @@ export interface ParsedBody {
 export class RequestManager {
     private logger: Logger;
     private options: RequestManagerOptions;
+    private bodyParsers = new BodyParserRegistry();
 
     constructor(logger: Logger, options: RequestManagerOptions = {}) {
         this.logger = logger;
@@ -39,198 +45,117 @@ export class RequestManager {
             requestTimeoutMs: 30000,
             enableLogging: false,
             defaultEncoding: 'utf8',
-            ...options
+            // Unset values (e.g. from the environment) keep their default
+            ...Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined))
         };
+
+        for (const [mediaType, parser] of Object.entries(this.options.bodyParsers || {})) {
+            this.bodyParsers.register(mediaType, parser);
+        }
     }
 
     /**
-     * Read request body as string
+     * Start reading a request body - call it before the handler's first await
+     * Returns the reader already attached to the response (e.g. by the Router) when there is one.
+     * @param expectBody false when the request announced no body
      */
-    readBody(res: uWS.HttpResponse): Promise<string> {
-        return new Promise((resolve, reject) => {
-            let buffer = '';
-            let aborted = false;
-            let totalSize = 0;
-
-            // Set timeout
-            const timeoutHandle = setTimeout(() => {
-                if (!aborted) {
-                    aborted = true;
-                    reject(new Error('Request body read timeout'));
-                }
-            }, this.options.requestTimeoutMs);
-
-            res.onAborted(() => {
-                aborted = true;
-                clearTimeout(timeoutHandle);
-                reject(new Error('Request aborted'));
-            });
-
-            res.onData((chunk, isLast) => {
-                if (aborted) return;
-
-                try {
-                    const chunkSize = chunk.byteLength;
-                    totalSize += chunkSize;
-
-                    // Check size limit
-                    if (totalSize > this.options.maxBodySize!) {
-                        aborted = true;
-                        clearTimeout(timeoutHandle);
-                        reject(new Error(`Request body too large. Maximum size: ${this.options.maxBodySize} bytes`));
-                        return;
-                    }
+    createBodyReader(res: BodySource, contentType: string = '', expectBody?: boolean): BodyReader {
+        return BodyReader.attachedTo(res) ?? new BodyReader(res, contentType, {
+            maxBodySize: this.options.maxBodySize!,
+            requestTimeoutMs: this.options.requestTimeoutMs!,
+            expectBody
+        }, this.bodyParsers);
+    }
 
-                    // Convert chunk to string
-                    const chunkString = Buffer.from(chunk).toString(this.options.defaultEncoding);
-                    buffer += chunkString;
+    /**
+     * Register the body parser of a media type (`type/subtype`, `type/*` or `*\/*`)
+     */
+    registerBodyParser(mediaType: string, parser: BodyParser): void {
+        this.bodyParsers.register(mediaType, parser);
+    }
 
-                    if (isLast) {
-                        clearTimeout(timeoutHandle);
-                        
-                        if (this.options.enableLogging) {
-                            this.logger.debug('Request body read completed', {
-                                size: totalSize,
-                                encoding: this.options.defaultEncoding
-                            });
-                        }
-                        
-                        resolve(buffer);
-                    }
-                } catch (error) {
-                    aborted = true;
-                    clearTimeout(timeoutHandle);
-                    reject(new Error(`Failed to read request body: ${(error as Error).message}`));
-                }
-            });
-        });
+    /**
+     * Read request body as string
+     * Decoded once complete - a multi-byte character may span two chunks.
+     */
+    readBody(res: BodySource): Promise<string> {
+        return this.readBodyBuffer(res).then(buffer => buffer.toString(this.options.defaultEncoding));
     }
 
     /**
      * Read request body as Buffer
      */
-    readBodyBuffer(res: uWS.HttpResponse): Promise<Buffer> {
-        return new Promise((resolve, reject) => {
-            const chunks: Buffer[] = [];
-            let aborted = false;
-            let totalSize = 0;
-
-            const timeoutHandle = setTimeout(() => {
-                if (!aborted) {
-                    aborted = true;
-                    reject(new Error('Request body read timeout'));
-                }
-            }, this.options.requestTimeoutMs);
+    async readBodyBuffer(res: BodySource): Promise<Buffer> {
+        const buffer = await this.createBodyReader(res).buffer();
 
-            res.onAborted(() => {
-                aborted = true;
-                clearTimeout(timeoutHandle);
-                reject(new Error('Request aborted'));
+        if (this.options.enableLogging) {
+            this.logger.debug('Request body buffer read completed', {
+                size: buffer.length
             });
+        }
 
-            res.onData((chunk, isLast) => {
-                if (aborted) return;
-
-                try {
-                    const chunkSize = chunk.byteLength;
-                    totalSize += chunkSize;
-
-                    if (totalSize > this.options.maxBodySize!) {
-                        aborted = true;
-                        clearTimeout(timeoutHandle);
-                        reject(new Error(`Request body too large. Maximum size: ${this.options.maxBodySize} bytes`));
-                        return;
-                    }
-
-                    chunks.push(Buffer.from(chunk));
-
-                    if (isLast) {
-                        clearTimeout(timeoutHandle);
-                        const fullBuffer = Buffer.concat(chunks);
-                        
-                        if (this.options.enableLogging) {
-                            this.logger.debug('Request body buffer read completed', {
-                                size: totalSize
-                            });
-                        }
-                        
-                        resolve(fullBuffer);
-                    }
-                } catch (error) {
-                    aborted = true;
-                    clearTimeout(timeoutHandle);
-                    reject(new Error(`Failed to read request body buffer: ${(error as Error).message}`));
-                }
-            });
-        });
+        return buffer;
     }
 
     /**
-     * Parse request body with content type detection
+     * Parse request body with the parser registered for its content type
      */
-    async parseBody(res: uWS.HttpResponse, req: uWS.HttpRequest): Promise<ParsedBody> {
-        try {
-            const contentType = req.getHeader('content-type') || '';
-            const bodyString = await this.readBody(res);
-            
-            const result: ParsedBody = {
-                success: false,
-                contentType,
-                size: Buffer.byteLength(bodyString, this.options.defaultEncoding)
-            };
+    async parseBody(res: BodySource, req: uWS.HttpRequest, multipart: MultipartOptions = {}): Promise<ParsedBody> {
+        const contentType = req.getHeader('content-type') || '';
 
-            // Parse based on content type
-            if (contentType.includes('application/json')) {
-                try {
-                    result.data = JSON.parse(bodyString);
-                    result.success = true;
-                } catch (parseError) {
-                    result.error = `Invalid JSON: ${(parseError as Error).message}`;
-                }
-            } else if (contentType.includes('application/x-www-form-urlencoded')) {
-                try {
-                    result.data = this.parseUrlEncoded(bodyString);
-                    result.success = true;
-                } catch (parseError) {
-                    result.error = `Invalid form data: ${(parseError as Error).message}`;
-                }
-            } else {
-                // Return as plain text for other content types
-                result.data = bodyString;
-                result.success = true;
+        try {
+            if (getMediaType(contentType) === 'multipart/form-data') {
+                return await this.parseMultipartBody(res, contentType, multipart);
             }
 
+            const body = this.createBodyReader(res, contentType);
+            const data = await body.parse();
+
             if (this.options.enableLogging) {
                 this.logger.debug('Request body parsed', {
                     contentType,
-                    size: result.size,
-                    success: result.success
+                    size: body.getReceivedSize()
                 });
             }
 
-            return result;
+            return {
+                success: true,
+                data,
+                contentType,
+                size: body.getReceivedSize()
+            };
 
         } catch (error) {
             return {
                 success: false,
                 error: (error as Error).message,
+                contentType,
                 size: 0
             };
         }
     }
 
     /**
-     * Parse URL encoded data
+     * Stream a multipart/form-data body into fields and files
+     * Limited by the multipart limits rather than maxBodySize.
      */
-    private parseUrlEncoded(data: string): Record<string, string> {
-        const params = new URLSearchParams(data);
-        const result: Record<string, string> = {};
-        
-        for (const [key, value] of params.entries()) {
-            result[key] = value;
+    private async parseMultipartBody(res: BodySource, contentType: string, options: MultipartOptions): Promise<ParsedBody> {
+        const result = await parseMultipart(this.createBodyReader(res, contentType).stream(), contentType, options);
+
+        if (this.options.enableLogging) {
+            this.logger.debug('Multipart body parsed', {
+                fields: Object.keys(result.fields).length,
+                files: result.files.length,
+                size: result.size
+            });
         }
-        
-        return result;
+
+        return {
+            success: true,
+            data: result,
+            contentType,
+            size: result.size
+        };
     }
 
     /**
@@ -251,26 +176,10 @@ export class RequestManager {
     }
 
     /**
-     * Extract request headers
+     * Extract every request header - read them before the handler's first await
      */
     getHeaders(req: uWS.HttpRequest): Record<string, string> {
-        const headers: Record<string, string> = {};
-        
-        // Common headers to extract
-        const commonHeaders = [
-            'content-type', 'content-length', 'authorization', 'user-agent',
-            'accept', 'accept-encoding', 'accept-language', 'host', 'origin',
-            'referer', 'x-forwarded-for', 'x-real-ip'
-        ];
-
-        for (const headerName of commonHeaders) {
-            const value = req.getHeader(headerName);
-            if (value) {
-                headers[headerName] = value;
-            }
-        }
-
-        return headers;
+        return { ...captureRequest(req).headers };
     }
 
     /**
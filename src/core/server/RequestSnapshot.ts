@@ -0,0 +1,91 @@
+/**
+ * RequestSnapshot - Copy of a uWS request taken when it comes in
+ * Single Responsibility: Capture method, URL, query, headers and path parameters before the request is invalidated
+ */
+
+import { UWSRequest, RequestHeaders } from '../../types/middleware.types';
+
+/**
+ * Everything the framework reads from a request, frozen
+ */
+export interface RequestSnapshot {
+    /** Method as reported by uWS (lower case) */
+    readonly method: string;
+    /** Path without the query string */
+    readonly url: string;
+    /** Raw query string, without '?' */
+    readonly query: string;
+    /** Every header, names lower case - repeated headers are joined with ', ' */
+    readonly headers: Readonly<RequestHeaders>;
+    /** Positional path parameters (`req.getParameter(i)`), undecoded */
+    readonly parameters: readonly string[];
+}
+
+/**
+ * Copy a uWS request - call it synchronously in the handler, before any await
+ * @param parameterCount number of `:param` segments of the matched route
+ */
+export function captureRequest(req: UWSRequest, parameterCount: number = 0): RequestSnapshot {
+    const headers: RequestHeaders = {};
+    req.forEach?.((key, value) => {
+        headers[key] = headers[key] !== undefined ? `${headers[key]}, ${value}` : value;
+    });
+
+    const parameters: string[] = [];
+    for (let index = 0; index < parameterCount; index++) {
+        parameters.push(req.getParameter?.(index) ?? '');
+    }
+
+    return Object.freeze({
+        method: req.getMethod?.() || 'GET',
+        url: req.getUrl?.() || '',
+        query: req.getQuery?.() || '',
+        headers: Object.freeze(headers),
+        parameters: Object.freeze(parameters)
+    });
+}
+
+/**
+ * Request Backed By A Snapshot
+ *
+ * Stands in for the uWS request once the handler has awaited - uWS invalidates
+ * the original as soon as the handler returns, and reading it afterwards throws
+ * or returns another request's data. Same read API, answered from the snapshot.
+ */
+export class DetachedRequest implements UWSRequest {
+    constructor(readonly snapshot: RequestSnapshot) {}
+
+    getMethod(): string {
+        return this.snapshot.method;
+    }
+
+    getUrl(): string {
+        return this.snapshot.url;
+    }
+
+    /**
+     * Raw query string, or the decoded value of one key like uWS `getQuery(key)`
+     */
+    getQuery(): string;
+    getQuery(key: string): string | undefined;
+    getQuery(key?: string): string | undefined {
+        if (key === undefined) {
+            return this.snapshot.query;
+        }
+        return new URLSearchParams(this.snapshot.query).get(key) ?? undefined;
+    }
+
+    getParameter(index: number): string {
+        return this.snapshot.parameters[index] ?? '';
+    }
+
+    getHeader(key: string): string {
+        return this.snapshot.headers[key.toLowerCase()] ?? '';
+    }
+
+    forEach(callback: (key: string, value: string) => void): void {
+        for (const [key, value] of Object.entries(this.snapshot.headers)) {
+            callback(key, value);
+        }
+    }
+}
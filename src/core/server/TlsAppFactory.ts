@@ -0,0 +1,69 @@
+/**
+ * TlsAppFactory - Creates the uWS app for the configured transport
+ * Single Responsibility: Map SSL configuration to uWS.App / uWS.SSLApp and the HTTPS redirect app
+ */
+
+import fs from 'fs';
+import * as uWS from 'uWebSockets.js';
+import type { SslConfig, SslCertificateConfig } from '../container/ApplicationConfig';
+
+/**
+ * Create a plain app, or an SSL app with every SNI certificate added
+ * Certificate files are checked up front - uWS only reports a failed listen otherwise.
+ * Each server name has its own router: UWebSocketWrapper registers every route on all of them.
+ */
+export function createTemplatedApp(ssl?: SslConfig): uWS.TemplatedApp {
+    if (!ssl?.enabled) {
+        return uWS.App();
+    }
+
+    const app = uWS.SSLApp(toAppOptions(ssl, 'default'));
+    for (const [hostname, certificate] of Object.entries(ssl.serverNames || {})) {
+        app.addServerName(hostname, toAppOptions(certificate, hostname));
+    }
+
+    return app;
+}
+
+/**
+ * Plain HTTP app answering every request with a permanent redirect to HTTPS
+ */
+export function createHttpsRedirectApp(httpsPort: number): uWS.TemplatedApp {
+    const portSuffix = httpsPort === 443 ? '' : `:${httpsPort}`;
+
+    return uWS.App().any('/*', (res: uWS.HttpResponse, req: uWS.HttpRequest) => {
+        const hostname = (req.getHeader('host') || 'localhost').replace(/:\d+$/, '');
+        const query = req.getQuery();
+        const location = `https://${hostname}${portSuffix}${req.getUrl()}${query ? `?${query}` : ''}`;
+
+        res.cork(() => {
+            res.writeStatus('301 Moved Permanently');
+            res.writeHeader('Location', location);
+            res.end();
+        });
+    });
+}
+
+function toAppOptions(certificate: SslCertificateConfig, label: string): uWS.AppOptions {
+    if (!certificate.certPath || !certificate.keyPath) {
+        throw new Error(`SSL certificate '${label}' requires certPath and keyPath`);
+    }
+
+    const files = {
+        cert_file_name: certificate.certPath,
+        key_file_name: certificate.keyPath,
+        ca_file_name: certificate.caPath,
+        dh_params_file_name: certificate.dhParamsPath
+    };
+
+    for (const file of Object.values(files)) {
+        if (file && !fs.existsSync(file)) {
+            throw new Error(`SSL file not found for '${label}': ${file}`);
+        }
+    }
+
+    return {
+        ...files,
+        passphrase: certificate.passphrase
+    };
+}
@@ -0,0 +1,145 @@
+/**
+ * WebSocketSender - Backpressure-aware WebSocket sends
+ * Single Responsibility: Send, queue or drop messages depending on each connection's buffered amount
+ */
+
+import * as uWS from 'uWebSockets.js';
+import { Logger } from '../../utils/logger';
+
+export type BackpressurePolicy = 'queue' | 'drop';
+
+export type WebSocketSendStatus = 'sent' | 'queued' | 'dropped';
+
+export interface WebSocketSenderOptions {
+    /** Buffered bytes above which messages are queued or dropped */
+    maxBackpressure: number;
+    /** What to do with messages while a connection is backpressured */
+    policy: BackpressurePolicy;
+    /** Messages queued per connection before further ones are dropped */
+    maxQueuedMessages: number;
+}
+
+interface QueuedMessage {
+    message: uWS.RecognizedString;
+    isBinary: boolean;
+    compress: boolean;
+}
+
+/**
+ * WebSocket Sender
+ *
+ * Once a connection has queued messages, later ones are queued behind them so
+ * ordering is kept. Queues are flushed on the connection's `drain` event and
+ * discarded when it closes.
+ */
+export class WebSocketSender {
+    private queues = new Map<uWS.WebSocket<any>, QueuedMessage[]>();
+    private droppedMessages = 0;
+
+    constructor(private options: WebSocketSenderOptions, private logger?: Logger) {}
+
+    /**
+     * Send now when the connection has room, otherwise queue or drop per policy
+     */
+    send(ws: uWS.WebSocket<any>, message: uWS.RecognizedString, isBinary: boolean = false, compress: boolean = false): WebSocketSendStatus {
+        try {
+            const queue = this.queues.get(ws);
+
+            if (!queue && ws.getBufferedAmount() < this.options.maxBackpressure) {
+                return this.write(ws, { message, isBinary, compress }) ? 'sent' : this.drop();
+            }
+
+            if (this.options.policy === 'drop') {
+                return this.drop();
+            }
+
+            if (queue && queue.length >= this.options.maxQueuedMessages) {
+                this.logger?.warn(`⚠️ WebSocket send queue full (${queue.length} messages), dropping message`);
+                return this.drop();
+            }
+
+            if (queue) {
+                queue.push({ message, isBinary, compress });
+            } else {
+                this.queues.set(ws, [{ message, isBinary, compress }]);
+            }
+            return 'queued';
+        } catch {
+            // Closed connection
+            return this.drop();
+        }
+    }
+
+    /**
+     * Send queued messages while the connection has room - called on `drain`
+     * @returns true when nothing is left queued
+     */
+    flush(ws: uWS.WebSocket<any>): boolean {
+        const queue = this.queues.get(ws);
+        if (!queue) {
+            return true;
+        }
+
+        try {
+            ws.cork(() => {
+                while (queue.length > 0 && ws.getBufferedAmount() < this.options.maxBackpressure) {
+                    if (!this.write(ws, queue.shift()!)) {
+                        this.drop();
+                    }
+                }
+            });
+        } catch {
+            this.release(ws);
+            return true;
+        }
+
+        if (queue.length === 0) {
+            this.queues.delete(ws);
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Discard the connection's queue - called on `close`
+     */
+    release(ws: uWS.WebSocket<any>): void {
+        const queue = this.queues.get(ws);
+        if (queue) {
+            this.droppedMessages += queue.length;
+            this.queues.delete(ws);
+        }
+    }
+
+    /**
+     * Messages waiting for the connection to drain
+     */
+    getQueuedCount(ws: uWS.WebSocket<any>): number {
+        return this.queues.get(ws)?.length ?? 0;
+    }
+
+    getStats(): { backpressuredConnections: number; queuedMessages: number; droppedMessages: number } {
+        let queuedMessages = 0;
+        for (const queue of this.queues.values()) {
+            queuedMessages += queue.length;
+        }
+
+        return {
+            backpressuredConnections: this.queues.size,
+            queuedMessages,
+            droppedMessages: this.droppedMessages
+        };
+    }
+
+    /**
+     * uWS returns 2 when it dropped the message itself (over its own backpressure limit)
+     */
+    private write(ws: uWS.WebSocket<any>, { message, isBinary, compress }: QueuedMessage): boolean {
+        return ws.send(message, isBinary, compress) !== 2;
+    }
+
+    private drop(): 'dropped' {
+        this.droppedMessages++;
+        return 'dropped';
+    }
+}
@@ -0,0 +1,449 @@
+/**
+ * MultipartParser - Streaming multipart/form-data parser
+ * Single responsibility: Split a body fed chunk by chunk into fields and files, enforcing limits
+ */
+
+import { AppError, ErrorCode, ErrorSeverity, ErrorCategory } from '../../utils/errorHandler';
+import { UWSResponse } from '../../types/middleware.types';
+import { MemoryStorage, UploadStorage, UploadSink, UploadedFile } from './UploadStorage';
+
+export interface MultipartLimits {
+    /** Maximum size of a single file in bytes (default 10 MB) */
+    fileSize?: number;
+    /** Maximum size of the whole body in bytes (default 50 MB) */
+    totalSize?: number;
+    /** Maximum number of files (default 10) */
+    files?: number;
+    /** Maximum number of non-file fields (default 100) */
+    fields?: number;
+    /** Maximum size of a non-file field value in bytes (default 1 MB) */
+    fieldSize?: number;
+}
+
+export interface MultipartOptions {
+    /** Where files are stored (default: MemoryStorage) */
+    storage?: UploadStorage;
+    limits?: MultipartLimits;
+}
+
+export interface MultipartResult {
+    /** Non-file fields - repeated names collect their values in an array */
+    fields: Record<string, string | string[]>;
+    /** Files in body order */
+    files: UploadedFile[];
+    /** Body size in bytes */
+    size: number;
+}
+
+const DEFAULT_LIMITS: Required<MultipartLimits> = {
+    fileSize: 10 * 1024 * 1024,
+    totalSize: 50 * 1024 * 1024,
+    files: 10,
+    fields: 100,
+    fieldSize: 1024 * 1024
+};
+
+const CRLF = Buffer.from('\r\n');
+const HEADERS_END = Buffer.from('\r\n\r\n');
+const MAX_HEADERS_SIZE = 16 * 1024;
+
+type ParserState = 'preamble' | 'boundary' | 'headers' | 'body' | 'done';
+
+interface CurrentPart {
+    name: string;
+    fileName?: string;
+    mimeType: string;
+    size: number;
+    /** Field value chunks */
+    chunks: Buffer[];
+    /** File sink, writes are chained to keep their order */
+    sink?: UploadSink;
+    written: Promise<void>;
+    /** Empty file input - browsers send a part with an empty file name */
+    skip: boolean;
+}
+
+/**
+ * Multipart Parser
+ *
+ * Fed from `res.onData` - uWS only lends each chunk for the duration of the
+ * callback, so the parser copies what it keeps. A limit or format error
+ * rejects `result` right away and aborts every file sink; the rest of the
+ * body is ignored.
+ */
+export class MultipartParser {
+    /** Settles once the body is parsed and every file is stored */
+    readonly result: Promise<MultipartResult>;
+
+    private delimiter: Buffer;
+    // The leading CRLF lets the first boundary match the delimiter like the others
+    private buffer: Buffer = CRLF;
+    private state: ParserState = 'preamble';
+    private limits: Required<MultipartLimits>;
+    private size = 0;
+    private fieldCount = 0;
+    private fields: Record<string, string | string[]> = {};
+    private files: Array<Promise<UploadedFile>> = [];
+    private sinks: UploadSink[] = [];
+    private part?: CurrentPart;
+    private failed = false;
+    private resolve!: (result: MultipartResult) => void;
+    private reject!: (error: Error) => void;
+
+    constructor(boundary: string, private storage: UploadStorage = new MemoryStorage(), limits: MultipartLimits = {}) {
+        this.delimiter = Buffer.from(`\r\n--${boundary}`);
+        this.limits = { ...DEFAULT_LIMITS, ...limits };
+        this.result = new Promise((resolve, reject) => {
+            this.resolve = resolve;
+            this.reject = reject;
+        });
+    }
+
+    /**
+     * Extract the boundary of a multipart/form-data Content-Type
+     */
+    static getBoundary(contentType: string): string | undefined {
+        if (!/^multipart\/form-data\s*(;|$)/i.test(contentType.trim())) {
+            return undefined;
+        }
+        const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+        return match ? (match[1] || match[2]) : undefined;
+    }
+
+    /**
+     * Feed the next chunk of the body
+     */
+    write(chunk: ArrayBuffer | Buffer): void {
+        if (this.failed) {
+            return;
+        }
+
+        this.size += chunk.byteLength;
+        if (this.size > this.limits.totalSize) {
+            this.fail(payloadTooLarge(`Request body exceeds ${this.limits.totalSize} bytes`, 'totalSize', this.limits.totalSize));
+            return;
+        }
+        if (this.state === 'done') {
+            // Epilogue
+            return;
+        }
+
+        // Buffer.concat copies - the uWS chunk is only valid during onData
+        this.buffer = Buffer.concat([this.buffer, Buffer.from(chunk as ArrayBuffer)]);
+
+        try {
+            this.parse();
+        } catch (error) {
+            this.fail(error as Error);
+        }
+    }
+
+    /**
+     * The body is complete
+     */
+    end(): void {
+        if (this.failed) {
+            return;
+        }
+        if (this.state !== 'done') {
+            this.fail(badRequest('Unexpected end of multipart body'));
+            return;
+        }
+
+        Promise.all(this.files)
+            .then(files => this.resolve({ fields: this.fields, files, size: this.size }))
+            .catch(error => this.fail(error));
+    }
+
+    /**
+     * Stop parsing and discard stored files (e.g. the request was aborted)
+     */
+    abort(error: Error): void {
+        this.fail(error);
+    }
+
+    // ============================================================================
+    // PARSING
+    // ============================================================================
+
+    private parse(): void {
+        while (true) {
+            switch (this.state) {
+                case 'preamble': {
+                    const index = this.buffer.indexOf(this.delimiter);
+                    if (index === -1) {
+                        this.keepTail();
+                        return;
+                    }
+                    this.buffer = this.buffer.subarray(index + this.delimiter.length);
+                    this.state = 'boundary';
+                    break;
+                }
+
+                case 'boundary': {
+                    if (this.buffer.length < 2) {
+                        return;
+                    }
+                    if (this.buffer[0] === 0x2d && this.buffer[1] === 0x2d) {
+                        // Closing delimiter, the epilogue is ignored
+                        this.state = 'done';
+                        this.buffer = Buffer.alloc(0);
+                        return;
+                    }
+                    // Transport padding may precede the line break
+                    const lineEnd = this.buffer.indexOf(CRLF);
+                    if (lineEnd === -1) {
+                        if (this.buffer.length > 1024) {
+                            throw badRequest('Malformed multipart boundary');
+                        }
+                        return;
+                    }
+                    this.buffer = this.buffer.subarray(lineEnd + CRLF.length);
+                    this.state = 'headers';
+                    break;
+                }
+
+                case 'headers': {
+                    // A part without headers starts with the blank line
+                    const index = this.buffer.subarray(0, 2).equals(CRLF) ? -2 : this.buffer.indexOf(HEADERS_END);
+                    if (index === -1) {
+                        if (this.buffer.length > MAX_HEADERS_SIZE) {
+                            throw badRequest('Multipart part headers too large');
+                        }
+                        return;
+                    }
+                    const headers = index < 0 ? '' : this.buffer.subarray(0, index).toString('utf8');
+                    this.buffer = this.buffer.subarray(index + HEADERS_END.length);
+                    this.startPart(headers);
+                    this.state = 'body';
+                    break;
+                }
+
+                case 'body': {
+                    const index = this.buffer.indexOf(this.delimiter);
+                    if (index === -1) {
+                        // The end of the buffer may be the start of a delimiter
+                        const safeLength = this.buffer.length - (this.delimiter.length - 1);
+                        if (safeLength > 0) {
+                            this.partData(this.buffer.subarray(0, safeLength));
+                            this.buffer = this.buffer.subarray(safeLength);
+                        }
+                        return;
+                    }
+                    if (index > 0) {
+                        this.partData(this.buffer.subarray(0, index));
+                    }
+                    this.endPart();
+                    this.buffer = this.buffer.subarray(index + this.delimiter.length);
+                    this.state = 'boundary';
+                    break;
+                }
+
+                case 'done':
+                    return;
+            }
+        }
+    }
+
+    private keepTail(): void {
+        const keep = this.delimiter.length - 1;
+        if (this.buffer.length > keep) {
+            this.buffer = this.buffer.subarray(this.buffer.length - keep);
+        }
+    }
+
+    // ============================================================================
+    // PARTS
+    // ============================================================================
+
+    private startPart(rawHeaders: string): void {
+        const headers = parseHeaders(rawHeaders);
+        const disposition = parseParameters(headers['content-disposition'] || '');
+
+        if (disposition.name === undefined) {
+            throw badRequest('Multipart part without a name');
+        }
+
+        const isFile = disposition.filename !== undefined;
+        const part: CurrentPart = {
+            name: disposition.name,
+            fileName: disposition.filename,
+            mimeType: headers['content-type'] || (isFile ? 'application/octet-stream' : 'text/plain'),
+            size: 0,
+            chunks: [],
+            written: Promise.resolve(),
+            skip: isFile && disposition.filename === ''
+        };
+        this.part = part;
+
+        if (part.skip) {
+            return;
+        }
+
+        if (isFile) {
+            if (this.files.length >= this.limits.files) {
+                throw payloadTooLarge(`Too many files, at most ${this.limits.files} allowed`, 'files', this.limits.files);
+            }
+            part.sink = this.storage.createSink({ fieldName: part.name, fileName: part.fileName!, mimeType: part.mimeType });
+            this.sinks.push(part.sink);
+        } else if (++this.fieldCount > this.limits.fields) {
+            throw payloadTooLarge(`Too many fields, at most ${this.limits.fields} allowed`, 'fields', this.limits.fields);
+        }
+    }
+
+    private partData(data: Buffer): void {
+        const part = this.part!;
+        if (part.skip) {
+            return;
+        }
+
+        part.size += data.length;
+
+        if (part.sink) {
+            if (part.size > this.limits.fileSize) {
+                throw payloadTooLarge(`File '${part.fileName}' exceeds ${this.limits.fileSize} bytes`, 'fileSize', this.limits.fileSize);
+            }
+            const sink = part.sink;
+            part.written = part.written.then(() => sink.write(data));
+            // Fail fast instead of waiting for the end of the body
+            part.written.catch(error => this.fail(error));
+        } else {
+            if (part.size > this.limits.fieldSize) {
+                throw payloadTooLarge(`Field '${part.name}' exceeds ${this.limits.fieldSize} bytes`, 'fieldSize', this.limits.fieldSize);
+            }
+            part.chunks.push(data);
+        }
+    }
+
+    private endPart(): void {
+        const part = this.part!;
+        this.part = undefined;
+
+        if (part.skip) {
+            return;
+        }
+
+        if (part.sink) {
+            const sink = part.sink;
+            this.files.push(part.written
+                .then(() => sink.finish())
+                .then(stored => ({
+                    fieldName: part.name,
+                    fileName: part.fileName!,
+                    mimeType: part.mimeType,
+                    size: part.size,
+                    ...stored
+                })));
+            return;
+        }
+
+        const value = Buffer.concat(part.chunks).toString('utf8');
+        const existing = this.fields[part.name];
+        this.fields[part.name] = existing === undefined ? value
+            : Array.isArray(existing) ? [...existing, value] : [existing, value];
+    }
+
+    private fail(error: Error): void {
+        if (this.failed) {
+            return;
+        }
+
+        this.failed = true;
+        this.state = 'done';
+        this.buffer = Buffer.alloc(0);
+
+        for (const sink of this.sinks) {
+            Promise.resolve()
+                .then(() => sink.abort())
+                .catch(() => undefined);
+        }
+
+        this.reject(error);
+    }
+}
+
+/**
+ * Parse a multipart/form-data body as it arrives on the response's onData
+ * Must be called before the handler's first await, like every uWS body read.
+ */
+export function parseMultipart(
+    res: Pick<UWSResponse, 'onData' | 'onAborted'>,
+    contentType: string,
+    options: MultipartOptions = {}
+): Promise<MultipartResult> {
+    const boundary = MultipartParser.getBoundary(contentType);
+    if (!boundary) {
+        return Promise.reject(new AppError(
+            'Expected a multipart/form-data body with a boundary',
+            ErrorCode.UNSUPPORTED_MEDIA_TYPE,
+            415,
+            { contentType },
+            ErrorSeverity.LOW,
+            ErrorCategory.VALIDATION
+        ));
+    }
+
+    const parser = new MultipartParser(boundary, options.storage, options.limits);
+
+    // A RequestBody stream reports why reading failed (timeout, size)
+    res.onAborted(((error?: Error) => parser.abort(error ?? new Error('Request aborted'))) as () => void);
+    res.onData((chunk, isLast) => {
+        parser.write(chunk);
+        if (isLast) {
+            parser.end();
+        }
+    });
+
+    return parser.result;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function parseHeaders(raw: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const line of raw.split('\r\n')) {
+        const separator = line.indexOf(':');
+        if (separator > 0) {
+            headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+        }
+    }
+    return headers;
+}
+
+/**
+ * Parameters of a Content-Disposition header, e.g. `form-data; name="avatar"; filename="me.png"`
+ */
+function parseParameters(header: string): Record<string, string> {
+    const parameters: Record<string, string> = {};
+    const pattern = /;\s*([^=;\s]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(header)) !== null) {
+        const name = match[1].toLowerCase();
+        const value = match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : match[3].trim();
+
+        if (name === 'filename*') {
+            // RFC 5987 - UTF-8''encoded%20name takes precedence over filename
+            const encoded = /^[^']*'[^']*'(.*)$/.exec(value);
+            try {
+                parameters.filename = decodeURIComponent(encoded ? encoded[1] : value);
+            } catch {
+                // Keep the plain filename
+            }
+        } else if (!(name === 'filename' && parameters.filename !== undefined)) {
+            parameters[name] = value;
+        }
+    }
+
+    return parameters;
+}
+
+function payloadTooLarge(message: string, limit: string, value: number): AppError {
+    return new AppError(message, ErrorCode.PAYLOAD_TOO_LARGE, 413, { limit, value }, ErrorSeverity.LOW, ErrorCategory.VALIDATION);
+}
+
+function badRequest(message: string): AppError {
+    return new AppError(message, ErrorCode.BAD_REQUEST, 400, undefined, ErrorSeverity.LOW, ErrorCategory.VALIDATION);
+}
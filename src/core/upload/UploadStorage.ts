@@ -0,0 +1,150 @@
+/**
+ * UploadStorage - Where uploaded files go while a multipart body is parsed
+ * Single responsibility: Define the storage contract and the memory, disk and stream implementations
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { once } from 'events';
+import { finished } from 'stream/promises';
+import type { Writable } from 'stream';
+
+export interface UploadFileInfo {
+    /** Form field name */
+    fieldName: string;
+    /** File name sent by the client - never use it as a path as is */
+    fileName: string;
+    /** Content-Type of the part (default 'application/octet-stream') */
+    mimeType: string;
+}
+
+export interface UploadedFile extends UploadFileInfo {
+    /** Size in bytes */
+    size: number;
+    /** File contents (MemoryStorage) */
+    buffer?: Buffer;
+    /** Temporary file path (DiskStorage) - move or delete it once handled */
+    path?: string;
+}
+
+/**
+ * Receives the chunks of one file
+ */
+export interface UploadSink {
+    write(chunk: Buffer): void | Promise<void>;
+    /** Every chunk was written - resolve with what to add to the UploadedFile */
+    finish(): Promise<Partial<UploadedFile>>;
+    /** The upload failed - release what was stored */
+    abort(): void | Promise<void>;
+}
+
+/**
+ * Upload Storage - implement it to send files elsewhere (S3, database, ...)
+ */
+export interface UploadStorage {
+    createSink(file: UploadFileInfo): UploadSink;
+}
+
+// ============================================================================
+// IMPLEMENTATIONS
+// ============================================================================
+
+/**
+ * Keep files in memory as `file.buffer` - the default, size limits matter here
+ */
+export class MemoryStorage implements UploadStorage {
+    createSink(): UploadSink {
+        const chunks: Buffer[] = [];
+
+        return {
+            write: (chunk) => {
+                chunks.push(chunk);
+            },
+            finish: async () => ({ buffer: Buffer.concat(chunks) }),
+            abort: () => {
+                chunks.length = 0;
+            }
+        };
+    }
+}
+
+export interface DiskStorageOptions {
+    /** Directory of the temporary files (default: the OS temp directory) */
+    directory?: string;
+}
+
+/**
+ * Write files to a temporary directory as `file.path`
+ * Names are random - the client file name is only kept as metadata.
+ */
+export class DiskStorage implements UploadStorage {
+    constructor(private options: DiskStorageOptions = {}) {}
+
+    createSink(): UploadSink {
+        const directory = this.options.directory || os.tmpdir();
+        const filePath = path.join(directory, `upload-${crypto.randomUUID()}`);
+
+        return new StreamSink(
+            fs.createWriteStream(filePath, { flags: 'wx' }),
+            () => ({ path: filePath }),
+            () => fs.promises.unlink(filePath).catch(() => undefined)
+        );
+    }
+}
+
+/**
+ * Pipe each file into a stream provided by the application
+ * @example new StreamStorage(file => bucket.openUploadStream(file.fileName))
+ */
+export class StreamStorage implements UploadStorage {
+    constructor(private createStream: (file: UploadFileInfo) => Writable) {}
+
+    createSink(file: UploadFileInfo): UploadSink {
+        return new StreamSink(this.createStream(file));
+    }
+}
+
+/**
+ * Sink writing to a Node stream, waiting for 'drain' when it is full
+ */
+class StreamSink implements UploadSink {
+    private error?: Error;
+
+    constructor(
+        private stream: Writable,
+        private result: () => Partial<UploadedFile> = () => ({}),
+        private cleanup?: () => Promise<void>
+    ) {
+        // Errors surface on the next write or finish, not as an uncaught 'error'
+        stream.on('error', (error) => {
+            this.error ??= error;
+        });
+    }
+
+    async write(chunk: Buffer): Promise<void> {
+        this.throwIfFailed();
+        if (!this.stream.write(chunk)) {
+            await once(this.stream, 'drain');
+        }
+    }
+
+    async finish(): Promise<Partial<UploadedFile>> {
+        this.throwIfFailed();
+        this.stream.end();
+        await finished(this.stream);
+        return this.result();
+    }
+
+    async abort(): Promise<void> {
+        this.stream.destroy();
+        await this.cleanup?.();
+    }
+
+    private throwIfFailed(): void {
+        if (this.error) {
+            throw this.error;
+        }
+    }
+}
@@ -0,0 +1,268 @@
+/**
+ * GatewayManager - Serves @WebSocketGateway classes through the uWS wrapper
+ * Single responsibility: Upgrade authentication, message envelope routing and validation for gateways
+ */
+
+import * as uWS from 'uWebSockets.js';
+import { UWebSocketWrapper } from '../ServerWrapper';
+import { Logger } from '../../utils/logger';
+import { ErrorHandler } from '../../utils/errorHandler';
+import { HttpHandlerUtils } from '../../utils/handlers';
+import { MetadataUtils } from '../decorators/MetadataUtils';
+import { WebSocketGatewayOptions, WebSocketHandlerMetadata } from '../decorators/types';
+import { AuthenticationMiddleware } from '../../middleware/AuthenticationMiddleware';
+import { MiddlewareContextImpl } from '../../middleware/MiddlewareContext';
+import { ResponseRecorder } from '../../middleware/ResponseRecorder';
+import { ValidationService } from '../validation/ValidationService';
+import type { JwtService } from '../../auth/JwtService';
+import type { UserRoleService, User } from '../../auth/UserRoleService';
+import type { AuthenticationErrorHandler } from '../../auth/AuthenticationErrorHandler';
+
+/**
+ * Data attached to every gateway connection at upgrade, read with `ws.getUserData()`
+ */
+export interface GatewayUserData<TUser = User> {
+    connectionId: string;
+    /** Authenticated user (gateways declared with `auth`) */
+    user?: TUser;
+    url: string;
+    query: Record<string, string>;
+    headers: Record<string, string>;
+}
+
+export type GatewaySocket<TUser = User> = uWS.WebSocket<GatewayUserData<TUser>>;
+
+/**
+ * Message format exchanged with gateways
+ */
+export interface WebSocketEnvelope<T = unknown> {
+    event: string;
+    data?: T;
+}
+
+export interface GatewayManagerOptions {
+    /** Required by gateways declared with `auth` */
+    jwtService?: JwtService;
+    userRoleService?: UserRoleService;
+    authErrorHandler?: AuthenticationErrorHandler;
+    /** Validates @OnMessage data declared with a schema */
+    validationService?: ValidationService;
+}
+
+type GatewayInstance = Record<string, (...args: any[]) => unknown>;
+
+/**
+ * Gateway Manager
+ *
+ * Clients send `{ "event": "chat:send", "data": { ... } }`. The envelope is
+ * routed to the matching @OnMessage method, its data validated first when the
+ * handler declares a schema. Failures are answered with an `error` event
+ * instead of closing the connection.
+ */
+export class GatewayManager {
+    private validationService: ValidationService;
+    private closedSockets = new WeakSet<object>();
+
+    constructor(
+        private wrapper: UWebSocketWrapper,
+        private logger: Logger,
+        private errorHandler: ErrorHandler,
+        private options: GatewayManagerOptions = {}
+    ) {
+        this.validationService = options.validationService || new ValidationService();
+    }
+
+    /**
+     * Serve a gateway class on its @WebSocketGateway path
+     */
+    registerGateway(GatewayClass: any, gatewayInstance?: any): void {
+        const metadata = MetadataUtils.getGatewayMetadata(GatewayClass);
+        if (!metadata) {
+            throw new Error(`${GatewayClass.name} is not decorated with @WebSocketGateway`);
+        }
+
+        const instance: GatewayInstance = gatewayInstance || new GatewayClass();
+        const handlers = MetadataUtils.getWebSocketHandlers(GatewayClass);
+        const authMiddleware = this.createAuthMiddleware(metadata.options, GatewayClass.name);
+
+        this.wrapper.addWebSocketHandler<GatewayUserData>(metadata.path, {
+            onOpen: (ws) => this.invokeLifecycle(instance, handlers, 'open', [ws]),
+            onMessage: (ws, message, flags) => {
+                void this.handleMessage(instance, handlers, ws, message, flags.binary);
+            },
+            onDrain: (ws) => this.invokeLifecycle(instance, handlers, 'drain', [ws]),
+            onClose: (ws, code, reason) => {
+                this.closedSockets.add(ws);
+                this.invokeLifecycle(instance, handlers, 'close', [ws, code, reason]);
+            }
+        }, {
+            upgrade: (res: uWS.HttpResponse, req: uWS.HttpRequest, context: uWS.us_socket_context_t) =>
+                this.handleUpgrade(res, req, context, authMiddleware)
+        });
+
+        this.logger.info(`🔌 Registered WebSocket gateway ${GatewayClass.name} at ${metadata.path}`);
+    }
+
+    /**
+     * Send an envelope through the wrapper's managed send
+     * @returns false when the connection is closed or the message was dropped under backpressure
+     */
+    send<T>(ws: uWS.WebSocket<any>, envelope: WebSocketEnvelope<T>): boolean {
+        if (this.closedSockets.has(ws)) {
+            return false;
+        }
+        return this.wrapper.sendWebSocket(ws, JSON.stringify(envelope)) !== 'dropped';
+    }
+
+    // ============================================================================
+    // UPGRADE
+    // ============================================================================
+
+    private createAuthMiddleware(options: WebSocketGatewayOptions, gatewayName: string): AuthenticationMiddleware | undefined {
+        if (!options.auth) {
+            return undefined;
+        }
+
+        const { jwtService, userRoleService, authErrorHandler } = this.options;
+        if (!jwtService || !userRoleService || !authErrorHandler) {
+            throw new Error(`Gateway ${gatewayName} requires authentication but no JwtService is configured`);
+        }
+
+        const authOptions = options.auth === true ? {} : options.auth;
+        return new AuthenticationMiddleware(jwtService, userRoleService, authErrorHandler, {
+            requireAuth: true,
+            roles: authOptions.roles
+        });
+    }
+
+    /**
+     * Authenticate (when required) before completing the upgrade
+     * A rejected upgrade is answered with the middleware's 401 / 403 response.
+     */
+    private handleUpgrade(
+        res: uWS.HttpResponse,
+        req: uWS.HttpRequest,
+        socketContext: uWS.us_socket_context_t,
+        authMiddleware?: AuthenticationMiddleware
+    ): void {
+        // The request is only valid synchronously - copy everything the upgrade needs
+        const key = req.getHeader('sec-websocket-key');
+        const protocol = req.getHeader('sec-websocket-protocol');
+        const extensions = req.getHeader('sec-websocket-extensions');
+        const url = req.getUrl();
+        const query = HttpHandlerUtils.extractQueryParams(req);
+        const headers = HttpHandlerUtils.extractHeaders(req);
+
+        const upgrade = (user?: User) => {
+            const userData: GatewayUserData = {
+                connectionId: HttpHandlerUtils.generateRequestId(),
+                user,
+                url,
+                query,
+                headers
+            };
+            res.cork(() => res.upgrade(userData, key, protocol, extensions, socketContext));
+        };
+
+        if (!authMiddleware) {
+            upgrade();
+            return;
+        }
+
+        const recorder = new ResponseRecorder(res);
+        const context = new MiddlewareContextImpl(req, recorder, this.logger);
+        context.method = 'GET';
+        context.url = url;
+        context.query = query;
+        // Browsers cannot set headers on WebSocket requests, so ?access_token= is accepted too
+        context.headers = !headers['authorization'] && query['access_token']
+            ? { ...headers, authorization: `Bearer ${query['access_token']}` }
+            : headers;
+
+        authMiddleware.execute(context, async () => undefined)
+            .then(() => {
+                if (!recorder.isAborted()) {
+                    upgrade(context.user);
+                }
+            })
+            .catch(() => {
+                // The middleware recorded the error response
+                recorder.flush();
+            });
+    }
+
+    // ============================================================================
+    // MESSAGES
+    // ============================================================================
+
+    private async handleMessage(
+        instance: GatewayInstance,
+        handlers: WebSocketHandlerMetadata[],
+        ws: uWS.WebSocket<GatewayUserData>,
+        message: string | Buffer,
+        binary: boolean
+    ): Promise<void> {
+        const envelope = binary ? undefined : parseEnvelope(message.toString());
+        if (!envelope) {
+            this.sendError(ws, undefined, 'Invalid message, expected {"event": string, "data"?: any}');
+            return;
+        }
+
+        const messageHandlers = handlers.filter(handler => handler.kind === 'message');
+        const handler = messageHandlers.find(candidate => candidate.event === envelope.event)
+            || messageHandlers.find(candidate => candidate.event === undefined);
+
+        if (!handler) {
+            this.sendError(ws, envelope.event, `Unknown event '${envelope.event}'`);
+            return;
+        }
+
+        try {
+            let data = envelope.data;
+
+            if (handler.schema) {
+                const result = await this.validationService.validate(data ?? {}, handler.schema);
+                if (!result.valid) {
+                    this.sendError(ws, envelope.event, 'Validation failed', result.errors);
+                    return;
+                }
+                data = result.data;
+            }
+
+            const reply = await instance[handler.handler](ws, data, envelope);
+            if (reply !== undefined) {
+                this.send(ws, { event: envelope.event, data: reply });
+            }
+        } catch (error) {
+            const { response } = this.errorHandler.handleError(error as Error, 'WebSocket Message');
+            this.send(ws, { event: 'error', data: { event: envelope.event, ...response } });
+        }
+    }
+
+    private invokeLifecycle(
+        instance: GatewayInstance,
+        handlers: WebSocketHandlerMetadata[],
+        kind: 'open' | 'close' | 'drain',
+        args: unknown[]
+    ): void {
+        for (const handler of handlers.filter(candidate => candidate.kind === kind)) {
+            // Rejections of async hooks would otherwise go unnoticed
+            Promise.resolve()
+                .then(() => instance[handler.handler](...args))
+                .catch(error => this.errorHandler.handleError(error as Error, `WebSocket ${kind[0].toUpperCase()}${kind.slice(1)}`));
+        }
+    }
+
+    private sendError(ws: uWS.WebSocket<any>, event: string | undefined, message: string, errors?: unknown[]): void {
+        this.send(ws, { event: 'error', data: { event, message, errors } });
+    }
+}
+
+function parseEnvelope(text: string): WebSocketEnvelope | undefined {
+    try {
+        const parsed = JSON.parse(text);
+        return parsed && typeof parsed === 'object' && typeof parsed.event === 'string' ? parsed : undefined;
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,279 @@
+/**
+ * PubSubService - Topic publish / subscribe over uWS WebSockets
+ * Single responsibility: Guarded per-connection subscriptions and server-side publishing
+ */
+
+import * as uWS from 'uWebSockets.js';
+import { UWebSocketWrapper } from '../ServerWrapper';
+import { Logger } from '../../utils/logger';
+import type { MetricsService } from '../metrics/MetricsService';
+
+export interface TopicGuardContext {
+    topic: string;
+    ws: uWS.WebSocket<any>;
+    /** Authenticated user of the connection (set at upgrade by gateways declared with `auth`) */
+    user?: any;
+}
+
+export interface TopicGuard {
+    /**
+     * Check if the connection may subscribe to the topic
+     * @returns true if allowed, false if denied
+     */
+    canActivate(context: TopicGuardContext): boolean | Promise<boolean>;
+}
+
+export interface PublishOptions {
+    /** Send as a binary frame (default: false) */
+    binary?: boolean;
+    /** Compress with the route's compression settings (default: false) */
+    compress?: boolean;
+}
+
+/**
+ * PubSub Service
+ *
+ * Topics are uWS native topics, so a publish reaches subscribers of every
+ * WebSocket route. Subscriptions end with the connection; uWS drops them itself.
+ *
+ * Protected topics are declared with `protect(pattern, guardNames)`, where
+ * patterns are '/'-separated with `+` matching one level and `#` the rest,
+ * e.g. `protect('admin/#', ['admin'])`. A guard name that is not registered
+ * when a matching topic is subscribed to denies the subscription.
+ */
+export class PubSubService {
+    private globalGuards: TopicGuard[] = [];
+    private namedGuards = new Map<string, TopicGuard>();
+    private rules: Array<{ pattern: string; guardNames: string[] }> = [];
+    private knownTopics = new Set<string>();
+    private published = 0;
+
+    constructor(
+        private wrapper: UWebSocketWrapper,
+        private logger: Logger,
+        metricsService?: MetricsService
+    ) {
+        this.registerGuard('authenticated', { canActivate: ({ user }) => !!user });
+        this.registerGuard('admin', {
+            canActivate: ({ user }) => user?.roles?.includes('admin') || user?.role === 'admin'
+        });
+
+        if (metricsService) {
+            this.registerMetrics(metricsService);
+        }
+    }
+
+    // ============================================================================
+    // GUARDS
+    // ============================================================================
+
+    /**
+     * Add a guard that applies to every subscription
+     */
+    addGlobalGuard(guard: TopicGuard): void {
+        this.globalGuards.push(guard);
+    }
+
+    /**
+     * Register a named guard
+     */
+    registerGuard(name: string, guard: TopicGuard): void {
+        this.namedGuards.set(name, guard);
+    }
+
+    /**
+     * Require the named guards for subscriptions to topics matching the pattern
+     */
+    protect(pattern: string, guardNames: string[]): void {
+        this.rules.push({ pattern, guardNames });
+    }
+
+    // ============================================================================
+    // SUBSCRIPTIONS
+    // ============================================================================
+
+    /**
+     * Subscribe a connection to a topic once the topic's guards allow it
+     * @returns false when denied or the connection closed in the meantime
+     */
+    async subscribe(ws: uWS.WebSocket<any>, topic: string): Promise<boolean> {
+        const context: TopicGuardContext = { topic, ws, user: this.getUser(ws) };
+
+        if (!await this.executeGuards(context)) {
+            this.logger.debug(`Subscription to '${topic}' denied`);
+            return false;
+        }
+
+        try {
+            ws.subscribe(topic);
+        } catch {
+            // The connection closed while guards were running
+            return false;
+        }
+
+        this.knownTopics.add(topic);
+        return true;
+    }
+
+    /**
+     * Unsubscribe a connection from a topic
+     * @returns false when the connection was not subscribed or is closed
+     */
+    unsubscribe(ws: uWS.WebSocket<any>, topic: string): boolean {
+        try {
+            return ws.unsubscribe(topic);
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Topics a connection is subscribed to
+     */
+    getTopics(ws: uWS.WebSocket<any>): string[] {
+        try {
+            return ws.getTopics();
+        } catch {
+            return [];
+        }
+    }
+
+    // ============================================================================
+    // PUBLISHING
+    // ============================================================================
+
+    /**
+     * Send a message to every subscriber of the topic
+     * Strings and binary data are sent as is, anything else as JSON.
+     * @example pubSub.publish(`orders/${order.id}`, { event: 'order:updated', data: order })
+     */
+    publish(topic: string, message: unknown, options: PublishOptions = {}): boolean {
+        const payload = typeof message === 'string' || message instanceof ArrayBuffer || ArrayBuffer.isView(message)
+            ? message as uWS.RecognizedString
+            : JSON.stringify(message);
+
+        const published = this.wrapper.publish(topic, payload, options.binary ?? false, options.compress ?? false);
+        if (published) {
+            this.published++;
+        }
+        return published;
+    }
+
+    /**
+     * Number of connections subscribed to the topic
+     */
+    getSubscriberCount(topic: string): number {
+        return this.wrapper.getSubscriberCount(topic);
+    }
+
+    /**
+     * Subscriber counts of topics subscribed through this service
+     */
+    getStats(): { published: number; topics: Record<string, number> } {
+        const topics: Record<string, number> = {};
+        for (const topic of this.knownTopics) {
+            const count = this.getSubscriberCount(topic);
+            if (count > 0) {
+                topics[topic] = count;
+            } else {
+                this.knownTopics.delete(topic);
+            }
+        }
+        return { published: this.published, topics };
+    }
+
+    // ============================================================================
+    // PRIVATE
+    // ============================================================================
+
+    private async executeGuards(context: TopicGuardContext): Promise<boolean> {
+        const guards = [...this.globalGuards];
+
+        for (const rule of this.rules) {
+            if (!matchesTopic(rule.pattern, context.topic)) {
+                continue;
+            }
+            for (const guardName of rule.guardNames) {
+                const guard = this.namedGuards.get(guardName);
+                if (!guard) {
+                    // A typo must not open a protected topic to everyone
+                    this.logger.error(`Topic guard '${guardName}' not found, denying '${context.topic}'`);
+                    return false;
+                }
+                guards.push(guard);
+            }
+        }
+
+        for (const guard of guards) {
+            try {
+                if (!await guard.canActivate(context)) {
+                    return false;
+                }
+            } catch (error) {
+                this.logger.error('Topic guard execution failed:', error);
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    private getUser(ws: uWS.WebSocket<any>): any {
+        try {
+            return ws.getUserData()?.user;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Subscriber gauge labelled by the topic's first level (`orders/42` -> `orders`)
+     * Full topics often carry ids, which would create one series per id.
+     */
+    private registerMetrics(metricsService: MetricsService): void {
+        const subscribers = metricsService.createGauge({
+            name: 'websocket_topic_subscribers',
+            help: 'WebSocket subscriptions per topic root (first topic level)',
+            labelNames: ['topic_root']
+        });
+        const published = metricsService.createCounter({
+            name: 'websocket_messages_published_total',
+            help: 'Messages published to WebSocket topics'
+        });
+
+        metricsService.registerCollector(() => {
+            const stats = this.getStats();
+            const roots = new Map<string, number>();
+            for (const [topic, count] of Object.entries(stats.topics)) {
+                const root = topic.split('/')[0];
+                roots.set(root, (roots.get(root) || 0) + count);
+            }
+
+            subscribers.reset();
+            for (const [root, count] of roots) {
+                subscribers.set({ topic_root: root }, count);
+            }
+            published.reset();
+            published.inc(undefined, stats.published);
+        });
+    }
+}
+
+/**
+ * MQTT-style topic matching - `+` matches one level, a trailing `#` any remaining levels
+ */
+function matchesTopic(pattern: string, topic: string): boolean {
+    const patternLevels = pattern.split('/');
+    const topicLevels = topic.split('/');
+
+    for (let i = 0; i < patternLevels.length; i++) {
+        if (patternLevels[i] === '#') {
+            return true;
+        }
+        if (i >= topicLevels.length || (patternLevels[i] !== '+' && patternLevels[i] !== topicLevels[i])) {
+            return false;
+        }
+    }
+
+    return patternLevels.length === topicLevels.length;
+}
@@ -0,0 +1,91 @@
+/**
+ * DatabaseProvider - Contract shared by every database driver
+ * Single responsibility: Define how the framework talks to a database
+ */
+
+import type { OnShutdown } from '../../core/lifecycle/LifecycleHooks';
+
+export type DatabaseType = 'sqlite' | 'mysql' | 'postgresql';
+
+/** Positional parameters bound to `?` placeholders */
+export type QueryParams = unknown[];
+
+/** A raw result row */
+export type DatabaseRow = Record<string, unknown>;
+
+/**
+ * Result of a statement that does not return rows
+ */
+export interface ExecuteResult {
+    /** Number of rows inserted, updated or deleted */
+    changes: number;
+    /** Id generated by the last INSERT, when the driver reports one */
+    lastInsertId?: number | string;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Database Provider - driver abstraction used by repositories
+ *
+ * Declared as an abstract class (like Middleware) so constructor parameters
+ * typed `DatabaseProvider` keep their runtime type for the container.
+ */
+export abstract class DatabaseProvider implements OnShutdown {
+    /** Database engine behind this provider */
+    abstract readonly type: DatabaseType;
+
+    /**
+     * Open the connection (providers also connect lazily on first use)
+     */
+    abstract connect(): Promise<void>;
+
+    /**
+     * Run a statement returning rows
+     */
+    abstract query<T = DatabaseRow>(sql: string, params?: QueryParams): Promise<T[]>;
+
+    /**
+     * Run a statement that does not return rows (INSERT, UPDATE, DELETE, DDL)
+     */
+    abstract execute(sql: string, params?: QueryParams): Promise<ExecuteResult>;
+
+    /**
+     * Run several semicolon-separated statements without parameters (migrations, schema files)
+     */
+    abstract executeScript(sql: string): Promise<void>;
+
+    /**
+     * Run work atomically - committed when it resolves, rolled back when it throws
+     * Use the provider passed to the callback for every statement of the transaction
+     */
+    abstract transaction<T>(work: (provider: DatabaseProvider) => Promise<T>): Promise<T>;
+
+    /**
+     * Close the connection
+     */
+    abstract close(): Promise<void>;
+
+    /**
+     * Check if the connection is open
+     */
+    abstract isConnected(): boolean;
+
+    /**
+     * Lifecycle hook - close the connection on graceful shutdown
+     */
+    async onShutdown(): Promise<void> {
+        await this.close();
+    }
+
+    /**
+     * Quote a table or column name
+     * Only plain identifiers are accepted since names are interpolated into SQL
+     */
+    quoteIdentifier(identifier: string): string {
+        if (!IDENTIFIER_PATTERN.test(identifier)) {
+            throw new Error(`Invalid SQL identifier: '${identifier}'`);
+        }
+        return `"${identifier}"`;
+    }
+}
@@ -0,0 +1,130 @@
+/**
+ * MigrationCli - Command line entry point for schema migrations
+ * Single responsibility: Parse arguments and drive MigrationRunner
+ *
+ * Usage:
+ *   migrate up [version]      Apply pending migrations (up to version)
+ *   migrate down [steps]      Revert the last migration(s), 1 by default
+ *   migrate status            List migrations and whether they are applied
+ *   migrate create <name>     Create an empty SQL migration
+ *
+ * Options:
+ *   --dir <path>              Migrations folder (DB_MIGRATIONS_DIR, or auto-detected)
+ *   --db <file>               SQLite database file (DB_FILE)
+ */
+
+import 'dotenv/config';
+import { DatabaseConfig } from '../../core/container/ApplicationConfig';
+import { FileDiscoveryUtils } from '../../core/bootstrap/FileDiscoveryUtils';
+import { Logger } from '../../utils/logger';
+import { createDatabaseProvider } from '../providers/DatabaseProviderFactory';
+import { DatabaseProvider } from '../interfaces/DatabaseProvider';
+import { MigrationRunner } from './MigrationRunner';
+
+const USAGE = 'Usage: migrate <up [version] | down [steps] | status | create <name>> [--dir <path>] [--db <file>]';
+
+interface CliArguments {
+    command?: string;
+    args: string[];
+    dir?: string;
+    db?: string;
+}
+
+function parseArguments(argv: string[]): CliArguments {
+    const parsed: CliArguments = { args: [] };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--dir' || arg === '--db') {
+            parsed[arg === '--dir' ? 'dir' : 'db'] = argv[++i];
+        } else if (!parsed.command) {
+            parsed.command = arg;
+        } else {
+            parsed.args.push(arg);
+        }
+    }
+
+    return parsed;
+}
+
+/**
+ * Run the CLI
+ * @returns process exit code
+ */
+export async function runMigrationCli(argv: string[] = process.argv.slice(2)): Promise<number> {
+    const { command, args, dir, db } = parseArguments(argv);
+    const logger = new Logger();
+
+    const config: DatabaseConfig = {
+        type: 'sqlite',
+        sqlite: { file: db || process.env.DB_FILE || '' },
+        migrations: {
+            directory: dir || process.env.DB_MIGRATIONS_DIR
+        }
+    };
+
+    // create only touches the filesystem
+    if (command === 'create') {
+        if (!args[0]) {
+            console.error(USAGE);
+            return 1;
+        }
+        const directory = config.migrations?.directory || FileDiscoveryUtils.detectMigrationsPath() || 'migrations';
+        const file = MigrationRunner.create(directory, args.join(' '));
+        console.log(`Created ${file}`);
+        return 0;
+    }
+
+    if (command !== 'up' && command !== 'down' && command !== 'status') {
+        console.error(USAGE);
+        return 1;
+    }
+
+    let provider: DatabaseProvider | undefined;
+    try {
+        // A missing DB_FILE or driver is reported like any other failure
+        provider = createDatabaseProvider(config, logger);
+        const runner = MigrationRunner.fromConfig(provider, config, logger);
+
+        switch (command) {
+            case 'up': {
+                const applied = await runner.up(args[0]);
+                console.log(applied.length > 0 ? `Applied: ${applied.join(', ')}` : 'Nothing to migrate');
+                break;
+            }
+            case 'down': {
+                const steps = args[0] ? parseInt(args[0], 10) : 1;
+                if (!Number.isInteger(steps) || steps < 1) {
+                    console.error(`Invalid number of steps: '${args[0]}'`);
+                    return 1;
+                }
+                const reverted = await runner.down(steps);
+                console.log(reverted.length > 0 ? `Reverted: ${reverted.join(', ')}` : 'Nothing to revert');
+                break;
+            }
+            case 'status': {
+                for (const migration of await runner.status()) {
+                    const state = migration.missing ? 'missing' : migration.applied ? 'applied' : 'pending';
+                    console.log(`${state.padEnd(8)} ${migration.version}_${migration.name}${migration.appliedAt ? `  (${migration.appliedAt})` : ''}`);
+                }
+                break;
+            }
+        }
+
+        return 0;
+    } catch (error) {
+        console.error(`Migration failed: ${error instanceof Error ? error.message : String(error)}`);
+        return 1;
+    } finally {
+        await provider?.close();
+    }
+}
+
+if (require.main === module) {
+    runMigrationCli()
+        .then(code => process.exit(code))
+        .catch(error => {
+            console.error(`Migration failed: ${error instanceof Error ? error.message : String(error)}`);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,304 @@
+/**
+ * MigrationRunner - Versioned schema migrations
+ * Single responsibility: Apply and revert migration files, tracking applied versions
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DatabaseProvider } from '../interfaces/DatabaseProvider';
+import { DatabaseConfig } from '../../core/container/ApplicationConfig';
+import { FileDiscoveryUtils } from '../../core/bootstrap/FileDiscoveryUtils';
+import { AppError, ErrorCode, ErrorSeverity, ErrorCategory } from '../../utils/errorHandler';
+import { Logger } from '../../utils/logger';
+
+export interface MigrationRunnerOptions {
+    /** Folder holding migration files */
+    directory: string;
+    /** Table recording applied versions (defaults to 'schema_migrations') */
+    tableName?: string;
+}
+
+/**
+ * A migration file
+ *
+ * Files are named `<version>_<name>.sql|.js|.ts`. SQL files hold both directions
+ * separated by `-- migrate:up` / `-- migrate:down` markers; modules export
+ * `up(provider)` and optionally `down(provider)`.
+ */
+export interface Migration {
+    version: string;
+    name: string;
+    file: string;
+    up(provider: DatabaseProvider): Promise<void>;
+    down?(provider: DatabaseProvider): Promise<void>;
+}
+
+export interface MigrationStatus {
+    version: string;
+    name: string;
+    applied: boolean;
+    appliedAt?: string;
+    /** Applied in the database but no longer present on disk */
+    missing?: boolean;
+}
+
+interface AppliedMigration {
+    version: string;
+    name: string;
+    applied_at: string;
+}
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_([A-Za-z0-9_-]+)\.(sql|js|ts)$/;
+const SQL_SECTION_PATTERN = /^--\s*migrate:(up|down)\s*$/im;
+
+/**
+ * Migration Runner
+ *
+ * Every migration runs in its own transaction together with the bookkeeping
+ * row, so a failing migration leaves neither schema changes nor a version behind.
+ */
+export class MigrationRunner {
+    private provider: DatabaseProvider;
+    private options: Required<MigrationRunnerOptions>;
+    private logger?: Logger;
+
+    constructor(provider: DatabaseProvider, options: MigrationRunnerOptions, logger?: Logger) {
+        this.provider = provider;
+        this.options = {
+            tableName: 'schema_migrations',
+            ...options
+        };
+        this.logger = logger;
+    }
+
+    /**
+     * Create a runner from the application's database configuration
+     * The folder comes from database.migrations.directory, or is auto-detected
+     */
+    static fromConfig(provider: DatabaseProvider, config: DatabaseConfig, logger?: Logger): MigrationRunner {
+        const directory = config.migrations?.directory || FileDiscoveryUtils.detectMigrationsPath();
+
+        if (!directory) {
+            throw new AppError(
+                'No migrations folder found - set database.migrations.directory',
+                ErrorCode.CONFIGURATION_ERROR,
+                500,
+                { configKey: 'database.migrations.directory' },
+                ErrorSeverity.CRITICAL,
+                ErrorCategory.SYSTEM
+            );
+        }
+
+        return new MigrationRunner(provider, {
+            directory,
+            tableName: config.migrations?.tableName
+        }, logger);
+    }
+
+    // ============================================================================
+    // COMMANDS
+    // ============================================================================
+
+    /**
+     * Apply pending migrations, up to and including targetVersion when given
+     * @returns applied versions
+     */
+    async up(targetVersion?: string): Promise<string[]> {
+        await this.ensureMigrationsTable();
+
+        const applied = new Set((await this.getApplied()).map(row => row.version));
+        const pending = this.loadMigrations().filter(migration =>
+            !applied.has(migration.version) &&
+            (targetVersion === undefined || compareVersions(migration.version, targetVersion) <= 0)
+        );
+
+        if (pending.length === 0) {
+            this.logger?.info('🗄️ Database schema is up to date');
+            return [];
+        }
+
+        for (const migration of pending) {
+            this.logger?.info(`⬆️ Applying migration ${migration.version}_${migration.name}`);
+
+            await this.provider.transaction(async provider => {
+                await migration.up(provider);
+                await provider.execute(
+                    `INSERT INTO ${this.table()} (version, name, applied_at) VALUES (?, ?, ?)`,
+                    [migration.version, migration.name, new Date()]
+                );
+            });
+        }
+
+        this.logger?.info(`✅ Applied ${pending.length} migration(s)`);
+        return pending.map(migration => migration.version);
+    }
+
+    /**
+     * Revert the most recently applied migrations
+     * @returns reverted versions
+     */
+    async down(steps: number = 1): Promise<string[]> {
+        await this.ensureMigrationsTable();
+
+        const migrations = new Map(this.loadMigrations().map(migration => [migration.version, migration]));
+        const toRevert = (await this.getApplied()).reverse().slice(0, Math.max(0, steps));
+
+        for (const row of toRevert) {
+            const migration = migrations.get(row.version);
+            if (!migration) {
+                throw new Error(`Cannot revert migration ${row.version}_${row.name}: file not found in ${this.options.directory}`);
+            }
+            if (!migration.down) {
+                throw new Error(`Cannot revert migration ${row.version}_${row.name}: it has no down section`);
+            }
+
+            this.logger?.info(`⬇️ Reverting migration ${migration.version}_${migration.name}`);
+
+            await this.provider.transaction(async provider => {
+                await migration.down!(provider);
+                await provider.execute(`DELETE FROM ${this.table()} WHERE version = ?`, [migration.version]);
+            });
+        }
+
+        return toRevert.map(row => row.version);
+    }
+
+    /**
+     * List every known migration with its state
+     */
+    async status(): Promise<MigrationStatus[]> {
+        await this.ensureMigrationsTable();
+
+        const applied = new Map((await this.getApplied()).map(row => [row.version, row]));
+        const statuses: MigrationStatus[] = this.loadMigrations().map(migration => ({
+            version: migration.version,
+            name: migration.name,
+            applied: applied.has(migration.version),
+            appliedAt: applied.get(migration.version)?.applied_at
+        }));
+
+        const known = new Set(statuses.map(status => status.version));
+        for (const row of applied.values()) {
+            if (!known.has(row.version)) {
+                statuses.push({ version: row.version, name: row.name, applied: true, appliedAt: row.applied_at, missing: true });
+            }
+        }
+
+        return statuses.sort((a, b) => compareVersions(a.version, b.version));
+    }
+
+    /**
+     * Create an empty SQL migration stamped with the current time
+     * @returns path of the new file
+     */
+    static create(directory: string, name: string): string {
+        const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+        if (!slug) {
+            throw new Error(`Invalid migration name: '${name}'`);
+        }
+
+        const version = new Date().toISOString().replace(/\D/g, '').slice(0, 14);
+        const file = path.join(directory, `${version}_${slug}.sql`);
+
+        fs.mkdirSync(directory, { recursive: true });
+        fs.writeFileSync(file, '-- migrate:up\n\n\n-- migrate:down\n\n', { flag: 'wx' });
+
+        return file;
+    }
+
+    // ============================================================================
+    // INTERNALS
+    // ============================================================================
+
+    /**
+     * Read migration files sorted by version
+     */
+    loadMigrations(): Migration[] {
+        if (!fs.existsSync(this.options.directory)) {
+            return [];
+        }
+
+        const migrations: Migration[] = [];
+        const seen = new Map<string, string>();
+
+        for (const entry of fs.readdirSync(this.options.directory)) {
+            const match = MIGRATION_FILE_PATTERN.exec(entry);
+            if (!match || entry.endsWith('.d.ts')) continue;
+
+            const [, version, name, extension] = match;
+            if (seen.has(version)) {
+                throw new Error(`Duplicate migration version ${version}: ${seen.get(version)} and ${entry}`);
+            }
+            seen.set(version, entry);
+
+            const file = path.join(this.options.directory, entry);
+            migrations.push(extension === 'sql'
+                ? this.loadSqlMigration(version, name, file)
+                : this.loadModuleMigration(version, name, file));
+        }
+
+        return migrations.sort((a, b) => compareVersions(a.version, b.version));
+    }
+
+    private loadSqlMigration(version: string, name: string, file: string): Migration {
+        const sections: Record<string, string> = {};
+        const parts = fs.readFileSync(file, 'utf-8').split(SQL_SECTION_PATTERN);
+
+        if (parts.length === 1) {
+            // No markers - the whole file is the up direction
+            sections.up = parts[0];
+        } else {
+            for (let i = 1; i < parts.length; i += 2) {
+                sections[parts[i].toLowerCase()] = parts[i + 1];
+            }
+        }
+
+        const down = sections.down?.trim();
+        return {
+            version,
+            name,
+            file,
+            up: provider => provider.executeScript(sections.up || ''),
+            down: down ? provider => provider.executeScript(down) : undefined
+        };
+    }
+
+    private loadModuleMigration(version: string, name: string, file: string): Migration {
+        const module = require(file);
+        const up = module.up || module.default?.up;
+        const down = module.down || module.default?.down;
+
+        if (typeof up !== 'function') {
+            throw new Error(`Migration ${file} must export an up(provider) function`);
+        }
+
+        return { version, name, file, up, down: typeof down === 'function' ? down : undefined };
+    }
+
+    private async ensureMigrationsTable(): Promise<void> {
+        await this.provider.execute(
+            `CREATE TABLE IF NOT EXISTS ${this.table()} (` +
+            'version VARCHAR(32) PRIMARY KEY, ' +
+            'name VARCHAR(255) NOT NULL, ' +
+            'applied_at VARCHAR(32) NOT NULL)'
+        );
+    }
+
+    private async getApplied(): Promise<AppliedMigration[]> {
+        const rows = await this.provider.query<AppliedMigration>(
+            `SELECT version, name, applied_at FROM ${this.table()}`
+        );
+        return rows.sort((a, b) => compareVersions(a.version, b.version));
+    }
+
+    private table(): string {
+        return this.provider.quoteIdentifier(this.options.tableName);
+    }
+}
+
+/**
+ * Numeric ordering so that '10' sorts after '9'
+ */
+function compareVersions(a: string, b: string): number {
+    return a.localeCompare(b, undefined, { numeric: true });
+}
@@ -0,0 +1,40 @@
+/**
+ * DatabaseProviderFactory - Creates the provider matching the configuration
+ * Single responsibility: Driver selection
+ */
+
+import { DatabaseConfig } from '../../core/container/ApplicationConfig';
+import { AppError, ErrorCode, ErrorSeverity, ErrorCategory } from '../../utils/errorHandler';
+import { Logger } from '../../utils/logger';
+import { DatabaseProvider } from '../interfaces/DatabaseProvider';
+import { SQLiteProvider } from './SQLiteProvider';
+
+/**
+ * Create a database provider from configuration
+ */
+export function createDatabaseProvider(config: DatabaseConfig, logger?: Logger): DatabaseProvider {
+    switch (config.type) {
+        case 'sqlite':
+            if (!config.sqlite?.file) {
+                throw configurationError('SQLite provider requires database.sqlite.file');
+            }
+            return new SQLiteProvider({
+                file: config.sqlite.file,
+                walMode: config.sqlite.walMode
+            }, logger);
+
+        default:
+            throw configurationError(`Database type '${config.type}' is not supported yet`);
+    }
+}
+
+function configurationError(message: string): AppError {
+    return new AppError(
+        message,
+        ErrorCode.CONFIGURATION_ERROR,
+        500,
+        { configKey: 'database' },
+        ErrorSeverity.CRITICAL,
+        ErrorCategory.SYSTEM
+    );
+}
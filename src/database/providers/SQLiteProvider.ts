@@ -0,0 +1,287 @@
+/**
+ * SQLiteProvider - SQLite driver backed by a local file
+ * Single responsibility: Execute SQL against a SQLite database
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import { DatabaseProvider, DatabaseRow, ExecuteResult, QueryParams } from '../interfaces/DatabaseProvider';
+import { AppError, ErrorCode, ErrorSeverity, ErrorCategory } from '../../utils/errorHandler';
+import { Logger } from '../../utils/logger';
+
+export interface SQLiteProviderOptions {
+    /** Database file path, or ':memory:' */
+    file: string;
+    /** Enable write-ahead logging (better concurrency for file databases) */
+    walMode?: boolean;
+    /** Enforce foreign key constraints */
+    foreignKeys?: boolean;
+    /** How long to wait for a locked database, in milliseconds */
+    busyTimeoutMs?: number;
+}
+
+/**
+ * SQLite Provider - uses better-sqlite3 (synchronous, single connection)
+ *
+ * Transactions are serialized: a second transaction waits until the first one
+ * has committed or rolled back. Statements issued outside a transaction wait
+ * too - on the single connection they would otherwise join the open transaction
+ * and be lost with its rollback. Inside a transaction, use the provider passed
+ * to the callback: statements on this provider would wait for it to finish.
+ */
+export class SQLiteProvider extends DatabaseProvider {
+    readonly type = 'sqlite' as const;
+
+    private db?: BetterSqlite3.Database;
+    private options: SQLiteProviderOptions;
+    private logger?: Logger;
+    private lock: Promise<void> = Promise.resolve();
+    private savepointCount = 0;
+
+    constructor(options: SQLiteProviderOptions, logger?: Logger) {
+        super();
+        this.options = {
+            walMode: true,
+            foreignKeys: true,
+            busyTimeoutMs: 5000,
+            ...options
+        };
+        this.logger = logger;
+    }
+
+    async connect(): Promise<void> {
+        this.getDatabase();
+    }
+
+    async query<T = DatabaseRow>(sql: string, params: QueryParams = []): Promise<T[]> {
+        return this.exclusive(async () => this.runQuery<T>(sql, params));
+    }
+
+    async execute(sql: string, params: QueryParams = []): Promise<ExecuteResult> {
+        return this.exclusive(async () => this.runExecute(sql, params));
+    }
+
+    async executeScript(sql: string): Promise<void> {
+        return this.exclusive(async () => this.runScript(sql));
+    }
+
+    async transaction<T>(work: (provider: DatabaseProvider) => Promise<T>): Promise<T> {
+        return this.exclusive(() => this.runInTransaction(work, 0));
+    }
+
+    async close(): Promise<void> {
+        if (this.db) {
+            this.db.close();
+            this.db = undefined;
+            this.logger?.info('🗄️ SQLite connection closed');
+        }
+    }
+
+    isConnected(): boolean {
+        return !!this.db?.open;
+    }
+
+    // ============================================================================
+    // INTERNALS
+    // ============================================================================
+
+    /**
+     * Run work once every statement and transaction queued before it is done
+     */
+    private async exclusive<T>(work: () => Promise<T>): Promise<T> {
+        const previous = this.lock;
+        let release!: () => void;
+        this.lock = new Promise<void>(resolve => { release = resolve; });
+
+        await previous;
+
+        try {
+            return await work();
+        } finally {
+            release();
+        }
+    }
+
+    /**
+     * Run work in a transaction (depth 0) or a savepoint (nested)
+     */
+    private async runInTransaction<T>(work: (provider: DatabaseProvider) => Promise<T>, depth: number): Promise<T> {
+        const savepoint = `sp_${++this.savepointCount}`;
+        const db = this.getDatabase();
+
+        db.exec(depth === 0 ? 'BEGIN' : `SAVEPOINT ${savepoint}`);
+
+        try {
+            const result = await work(new SQLiteTransaction(this, depth + 1));
+            db.exec(depth === 0 ? 'COMMIT' : `RELEASE ${savepoint}`);
+            return result;
+        } catch (error) {
+            if (db.inTransaction) {
+                db.exec(depth === 0 ? 'ROLLBACK' : `ROLLBACK TO ${savepoint}; RELEASE ${savepoint}`);
+            }
+            throw error;
+        }
+    }
+
+    /** @internal Used by SQLiteTransaction */
+    runQuery<T>(sql: string, params: QueryParams): T[] {
+        try {
+            return this.getDatabase().prepare(sql).all(...this.normalizeParams(params)) as T[];
+        } catch (error) {
+            throw this.toDatabaseError(error, 'query', sql);
+        }
+    }
+
+    /** @internal Used by SQLiteTransaction */
+    runExecute(sql: string, params: QueryParams): ExecuteResult {
+        try {
+            const result = this.getDatabase().prepare(sql).run(...this.normalizeParams(params));
+            return {
+                changes: result.changes,
+                lastInsertId: typeof result.lastInsertRowid === 'bigint'
+                    ? result.lastInsertRowid.toString()
+                    : result.lastInsertRowid
+            };
+        } catch (error) {
+            throw this.toDatabaseError(error, 'execute', sql);
+        }
+    }
+
+    /** @internal Used by SQLiteTransaction */
+    runScript(sql: string): void {
+        try {
+            this.getDatabase().exec(sql);
+        } catch (error) {
+            throw this.toDatabaseError(error, 'script', sql);
+        }
+    }
+
+    /** @internal Used by SQLiteTransaction */
+    nestedTransaction<T>(work: (provider: DatabaseProvider) => Promise<T>, depth: number): Promise<T> {
+        return this.runInTransaction(work, depth);
+    }
+
+    /**
+     * Open the database on first use
+     */
+    private getDatabase(): BetterSqlite3.Database {
+        if (this.db) {
+            return this.db;
+        }
+
+        const { file } = this.options;
+
+        try {
+            if (file !== ':memory:') {
+                fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+            }
+
+            const Database = require('better-sqlite3');
+            const db: BetterSqlite3.Database = new Database(file, { timeout: this.options.busyTimeoutMs });
+
+            if (this.options.walMode && file !== ':memory:') {
+                db.pragma('journal_mode = WAL');
+            }
+            if (this.options.foreignKeys) {
+                db.pragma('foreign_keys = ON');
+            }
+
+            this.db = db;
+            this.logger?.info(`🗄️ SQLite database opened: ${file}`);
+            return db;
+        } catch (error) {
+            throw new AppError(
+                `Failed to open SQLite database '${file}': ${error instanceof Error ? error.message : String(error)}`,
+                ErrorCode.DATABASE_ERROR,
+                500,
+                { operation: 'connect', resource: file },
+                ErrorSeverity.CRITICAL,
+                ErrorCategory.DATABASE
+            );
+        }
+    }
+
+    /**
+     * SQLite cannot bind booleans, dates or undefined
+     */
+    private normalizeParams(params: QueryParams): unknown[] {
+        return params.map(value => {
+            if (value === undefined) return null;
+            if (typeof value === 'boolean') return value ? 1 : 0;
+            if (value instanceof Date) return value.toISOString();
+            return value;
+        });
+    }
+
+    /**
+     * Convert a driver error to an AppError
+     */
+    private toDatabaseError(error: unknown, operation: string, sql: string): AppError {
+        if (error instanceof AppError) {
+            return error;
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        const driverCode = (error as { code?: string })?.code;
+
+        this.logger?.debug(`SQLite ${operation} failed`, { sql, driverCode, message });
+
+        if (driverCode === 'SQLITE_CONSTRAINT_UNIQUE' || driverCode === 'SQLITE_CONSTRAINT_PRIMARYKEY') {
+            return new AppError(
+                message,
+                ErrorCode.CONFLICT,
+                409,
+                { operation, driverCode },
+                ErrorSeverity.LOW,
+                ErrorCategory.DATABASE
+            );
+        }
+
+        return new AppError(
+            `Database ${operation} failed: ${message}`,
+            ErrorCode.DATABASE_ERROR,
+            500,
+            { operation, driverCode },
+            ErrorSeverity.HIGH,
+            ErrorCategory.DATABASE
+        );
+    }
+}
+
+/**
+ * Provider handed to transaction callbacks - nested transactions become savepoints
+ */
+class SQLiteTransaction extends DatabaseProvider {
+    readonly type = 'sqlite' as const;
+
+    constructor(private parent: SQLiteProvider, private depth: number) {
+        super();
+    }
+
+    async connect(): Promise<void> {}
+
+    async query<T = DatabaseRow>(sql: string, params: QueryParams = []): Promise<T[]> {
+        return this.parent.runQuery<T>(sql, params);
+    }
+
+    async execute(sql: string, params: QueryParams = []): Promise<ExecuteResult> {
+        return this.parent.runExecute(sql, params);
+    }
+
+    async executeScript(sql: string): Promise<void> {
+        this.parent.runScript(sql);
+    }
+
+    transaction<T>(work: (provider: DatabaseProvider) => Promise<T>): Promise<T> {
+        return this.parent.nestedTransaction(work, this.depth);
+    }
+
+    async close(): Promise<void> {
+        throw new Error('Cannot close the connection from inside a transaction');
+    }
+
+    isConnected(): boolean {
+        return this.parent.isConnected();
+    }
+}
@@ -0,0 +1,270 @@
+/**
+ * CrudRepository - Generic repository with CRUD operations
+ * Single responsibility: Map a table to typed create/read/update/delete operations
+ */
+
+import { DatabaseProvider, QueryParams } from '../interfaces/DatabaseProvider';
+
+export interface RepositoryConfig {
+    /** Table name */
+    tableName: string;
+    /** Primary key column (defaults to 'id') */
+    primaryKey?: string;
+    /** Maintain created_at / updated_at columns */
+    timestamps?: boolean;
+    /** Mark rows as deleted through deleted_at instead of removing them */
+    softDeletes?: boolean;
+}
+
+/**
+ * Equality filters - a null value matches NULL columns
+ */
+export type WhereClause<T> = Partial<{ [K in keyof T]: T[K] | null }>;
+
+export interface FindManyOptions<T> {
+    /** Equality filters */
+    where?: WhereClause<T>;
+    /** Column to sort by */
+    orderBy?: keyof T & string;
+    /** Sort direction (defaults to ASC) */
+    orderDirection?: 'ASC' | 'DESC';
+    /** Page number, starting at 1 (defaults to 1) */
+    page?: number;
+    /** Page size (defaults to 20, capped at 1000) */
+    limit?: number;
+}
+
+export interface PaginatedResult<T> {
+    items: T[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+}
+
+const CREATED_AT = 'created_at';
+const UPDATED_AT = 'updated_at';
+const DELETED_AT = 'deleted_at';
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * CRUD Repository - extend it and decorate the subclass with @Repository
+ *
+ * @example
+ * @Repository('UserRepository')
+ * class UserRepository extends CrudRepository<User> {
+ *     constructor(provider: DatabaseProvider) {
+ *         super(provider, { tableName: 'users', timestamps: true });
+ *     }
+ * }
+ */
+export class CrudRepository<T extends object> {
+    protected provider: DatabaseProvider;
+    protected readonly config: Required<RepositoryConfig>;
+
+    constructor(provider: DatabaseProvider, config: RepositoryConfig) {
+        this.provider = provider;
+        this.config = {
+            primaryKey: 'id',
+            timestamps: false,
+            softDeletes: false,
+            ...config
+        };
+    }
+
+    // ============================================================================
+    // READ
+    // ============================================================================
+
+    /**
+     * Find a row by primary key
+     */
+    async findById(id: unknown): Promise<T | null> {
+        return this.findOne({ [this.config.primaryKey]: id } as WhereClause<T>);
+    }
+
+    /**
+     * Find the first row matching the filters
+     */
+    async findOne(where: WhereClause<T>): Promise<T | null> {
+        const { clause, params } = this.buildWhere(where);
+        const rows = await this.provider.query<T>(
+            `SELECT * FROM ${this.table()}${clause} LIMIT 1`,
+            params
+        );
+        return rows[0] || null;
+    }
+
+    /**
+     * Find a page of rows
+     */
+    async findMany(options: FindManyOptions<T> = {}): Promise<PaginatedResult<T>> {
+        const page = Math.max(1, Math.floor(options.page || 1));
+        const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(options.limit || DEFAULT_PAGE_SIZE)));
+        const { clause, params } = this.buildWhere(options.where || {});
+
+        const orderColumn = this.provider.quoteIdentifier(options.orderBy || this.config.primaryKey);
+        const direction = options.orderDirection === 'DESC' ? 'DESC' : 'ASC';
+
+        const items = await this.provider.query<T>(
+            `SELECT * FROM ${this.table()}${clause} ORDER BY ${orderColumn} ${direction} LIMIT ? OFFSET ?`,
+            [...params, limit, (page - 1) * limit]
+        );
+        const total = await this.count(options.where);
+
+        return {
+            items,
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit)
+        };
+    }
+
+    /**
+     * Count rows matching the filters
+     */
+    async count(where: WhereClause<T> = {}): Promise<number> {
+        const { clause, params } = this.buildWhere(where);
+        const rows = await this.provider.query<{ total: number }>(
+            `SELECT COUNT(*) AS total FROM ${this.table()}${clause}`,
+            params
+        );
+        return Number(rows[0]?.total || 0);
+    }
+
+    /**
+     * Check if a row exists
+     */
+    async exists(id: unknown): Promise<boolean> {
+        return (await this.count({ [this.config.primaryKey]: id } as WhereClause<T>)) > 0;
+    }
+
+    // ============================================================================
+    // WRITE
+    // ============================================================================
+
+    /**
+     * Insert a row and return it as stored
+     */
+    async create(data: Partial<T>): Promise<T> {
+        const values: Record<string, unknown> = { ...data };
+
+        if (this.config.timestamps) {
+            const now = new Date();
+            values[CREATED_AT] = values[CREATED_AT] ?? now;
+            values[UPDATED_AT] = values[UPDATED_AT] ?? now;
+        }
+
+        const columns = Object.keys(values).filter(column => values[column] !== undefined);
+        const sql = columns.length > 0
+            ? `INSERT INTO ${this.table()} (${columns.map(c => this.provider.quoteIdentifier(c)).join(', ')}) ` +
+              `VALUES (${columns.map(() => '?').join(', ')})`
+            : `INSERT INTO ${this.table()} DEFAULT VALUES`;
+
+        const result = await this.provider.execute(sql, columns.map(column => values[column]));
+        const id = values[this.config.primaryKey] ?? result.lastInsertId;
+
+        const created = await this.findById(id);
+        if (!created) {
+            throw new Error(`Row inserted into '${this.config.tableName}' could not be read back`);
+        }
+        return created;
+    }
+
+    /**
+     * Update a row by primary key
+     * @returns the updated row, or null if it does not exist
+     */
+    async update(id: unknown, data: Partial<T>): Promise<T | null> {
+        const values: Record<string, unknown> = { ...data };
+        delete values[this.config.primaryKey];
+
+        if (this.config.timestamps) {
+            values[UPDATED_AT] = new Date();
+        }
+
+        const columns = Object.keys(values).filter(column => values[column] !== undefined);
+        if (columns.length === 0) {
+            return this.findById(id);
+        }
+
+        const { clause, params } = this.buildWhere({ [this.config.primaryKey]: id } as WhereClause<T>);
+        const result = await this.provider.execute(
+            `UPDATE ${this.table()} SET ${columns.map(c => `${this.provider.quoteIdentifier(c)} = ?`).join(', ')}${clause}`,
+            [...columns.map(column => values[column]), ...params]
+        );
+
+        return result.changes > 0 ? this.findById(id) : null;
+    }
+
+    /**
+     * Delete a row by primary key (soft delete when enabled)
+     * @returns true if a row was deleted
+     */
+    async delete(id: unknown): Promise<boolean> {
+        const { clause, params } = this.buildWhere({ [this.config.primaryKey]: id } as WhereClause<T>);
+
+        const result = this.config.softDeletes
+            ? await this.provider.execute(
+                `UPDATE ${this.table()} SET ${this.provider.quoteIdentifier(DELETED_AT)} = ?${clause}`,
+                [new Date(), ...params]
+            )
+            : await this.provider.execute(`DELETE FROM ${this.table()}${clause}`, params);
+
+        return result.changes > 0;
+    }
+
+    /**
+     * Run repository operations atomically
+     */
+    async transaction<R>(work: (repository: this) => Promise<R>): Promise<R> {
+        return this.provider.transaction(provider => {
+            // Same repository, bound to the transaction's provider
+            const scoped = Object.create(this) as this;
+            scoped.provider = provider;
+            return work(scoped);
+        });
+    }
+
+    // ============================================================================
+    // SQL HELPERS
+    // ============================================================================
+
+    /**
+     * Quoted table name
+     */
+    protected table(): string {
+        return this.provider.quoteIdentifier(this.config.tableName);
+    }
+
+    /**
+     * Build a WHERE clause from equality filters (soft-deleted rows excluded)
+     */
+    protected buildWhere(where: WhereClause<T>): { clause: string; params: QueryParams } {
+        const conditions: string[] = [];
+        const params: QueryParams = [];
+
+        for (const [column, value] of Object.entries(where)) {
+            if (value === undefined) continue;
+
+            const quoted = this.provider.quoteIdentifier(column);
+            if (value === null) {
+                conditions.push(`${quoted} IS NULL`);
+            } else {
+                conditions.push(`${quoted} = ?`);
+                params.push(value);
+            }
+        }
+
+        if (this.config.softDeletes) {
+            conditions.push(`${this.provider.quoteIdentifier(DELETED_AT)} IS NULL`);
+        }
+
+        return {
+            clause: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '',
+            params
+        };
+    }
+}
@@ -33,13 +33,13 @@ export class AuthenticationMiddleware extends Middleware {
     }
 
     async execute(context: MiddlewareContext, next: NextFunction): Promise<void> {
-        try {
-            // If auth is not required, skip authentication
-            if (this.options.requireAuth === false) {
-                await next();
-                return;
-            }
+        // If auth is not required, skip authentication
+        if (this.options.requireAuth === false) {
+            await next();
+            return;
+        }
 
+        try {
             // Extract and validate token
             const user = await this.authenticateUser(context);
             
@@ -59,13 +59,12 @@ export class AuthenticationMiddleware extends Middleware {
                 userRoles: this.userRoleService.getUserRoles(user),
                 timestamp: new Date().toISOString()
             });
-
-            // Continue to next middleware
-            await next();
-
         } catch (error) {
             this.handleAuthenticationError(error, context);
         }
+
+        // Outside the try - errors from the handler are not authentication failures
+        await next();
     }
 
     /**
@@ -0,0 +1,221 @@
+/**
+ * Cache Middleware - HTTP response caching for @Cache / @NoCache routes
+ * Single responsibility: Serve and store GET responses through CacheManager
+ */
+
+import crypto from 'crypto';
+import { MiddlewareContext, NextFunction } from './MiddlewareContext';
+import { Middleware } from './AuthenticationMiddleware';
+import { ResponseRecorder, RecordedBody } from './ResponseRecorder';
+import { CacheManager } from '../core/cache/CacheManager';
+
+export interface CacheOptions {
+    /** Time to live in seconds */
+    ttl?: number;
+    /** Key pattern - `:name` is replaced by the matching path parameter */
+    key?: string;
+    /** Tag patterns for group invalidation, interpolated like the key */
+    tags?: string[];
+    /** Disable caching and send Cache-Control: no-store (@NoCache) */
+    disabled?: boolean;
+}
+
+/**
+ * Cached HTTP response - plain data so external providers can serialize it
+ */
+export interface CachedResponse {
+    statusCode: number;
+    statusMessage?: string;
+    headers: Array<[string, string]>;
+    body: string;
+    encoding: 'utf8' | 'base64';
+    etag: string;
+    storedAt: number;
+}
+
+/** Headers that must not be replayed to other clients */
+const UNCACHEABLE_HEADERS = ['set-cookie', 'etag', 'cache-control', 'age', 'x-cache', 'vary'];
+
+/** CORS headers depend on the requesting origin - CorsMiddleware writes them on every request */
+const UNCACHEABLE_HEADER_PREFIXES = ['access-control-'];
+
+/**
+ * Cache Middleware
+ *
+ * Only GET/HEAD requests without an Authorization header are cached, and only
+ * 200 responses without Set-Cookie or a private/no-store Cache-Control are stored.
+ * Query strings are appended to the key (`user-42?page=2`) and the bare key is
+ * added as a tag, so `invalidateTags('user-42')` drops every variant.
+ */
+export class CacheMiddleware extends Middleware {
+    private options: CacheOptions;
+
+    constructor(private cacheManager: CacheManager, options: CacheOptions = {}) {
+        super();
+        this.options = {
+            ttl: 60,
+            ...options
+        };
+    }
+
+    async execute(context: MiddlewareContext, next: NextFunction): Promise<void> {
+        const recorder = context.response;
+
+        if (this.options.disabled) {
+            await next();
+            recorder?.setHeader('Cache-Control', 'no-store');
+            return;
+        }
+
+        if (!recorder || !this.isCacheableRequest(context)) {
+            await next();
+            return;
+        }
+
+        const baseKey = this.interpolate(this.options.key || context.routePattern || context.url || '', context);
+        const key = this.withQuery(baseKey, context);
+
+        const cached = await this.cacheManager.get<CachedResponse>(key);
+        if (cached) {
+            this.replay(cached, context, recorder);
+            return;
+        }
+
+        await next();
+
+        if (!this.isCacheableResponse(recorder)) {
+            return;
+        }
+
+        const entry = this.capture(recorder);
+        const tags = [baseKey, ...(this.options.tags || []).map(tag => this.interpolate(tag, context))];
+        await this.cacheManager.set(key, entry, { ttlMs: this.options.ttl! * 1000, tags });
+
+        recorder.setHeader('ETag', entry.etag);
+        recorder.setHeader('Cache-Control', `public, max-age=${this.options.ttl}`);
+        recorder.setHeader('X-Cache', 'MISS');
+
+        if (this.matchesEtag(context, entry.etag)) {
+            this.notModified(recorder, entry.etag, this.options.ttl!);
+        }
+    }
+
+    // ============================================================================
+    // REQUEST / RESPONSE CHECKS
+    // ============================================================================
+
+    private isCacheableRequest(context: MiddlewareContext): boolean {
+        const method = (context.method || 'GET').toUpperCase();
+        return (method === 'GET' || method === 'HEAD') && !context.headers?.['authorization'];
+    }
+
+    private isCacheableResponse(recorder: ResponseRecorder): boolean {
+        if (recorder.statusCode !== 200 || !recorder.isFinished() || recorder.body === undefined) {
+            return false;
+        }
+        if (recorder.getHeader('Set-Cookie') !== undefined) {
+            return false;
+        }
+        const cacheControl = recorder.getHeader('Cache-Control')?.toLowerCase() || '';
+        return !cacheControl.includes('no-store') && !cacheControl.includes('private');
+    }
+
+    // ============================================================================
+    // CACHE ENTRIES
+    // ============================================================================
+
+    private capture(recorder: ResponseRecorder): CachedResponse {
+        const body = recorder.body as RecordedBody;
+        const isText = typeof body === 'string';
+        const buffer = isText ? Buffer.from(body, 'utf8') : toBuffer(body);
+
+        return {
+            statusCode: recorder.statusCode,
+            statusMessage: recorder.statusMessage,
+            headers: recorder.headers.filter(([name]) => isCacheableHeader(name)),
+            body: isText ? body : buffer.toString('base64'),
+            encoding: isText ? 'utf8' : 'base64',
+            etag: `"${crypto.createHash('sha1').update(buffer).digest('base64url')}"`,
+            storedAt: Date.now()
+        };
+    }
+
+    private replay(cached: CachedResponse, context: MiddlewareContext, recorder: ResponseRecorder): void {
+        const age = Math.floor((Date.now() - cached.storedAt) / 1000);
+        const maxAge = Math.max(0, this.options.ttl! - age);
+
+        if (this.matchesEtag(context, cached.etag)) {
+            this.notModified(recorder, cached.etag, maxAge);
+            recorder.setHeader('Age', String(age));
+            recorder.setHeader('X-Cache', 'HIT');
+            return;
+        }
+
+        recorder.writeStatus(`${cached.statusCode}${cached.statusMessage ? ` ${cached.statusMessage}` : ''}`);
+        for (const [name, value] of cached.headers) {
+            recorder.writeHeader(name, value);
+        }
+        recorder.setHeader('ETag', cached.etag);
+        recorder.setHeader('Cache-Control', `public, max-age=${maxAge}`);
+        recorder.setHeader('Age', String(age));
+        recorder.setHeader('X-Cache', 'HIT');
+        recorder.end(cached.encoding === 'base64' ? Buffer.from(cached.body, 'base64') : cached.body);
+    }
+
+    /**
+     * Answer 304 without a body - headers already written for this request (CORS, Vary...) are kept
+     */
+    private notModified(recorder: ResponseRecorder, etag: string, maxAge: number): void {
+        recorder.removeHeader('Content-Length');
+        recorder.writeStatus('304 Not Modified');
+        recorder.setHeader('ETag', etag);
+        recorder.setHeader('Cache-Control', `public, max-age=${maxAge}`);
+        recorder.end();
+    }
+
+    private matchesEtag(context: MiddlewareContext, etag: string): boolean {
+        const ifNoneMatch = context.headers?.['if-none-match'];
+        if (!ifNoneMatch) {
+            return false;
+        }
+        return ifNoneMatch.split(',')
+            .map(tag => tag.trim().replace(/^W\//, ''))
+            .some(tag => tag === etag || tag === '*');
+    }
+
+    // ============================================================================
+    // KEYS
+    // ============================================================================
+
+    /**
+     * Replace `:name` placeholders with path parameters (unknown names are kept as-is)
+     */
+    private interpolate(pattern: string, context: MiddlewareContext): string {
+        const params = context.getPathParams(context.routePattern);
+        return pattern.replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (placeholder, name: string) =>
+            params[name] !== undefined ? String(params[name]) : placeholder
+        );
+    }
+
+    private withQuery(key: string, context: MiddlewareContext): string {
+        const query = context.query || {};
+        const names = Object.keys(query).sort();
+        if (names.length === 0) {
+            return key;
+        }
+        const search = names.map(name => `${encodeURIComponent(name)}=${encodeURIComponent(String(query[name]))}`).join('&');
+        return `${key}?${search}`;
+    }
+}
+
+function isCacheableHeader(name: string): boolean {
+    const lower = name.toLowerCase();
+    return !UNCACHEABLE_HEADERS.includes(lower) &&
+        !UNCACHEABLE_HEADER_PREFIXES.some(prefix => lower.startsWith(prefix));
+}
+
+function toBuffer(body: ArrayBuffer | ArrayBufferView): Buffer {
+    return ArrayBuffer.isView(body)
+        ? Buffer.from(body.buffer, body.byteOffset, body.byteLength)
+        : Buffer.from(body);
+}
@@ -48,7 +48,7 @@ export class CorsMiddleware extends Middleware {
         }
 
         // Set methods
-        const methods = this.options.methods || ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'];
+        const methods = this.options.methods || ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
         res.writeHeader('Access-Control-Allow-Methods', methods.join(', '));
 
         // Set allowed headers
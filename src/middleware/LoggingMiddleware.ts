@@ -53,7 +53,7 @@ export class LoggingMiddleware extends Middleware {
 
         // Log request
         if (this.options.logRequests) {
-            this.logRequest(context);
+            await this.logRequest(context);
         }
 
         // Execute next middleware/handler
@@ -69,7 +69,7 @@ export class LoggingMiddleware extends Middleware {
     /**
      * Log incoming request
      */
-    private logRequest(context: MiddlewareContext): void {
+    private async logRequest(context: MiddlewareContext): Promise<void> {
         const logData: Record<string, unknown> = {
             method: context.method,
             url: context.url,
@@ -78,26 +78,32 @@ export class LoggingMiddleware extends Middleware {
             timestamp: new Date().toISOString()
         };
 
-        // Add body if enabled and present
-        if (this.options.logRequestBody && context.body) {
-            logData.body = context.body;
+        // Add body if enabled - the handler gets the same parsed body, parse errors are left to it
+        if (this.options.logRequestBody && !context.headers?.['content-type']?.startsWith('multipart/')) {
+            const body = await context.getRequestBody().catch(() => undefined);
+            if (body && Object.keys(body).length > 0) {
+                logData.body = body;
+            }
         }
 
-        this.logger.info(`[REQUEST] ${context.method?.toUpperCase()} ${context.url}`, logData);
+        (context.logger || this.logger).info(`[REQUEST] ${context.method?.toUpperCase()} ${context.url}`, logData);
     }
 
     /**
      * Log response
      */
     private logResponse(context: MiddlewareContext, duration: number): void {
+        const status = context.response?.statusCode;
         const logData = {
             method: context.method,
             url: context.url,
+            status,
+            bytes: context.response?.getByteCount(),
             duration: `${duration}ms`,
             timestamp: new Date().toISOString()
         };
 
-        this.logger.info(`[RESPONSE] ${context.method?.toUpperCase()} ${context.url} - ${duration}ms`, logData);
+        (context.logger || this.logger).info(`[RESPONSE] ${context.method?.toUpperCase()} ${context.url} ${status ?? ''} - ${duration}ms`, logData);
     }
 
     /**
@@ -16,9 +16,17 @@ import {
 import { User } from '../auth/UserRoleService';
 import { AppError, ErrorCode } from '../utils/errorHandler';
 import { Logger } from '../utils/logger';
+import { ResponseRecorder } from './ResponseRecorder';
+import { SseStream, SseOptions } from './SseStream';
+import { parseMultipart, MultipartOptions, MultipartResult } from '../core/upload/MultipartParser';
+import { UploadedFile } from '../core/upload/UploadStorage';
+import { BodyReader, DEFAULT_BODY_READER_OPTIONS, getMediaType } from '../core/server/BodyReader';
+import { RequestSnapshot, DetachedRequest, captureRequest } from '../core/server/RequestSnapshot';
+import type { Container } from '../core/container/Container';
 
 export interface MiddlewareContext {
-    req: UWSRequest;
+    req: UWSRequest; // Answered from the request snapshot - safe after await
+    request?: RequestSnapshot; // Headers, URL, query and path parameters captured when the request came in
     res: UWSResponse;
     user?: User;
     data?: RequestData;
@@ -30,14 +38,21 @@ export interface MiddlewareContext {
     url?: string;
     requestId?: string;
     routePattern?: string; // Add route pattern for path params extraction
+    response?: ResponseRecorder; // Recorded status, headers and body (set by the Router pipeline)
+    logger?: Logger; // Request-scoped logger carrying requestId
+    scope?: Container; // Request DI scope - scoped services are shared within the request
+    bodyReader?: BodyReader; // Body read from the start of the request (set by the Router)
 
     // Utility methods for handling requests and responses
     getRequestBody(): Promise<Record<string, unknown>>;
+    getMultipartBody(options?: MultipartOptions): Promise<MultipartResult>;
+    getUploadedFiles(options?: MultipartOptions): Promise<UploadedFile[]>;
     sendSuccess(data: Record<string, unknown> | unknown[], message?: string): void;
     sendError(message: string, statusCode?: number): void;
     getQueryParams(): Record<string, string>;
-    getPathParams(routePattern?: string): Record<string, string>;
+    getPathParams(routePattern?: string): RequestParams;
     validateRequiredFields(data: Record<string, unknown>, fields: string[]): void;
+    sse(options?: SseOptions): SseStream;
 }
 
 export interface NextFunction {
@@ -49,33 +64,71 @@ export interface NextFunction {
  */
 export class MiddlewareContextImpl implements MiddlewareContext {
     req: UWSRequest;
+    readonly request: RequestSnapshot;
     res: UWSResponse;
     user?: User;
     data?: RequestData;
-    params?: RequestParams;
-    query?: RequestQuery;
+    params: RequestParams = {};
+    query: RequestQuery;
     body?: RequestBody;
-    headers?: RequestHeaders;
-    method?: string;
-    url?: string;
+    headers: RequestHeaders;
+    method: string;
+    url: string;
     requestId?: string;
     routePattern?: string; // Add route pattern for path params extraction
-    private logger: Logger;
+    response?: ResponseRecorder;
+    logger: Logger;
+    scope?: Container;
+    bodyReader?: BodyReader;
+    private sseStream?: SseStream;
+    private multipartBody?: Promise<MultipartResult>;
 
-    constructor(req: UWSRequest, res: UWSResponse, logger?: Logger) {
-        this.req = req;
+    /**
+     * @param request snapshot of `req` - captured here unless the caller already took it
+     */
+    constructor(req: UWSRequest, res: UWSResponse, logger?: Logger, request: RequestSnapshot = captureRequest(req)) {
+        // uWS invalidates req once the handler awaits - everything is read from the snapshot
+        this.request = request;
+        this.req = new DetachedRequest(request);
+        this.method = request.method;
+        this.url = request.url;
+        this.headers = { ...request.headers };
+        this.query = HttpHandlerUtils.extractQueryParams(this.req);
         this.res = res;
-        this.logger = logger || new Logger('MiddlewareContext');
+        this.logger = logger || new Logger({ bindings: { component: 'MiddlewareContext' } });
     }
 
     /**
-     * Get parsed JSON body from request
+     * Get the parsed request body - parsed once, then shared with every caller
+     * Parsed by Content-Type (JSON when absent); multipart bodies give their fields.
      */
     getRequestBody = async (): Promise<Record<string, unknown>> => {
-        return await HttpHandlerUtils.parseRequestBody(
-            this.req as any,
-            this.res as any
-        );
+        if (!this.body) {
+            this.body = getMediaType(this.getContentType()) === 'multipart/form-data'
+                ? (await this.getMultipartBody()).fields
+                : await this.getBodyReader().parse() as RequestBody;
+        }
+        return this.body as Record<string, unknown>;
+    }
+
+    /**
+     * Stream a multipart/form-data body into fields and files
+     * The body is read once - later calls return the same result. Limit errors
+     * reject with a 413 AppError.
+     */
+    getMultipartBody = (options: MultipartOptions = {}): Promise<MultipartResult> => {
+        if (!this.multipartBody) {
+            this.multipartBody = parseMultipart(this.getBodyReader().stream(), this.getContentType(), options);
+        }
+        return this.multipartBody;
+    }
+
+    /**
+     * Files of a multipart/form-data body
+     * @example const [avatar] = await context.getUploadedFiles({ limits: { fileSize: 2 * 1024 * 1024 } });
+     */
+    getUploadedFiles = async (options: MultipartOptions = {}): Promise<UploadedFile[]> => {
+        return (await this.getMultipartBody(options)).files;
     }
 
     /**
@@ -98,27 +151,19 @@ export class MiddlewareContextImpl implements MiddlewareContext {
      * Extract query parameters from request
      */
     getQueryParams = (): Record<string, string> => {
-        return HttpHandlerUtils.extractQueryParams(this.req as any);
+        return this.query;
     }
 
     /**
-     * Extract path parameters from request
+     * Path parameters of the matched route, decoded (same as `context.params`)
+     * Passing another pattern matches the URL against it segment by segment.
      */
-    getPathParams = (routePattern?: string): Record<string, string> => {
-        const pattern = routePattern || this.routePattern;
-        if (!pattern) {
-            // If no pattern provided, try to extract from params if already populated
-            return this.params || {};
+    getPathParams = (routePattern?: string): RequestParams => {
+        if (!routePattern || routePattern === this.routePattern) {
+            return this.params;
         }
-        const url = this.url || '';
-        const pathParams = HttpHandlerUtils.extractPathParams(url, pattern);
-        
-        // Store the extracted params for future use
-        if (!this.params) {
-            this.params = pathParams;
-        }
-        
-        return pathParams;
+
+        return HttpHandlerUtils.extractPathParams(this.url, routePattern);
     }
 
     /**
@@ -134,6 +179,42 @@ export class MiddlewareContextImpl implements MiddlewareContext {
         }
     }
 
+    /**
+     * Turn the response into a Server-Sent Events stream
+     * Status and headers recorded so far (e.g. CORS) are sent right away. The stream
+     * outlives the handler and ends when the client leaves or close() is called.
+     * Calling sse() again returns the same stream (e.g. the one opened by @SSE).
+     */
+    sse = (options: SseOptions = {}): SseStream => {
+        if (!this.sseStream) {
+            const recorder = this.response
+                ?? (this.res instanceof ResponseRecorder ? this.res : new ResponseRecorder(this.res));
+
+            // HEAD requests get the headers only - an ended recorder never starts the stream
+            if (this.method.toUpperCase() === 'HEAD') {
+                recorder.end();
+            }
+
+            this.sseStream = new SseStream(recorder, this.headers?.['last-event-id'], options, this.logger);
+        }
+        return this.sseStream;
+    }
+
+    /**
+     * The request's body reader - created here when the context was not built by the Router
+     */
+    private getBodyReader(): BodyReader {
+        if (!this.bodyReader) {
+            this.bodyReader = BodyReader.attachedTo(this.res)
+                ?? new BodyReader(this.res, this.getContentType(), DEFAULT_BODY_READER_OPTIONS);
+        }
+        return this.bodyReader;
+    }
+
+    private getContentType(): string {
+        return this.headers['content-type'] ?? '';
+    }
+
     /**
      * Send JSON response helper
      */
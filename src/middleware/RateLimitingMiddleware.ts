@@ -53,6 +53,7 @@ export class RateLimitingMiddleware extends Middleware {
         this.cleanupInterval = setInterval(() => {
             this.cleanup();
         }, this.options.windowMs);
+        this.cleanupInterval.unref();
     }
 
     async execute(context: MiddlewareContext, next: NextFunction): Promise<void> {
@@ -0,0 +1,276 @@
+/**
+ * ResponseRecorder - Buffers the uWS response during the middleware pipeline
+ * Single responsibility: Record status, headers and body until the pipeline completes
+ */
+
+import { UWSResponse } from '../types/middleware.types';
+import { HttpHandlerUtils } from '../utils/handlers';
+
+export type RecordedBody = string | ArrayBuffer | ArrayBufferView;
+
+/**
+ * Response Recorder - stands in for the uWS response while middlewares run
+ *
+ * Writes are kept in memory so that middlewares resuming after `await next()`
+ * can read (and rewrite) the final status, headers and body. The recorded
+ * response is sent to the client by `flush()` once the pipeline has finished.
+ *
+ * Streaming responses (SSE) bypass the buffer: `beginStream()` sends status and
+ * headers right away, `write()` passes chunks through and `flush()` becomes a no-op.
+ */
+export class ResponseRecorder implements UWSResponse {
+    /** Final status code (defaults to 200) */
+    statusCode: number = 200;
+    /** Optional status message, e.g. 'Not Found' */
+    statusMessage?: string;
+    /** Recorded response headers, in write order */
+    headers: Array<[string, string]> = [];
+    /** Recorded response body */
+    body?: RecordedBody;
+
+    private ended = false;
+    private flushed = false;
+    private aborted = false;
+    private streaming = false;
+    private bytesSent = 0;
+    private abortHandlers: Array<() => void> = [];
+
+    constructor(private readonly raw: any) {
+        // Shares the response's abort handler with HttpHandlerWrapper instead of replacing it
+        HttpHandlerUtils.onAborted(this.raw, () => {
+            this.aborted = true;
+            for (const handler of this.abortHandlers) {
+                handler();
+            }
+        });
+    }
+
+    // ============================================================================
+    // UWS RESPONSE API
+    // ============================================================================
+
+    writeStatus(status: string): ResponseRecorder {
+        const [code, ...message] = String(status).trim().split(' ');
+        const statusCode = parseInt(code, 10);
+
+        if (!isNaN(statusCode)) {
+            this.statusCode = statusCode;
+            this.statusMessage = message.length > 0 ? message.join(' ') : undefined;
+        }
+        return this;
+    }
+
+    writeHeader(key: string, value: string): ResponseRecorder {
+        this.headers.push([key, String(value)]);
+        return this;
+    }
+
+    end(body?: RecordedBody): void {
+        this.body = body;
+        this.ended = true;
+    }
+
+    onData(callback: (chunk: ArrayBuffer, isLast: boolean) => void): void {
+        this.raw.onData(callback);
+    }
+
+    onAborted(callback: () => void): void {
+        this.abortHandlers.push(callback);
+    }
+
+    /**
+     * Stop / restart reading the request body from the socket
+     */
+    pause(): void {
+        this.raw.pause?.();
+    }
+
+    resume(): void {
+        this.raw.resume?.();
+    }
+
+    /**
+     * Writes are buffered anyway, the real cork happens in flush()
+     */
+    cork(callback: () => void): ResponseRecorder {
+        callback();
+        return this;
+    }
+
+    // ============================================================================
+    // RECORDED STATE
+    // ============================================================================
+
+    /**
+     * Get the first header value matching the given name (case-insensitive)
+     */
+    getHeader(name: string): string | undefined {
+        const lower = name.toLowerCase();
+        return this.headers.find(([key]) => key.toLowerCase() === lower)?.[1];
+    }
+
+    /**
+     * Replace every header matching the given name
+     */
+    setHeader(name: string, value: string): void {
+        this.removeHeader(name);
+        this.headers.push([name, String(value)]);
+    }
+
+    /**
+     * Remove every header matching the given name
+     */
+    removeHeader(name: string): void {
+        const lower = name.toLowerCase();
+        this.headers = this.headers.filter(([key]) => key.toLowerCase() !== lower);
+    }
+
+    /**
+     * Whether end() has been called on the recorder, or the response is streaming
+     * Either way the status and body can no longer be replaced.
+     */
+    isFinished(): boolean {
+        return this.ended || this.streaming;
+    }
+
+    /**
+     * Whether the response is being streamed with write()
+     */
+    isStreaming(): boolean {
+        return this.streaming;
+    }
+
+    /**
+     * Whether the client went away
+     */
+    isAborted(): boolean {
+        return this.aborted;
+    }
+
+    /**
+     * Whether the recorded response has been sent to the client
+     */
+    isFlushed(): boolean {
+        return this.flushed;
+    }
+
+    /**
+     * Body size in bytes (bytes actually sent once flushed)
+     */
+    getByteCount(): number {
+        if (this.flushed) {
+            return this.bytesSent;
+        }
+        return this.body === undefined ? 0 : Buffer.byteLength(this.body as string);
+    }
+
+    /**
+     * Get the underlying uWS response
+     */
+    getRawResponse(): any {
+        return this.raw;
+    }
+
+    // ============================================================================
+    // STREAMING
+    // ============================================================================
+
+    /**
+     * Send the recorded status and headers now and stream the body with write()
+     * @returns false if the response was already sent or the client went away
+     */
+    beginStream(): boolean {
+        if (this.flushed || this.aborted || this.ended) {
+            return false;
+        }
+
+        this.flushed = true;
+        this.streaming = true;
+
+        this.raw.cork(() => {
+            this.raw.writeStatus(this.statusMessage ? `${this.statusCode} ${this.statusMessage}` : `${this.statusCode}`);
+            for (const [key, value] of this.headers) {
+                this.raw.writeHeader(key, value);
+            }
+        });
+
+        return true;
+    }
+
+    /**
+     * Write a chunk of a streaming response
+     * @returns false when the chunk was buffered by uWS (backpressure) or could not be written
+     */
+    write(chunk: RecordedBody): boolean {
+        if (!this.streaming || this.ended || this.aborted) {
+            return false;
+        }
+
+        this.bytesSent += Buffer.byteLength(chunk as string);
+
+        let written = false;
+        this.raw.cork(() => {
+            written = this.raw.write(chunk);
+        });
+        return written;
+    }
+
+    /**
+     * Called once uWS has drained its buffer after write() returned false
+     * uWS keeps a single writable handler per response - the last one registered wins.
+     */
+    onWritable(callback: (offset: number) => boolean): void {
+        this.raw.onWritable(callback);
+    }
+
+    /**
+     * End a streaming response
+     */
+    endStream(): void {
+        if (!this.streaming || this.ended) {
+            return;
+        }
+
+        this.ended = true;
+        if (!this.aborted) {
+            this.raw.cork(() => this.raw.end());
+        }
+    }
+
+    // ============================================================================
+    // FLUSH
+    // ============================================================================
+
+    /**
+     * Send the recorded response to the client
+     * @param omitBody - Send status and headers only (HEAD requests)
+     * @returns false if nothing was sent (aborted, already flushed or never ended)
+     */
+    flush(omitBody: boolean = false): boolean {
+        if (this.flushed || this.aborted || !this.ended) {
+            return false;
+        }
+
+        this.flushed = true;
+        this.bytesSent = this.body === undefined ? 0 : Buffer.byteLength(this.body as string);
+
+        this.raw.cork(() => {
+            const status = this.statusMessage
+                ? `${this.statusCode} ${this.statusMessage}`
+                : `${this.statusCode}`;
+
+            this.raw.writeStatus(status);
+            for (const [key, value] of this.headers) {
+                this.raw.writeHeader(key, value);
+            }
+            if (omitBody) {
+                // Content-Length still reflects the body a GET would have returned
+                this.raw.endWithoutBody(this.bytesSent);
+            } else {
+                this.raw.end(this.body);
+            }
+        });
+
+        return true;
+    }
+}
@@ -0,0 +1,32 @@
+/**
+ * SSE Middleware - Opens the event stream of @SSE routes
+ * Single responsibility: Start the stream before the handler and close it if the handler fails
+ */
+
+import { MiddlewareContext, NextFunction } from './MiddlewareContext';
+import { Middleware } from './AuthenticationMiddleware';
+import { SseOptions } from './SseStream';
+
+/**
+ * SSE Middleware
+ *
+ * The Router runs it after every other middleware of the route, so auth or rate
+ * limiting can still reject the request with a regular response.
+ */
+export class SseMiddleware extends Middleware {
+    constructor(private options: SseOptions = {}) {
+        super();
+    }
+
+    async execute(context: MiddlewareContext, next: NextFunction): Promise<void> {
+        const stream = context.sse(this.options);
+
+        try {
+            await next();
+        } catch (error) {
+            // Headers are gone already, the client can only see the stream end
+            stream.close();
+            throw error;
+        }
+    }
+}
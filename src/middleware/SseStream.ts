@@ -0,0 +1,215 @@
+/**
+ * SseStream - Server-Sent Events over a streaming uWS response
+ * Single responsibility: Frame events, keep the connection alive and hold events while the client is slow
+ */
+
+import { ResponseRecorder } from './ResponseRecorder';
+import { Logger } from '../utils/logger';
+
+export interface SseOptions {
+    /** Interval of keepalive comments in milliseconds, 0 disables (default 15000) */
+    keepAliveMs?: number;
+    /** Reconnection delay advertised to the client when the stream opens, in milliseconds */
+    retry?: number;
+    /** Bytes held for a slow client before the stream is closed (default 1 MB) */
+    maxBufferedBytes?: number;
+    /** Called when a client reconnects with Last-Event-ID - replay the missed events from here */
+    onResume?: (lastEventId: string, stream: SseStream) => void | Promise<void>;
+}
+
+export interface SseEventOptions {
+    /** Event name - dispatched to `addEventListener(event)` instead of `onmessage` */
+    event?: string;
+    /** Event id, sent back by the browser as Last-Event-ID on reconnect */
+    id?: string | number;
+    /** Reconnection delay in milliseconds */
+    retry?: number;
+}
+
+/**
+ * SSE Stream
+ *
+ * Once uWS reports backpressure, events are held in memory and written from
+ * `onWritable`. A client too slow to catch up within `maxBufferedBytes` is
+ * disconnected; it reconnects and resumes from its Last-Event-ID.
+ */
+export class SseStream {
+    private options: SseOptions & Required<Pick<SseOptions, 'keepAliveMs' | 'maxBufferedBytes'>>;
+    private pending: string[] = [];
+    private pendingBytes = 0;
+    private backpressured = false;
+    private closed = false;
+    private keepAliveTimer?: NodeJS.Timeout;
+    private closeHandlers: Array<() => void> = [];
+
+    constructor(
+        private recorder: ResponseRecorder,
+        /** Last-Event-ID sent by a reconnecting client */
+        readonly lastEventId?: string,
+        options: SseOptions = {},
+        private logger?: Logger
+    ) {
+        this.options = {
+            keepAliveMs: 15000,
+            maxBufferedBytes: 1024 * 1024,
+            ...options
+        };
+
+        recorder.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+        recorder.setHeader('Cache-Control', 'no-cache');
+        // Keep reverse proxies (nginx) from buffering the stream
+        recorder.setHeader('X-Accel-Buffering', 'no');
+
+        recorder.onAborted(() => this.cleanup());
+
+        if (!recorder.beginStream()) {
+            this.cleanup();
+            return;
+        }
+
+        recorder.onWritable(() => this.writePending());
+
+        if (this.options.retry !== undefined) {
+            this.write(`retry: ${Math.floor(this.options.retry)}\n\n`);
+        }
+
+        if (this.options.keepAliveMs > 0) {
+            this.keepAliveTimer = setInterval(() => this.comment('keepalive'), this.options.keepAliveMs);
+            this.keepAliveTimer.unref();
+        }
+
+        if (lastEventId && this.options.onResume) {
+            Promise.resolve()
+                .then(() => this.options.onResume!(lastEventId, this))
+                .catch(error => this.logger?.error('SSE resume handler failed:', error));
+        }
+    }
+
+    /**
+     * Send an event - strings are sent as is, anything else as JSON
+     * @returns false when the stream is closed
+     * @example stream.send({ id: 42, status: 'shipped' }, { event: 'order', id: 42 })
+     */
+    send(data: unknown, options: SseEventOptions = {}): boolean {
+        let frame = '';
+
+        if (options.event) {
+            frame += `event: ${singleLine(options.event)}\n`;
+        }
+        if (options.id !== undefined) {
+            frame += `id: ${singleLine(String(options.id))}\n`;
+        }
+        if (options.retry !== undefined) {
+            frame += `retry: ${Math.floor(options.retry)}\n`;
+        }
+
+        const text = typeof data === 'string' ? data : JSON.stringify(data);
+        for (const line of text.split(/\r\n|\r|\n/)) {
+            frame += `data: ${line}\n`;
+        }
+
+        return this.write(frame + '\n');
+    }
+
+    /**
+     * Send a comment line, ignored by clients
+     */
+    comment(text: string = ''): boolean {
+        return this.write(`: ${singleLine(text)}\n\n`);
+    }
+
+    /**
+     * End the stream - the client will reconnect unless it closes its EventSource
+     */
+    close(): void {
+        if (this.closed) {
+            return;
+        }
+        this.cleanup();
+        this.recorder.endStream();
+    }
+
+    /**
+     * Register a callback run once the stream is closed, by either side
+     */
+    onClose(handler: () => void): void {
+        if (this.closed) {
+            handler();
+        } else {
+            this.closeHandlers.push(handler);
+        }
+    }
+
+    isClosed(): boolean {
+        return this.closed;
+    }
+
+    // ============================================================================
+    // WRITING
+    // ============================================================================
+
+    private write(frame: string): boolean {
+        if (this.closed) {
+            return false;
+        }
+
+        if (this.backpressured) {
+            this.pending.push(frame);
+            this.pendingBytes += Buffer.byteLength(frame);
+
+            if (this.pendingBytes > this.options.maxBufferedBytes) {
+                this.logger?.warn(`⚠️ SSE client too slow (${this.pendingBytes} bytes pending), closing stream`);
+                this.close();
+                return false;
+            }
+            return true;
+        }
+
+        if (!this.recorder.write(frame)) {
+            // uWS buffered the frame - hold further ones until it drains
+            this.backpressured = true;
+        }
+        return true;
+    }
+
+    private writePending(): boolean {
+        this.backpressured = false;
+
+        while (this.pending.length > 0 && !this.backpressured) {
+            const frame = this.pending.shift()!;
+            this.pendingBytes -= Buffer.byteLength(frame);
+
+            if (!this.recorder.write(frame)) {
+                this.backpressured = true;
+            }
+        }
+
+        return true;
+    }
+
+    private cleanup(): void {
+        if (this.closed) {
+            return;
+        }
+
+        this.closed = true;
+        clearInterval(this.keepAliveTimer);
+        this.pending = [];
+        this.pendingBytes = 0;
+
+        for (const handler of this.closeHandlers.splice(0)) {
+            try {
+                handler();
+            } catch (error) {
+                this.logger?.error('SSE close handler failed:', error);
+            }
+        }
+    }
+}
+
+/**
+ * Field values cannot span lines - a newline would start a new field
+ */
+function singleLine(value: string): string {
+    return value.replace(/[\r\n]+/g, ' ');
+}
@@ -31,16 +31,20 @@ export interface ValidationOptions {
  */
 export class ValidationMiddleware extends Middleware {
     
+    private options: ValidationOptions;
+
     constructor(
         private schema: ValidationSchema,
-        private options: ValidationOptions = {
+        options: ValidationOptions = {}
+    ) {
+        super();
+        this.options = {
             validateBody: true,
             validateQuery: false,
             validateParams: false,
-            abortEarly: true
-        }
-    ) {
-        super();
+            abortEarly: true,
+            ...options
+        };
     }
 
     async execute(context: MiddlewareContext, next: NextFunction): Promise<void> {
@@ -48,9 +52,8 @@ export class ValidationMiddleware extends Middleware {
 
         // Validate body if needed
         if (this.options.validateBody && this.shouldValidateBody(context.method)) {
-            if (!context.body) {
-                context.body = await this.readBody(context.res);
-            }
+            // Parsed once and kept on the context - the handler reads the same body
+            await context.getRequestBody();
             
             const bodyResult = this.validateData(context.body, this.schema);
             if (!bodyResult.valid) {
@@ -94,34 +97,34 @@ export class ValidationMiddleware extends Middleware {
         await next();
     }
 
+    /**
+     * Validate a handler argument against the schema - one field (`name` given) or a whole object
+     * Throws the same 400 error as the middleware.
+     * @param label - Error prefix, e.g. 'Query'
+     */
+    validateArgument(value: unknown, label: string, name?: string): void {
+        let result: ValidationResult;
+
+        if (name === undefined) {
+            result = this.validateData(value ?? {}, this.schema);
+        } else {
+            const fieldSchema = this.schema.properties?.[name];
+            result = this.validateData(value === undefined ? {} : { [name]: value }, {
+                required: this.schema.required?.filter(field => field === name),
+                properties: fieldSchema ? { [name]: fieldSchema } : undefined
+            });
+        }
+
+        if (!result.valid) {
+            this.throwValidationError(result.errors.map(err => `${label}: ${err}`));
+        }
+    }
+
     private shouldValidateBody(method?: string): boolean {
         const methodsWithBody = ['post', 'put', 'patch'];
         return methodsWithBody.includes(method?.toLowerCase() || '');
     }
 
-    private async readBody(res: any): Promise<any> {
-        return new Promise((resolve, reject) => {
-            let buffer = '';
-            
-            res.onData((chunk: ArrayBuffer, isLast: boolean) => {
-                buffer += Buffer.from(chunk).toString();
-                
-                if (isLast) {
-                    try {
-                        const parsed = buffer ? JSON.parse(buffer) : {};
-                        resolve(parsed);
-                    } catch (error) {
-                        reject(new Error('Invalid JSON in request body'));
-                    }
-                }
-            });
-            
-            res.onAborted(() => {
-                reject(new Error('Request was aborted'));
-            });
-        });
-    }
-
     private validateData(data: any, schema: ValidationSchema): ValidationResult {
         const errors: string[] = [];
 
@@ -267,6 +270,7 @@ export class ValidationMiddleware extends Middleware {
 
     private throwValidationError(errors: string[]): never {
         const error = new Error(`Validation failed: ${errors.join(', ')}`);
+        error.name = 'ValidationError'; // Answered as 400 by the ErrorHandler
         (error as any).statusCode = 400;
         (error as any).validationErrors = errors;
         throw error;
@@ -2,20 +2,31 @@ import { UWebSocketWrapper } from '../core/ServerWrapper';
 import { ErrorHandler, AppError, ErrorSeverity } from '../utils/errorHandler';
 import { Logger } from '../utils/logger';
 
+/** Exit even if the shutdown sequence hangs after a crash */
+const CRASH_EXIT_TIMEOUT_MS = 30000;
+
 /**
  * Global error middleware for handling uncaught errors
  */
 export class ErrorMiddleware {
     private errorHandler: ErrorHandler;
     private logger: Logger;
+    private shutdown?: (signal?: string) => Promise<void>;
+    private crashing = false;
 
-    constructor(errorHandler: ErrorHandler, logger: Logger) {
+    /**
+     * @param shutdown - Shutdown sequence to run after a critical crash,
+     *                   e.g. `signal => serverStarter.shutdown(signal)`
+     */
+    constructor(errorHandler: ErrorHandler, logger: Logger, shutdown?: (signal?: string) => Promise<void>) {
         this.errorHandler = errorHandler;
         this.logger = logger;
+        this.shutdown = shutdown;
     }
 
     /**
      * Setup global error handlers for the application
+     * SIGTERM / SIGINT are left to ServerStarter, which drains the server before exiting.
      */
     setupGlobalErrorHandlers(): void {
         // Handle uncaught exceptions
@@ -44,10 +55,6 @@ export class ErrorMiddleware {
                 this.gracefulShutdown('Unhandled Rejection', error);
             }
         });
-
-        // Handle SIGTERM and SIGINT for graceful shutdown
-        process.on('SIGTERM', () => this.gracefulShutdown('SIGTERM'));
-        process.on('SIGINT', () => this.gracefulShutdown('SIGINT'));
     }
 
     /**
@@ -115,20 +122,24 @@ export class ErrorMiddleware {
     }
 
     /**
-     * Graceful shutdown handler
+     * Graceful shutdown on critical errors
+     * Runs the shutdown sequence (or only flushes logs without one), then exits with 1.
      */
-    private gracefulShutdown(signal: string, error?: Error): void {
-        this.logger.warn(`Received ${signal}. Starting graceful shutdown...`);
-        
-        if (error) {
-            this.logger.error('Shutdown triggered by error:', error);
+    private gracefulShutdown(reason: string, error: Error): void {
+        if (this.crashing) {
+            return;
         }
+        this.crashing = true;
+
+        this.logger.warn(`${reason}. Starting graceful shutdown...`);
+        this.logger.error('Shutdown triggered by error:', error);
+
+        setTimeout(() => process.exit(1), CRASH_EXIT_TIMEOUT_MS).unref();
 
-        // Give the application time to finish current requests
-        setTimeout(() => {
-            this.logger.info('Graceful shutdown completed');
-            process.exit(error ? 1 : 0);
-        }, 5000); // 5 seconds timeout
+        const sequence = this.shutdown ? this.shutdown(reason) : this.logger.flush();
+        sequence
+            .catch(shutdownError => this.logger.error('Error during shutdown:', shutdownError))
+            .finally(() => process.exit(1));
     }
 
     /**
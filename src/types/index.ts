@@ -4,8 +4,15 @@ export interface WebSocketHandler {
     onOpen?: (ws: uWS.WebSocket<any>) => void;
     onMessage?: (ws: uWS.WebSocket<any>, message: string | Buffer, flags: { binary: boolean }) => void;
     onClose?: (ws: uWS.WebSocket<any>, code: number, reason: string) => void;
+    /** Connection can take more data again - queued managed sends are already flushed */
+    onDrain?: (ws: uWS.WebSocket<any>) => void;
 }
 
+/**
+ * HTTP verbs supported by uWebSockets.js ('any' matches every verb)
+ */
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete' | 'patch' | 'head' | 'options' | 'connect' | 'trace' | 'any';
+
 export interface HttpHandler {
     (req: uWS.HttpRequest, res: uWS.HttpResponse): void | Promise<void>;
 }
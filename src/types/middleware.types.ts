@@ -8,11 +8,15 @@ export interface UWSRequest {
     getMethod(): string;
     getUrl(): string;
     getQuery(): string;
-    getParameter(index: number): string;
+    /** undefined past the last parameter, as in uWS */
+    getParameter(index: number): string | undefined;
     getHeader(key: string): string;
     forEach(callback: (key: string, value: string) => void): void;
 }
 
+/** What the request helpers read - satisfied by uWS requests and by DetachedRequest */
+export type RequestReader = Pick<UWSRequest, 'getQuery' | 'forEach'>;
+
 export interface UWSResponse {
     writeStatus(status: string): UWSResponse;
     writeHeader(key: string, value: string): UWSResponse;
@@ -35,7 +39,8 @@ export interface RequestHeaders {
 }
 
 export interface RequestParams {
-    [key: string]: string;
+    // Strings from the URL, or what a pipe turned them into (@Param('id', ParseIntPipe))
+    [key: string]: unknown;
 }
 
 export interface RequestQuery {
@@ -1,5 +1,6 @@
 import { ErrorResponse } from '../types';
 import { Logger } from './logger';
+import type { OnShutdown } from '../core/lifecycle/LifecycleHooks';
 
 export enum ErrorCode {
     // Client Errors (4xx)
@@ -112,20 +113,32 @@ export class AppError extends Error {
     }
 }
 
-export class ErrorHandler {
+export class ErrorHandler implements OnShutdown {
     private logger: Logger;
     private isProduction: boolean;
     private errorMetrics: Map<string, ErrorMetrics> = new Map();
     private errorRateLimit: Map<string, number> = new Map();
     private rateLimitWindow: number = 60000; // 1 minute
     private maxErrorsPerWindow: number = 10;
+    private cleanupTimer?: NodeJS.Timeout;
 
     constructor(logger: Logger, isProduction: boolean = process.env.NODE_ENV === 'production') {
         this.logger = logger;
         this.isProduction = isProduction;
         
-        // Clean up rate limit periodically
-        setInterval(() => this.cleanupRateLimit(), this.rateLimitWindow);
+        // Clean up rate limit periodically (unref'd so it never keeps the process alive)
+        this.cleanupTimer = setInterval(() => this.cleanupRateLimit(), this.rateLimitWindow);
+        this.cleanupTimer.unref();
+    }
+
+    /**
+     * Lifecycle hook - stop the rate limit cleanup timer
+     */
+    onShutdown(): void {
+        if (this.cleanupTimer) {
+            clearInterval(this.cleanupTimer);
+            this.cleanupTimer = undefined;
+        }
     }
 
     /**
@@ -149,6 +162,17 @@ export class ErrorHandler {
         };
     }
 
+    /**
+     * Build the response of an expected error without logging or counting it
+     * e.g. the Router's 404 / 405 fallbacks, which are not application errors
+     */
+    createResponse(error: AppError): { response: ErrorResponse; statusCode: number } {
+        return {
+            response: this.createErrorResponse(error),
+            statusCode: error.statusCode
+        };
+    }
+
     /**
      * Normalize any error to AppError
      */
@@ -3,40 +3,48 @@
  * Pure functions for common HTTP operations
  */
 
-import { HttpRequest, HttpResponse, EnhancedHttpRequest } from '../types/uws-types';
+import { HttpRequest, HttpResponse } from '../types/uws-types';
+import { RequestReader, UWSResponse } from '../types/middleware.types';
+import { BodyReader, BodySource, DEFAULT_BODY_READER_OPTIONS } from '../core/server/BodyReader';
+
+/** Abort handlers registered per response through HttpHandlerUtils.onAborted */
+const abortHandlers = new WeakMap<object, Array<() => void>>();
 
 /**
  * HTTP handler utility functions
+ * Request helpers take a RequestReader - a uWS request or the DetachedRequest read after an await.
  */
 export class HttpHandlerUtils {
     /**
      * Parse request body from HTTP request
+     * Reads through the request's BodyReader (and its limits) when the Router attached one.
      */
     static async parseRequestBody(
-        req: HttpRequest | EnhancedHttpRequest,
-        res: HttpResponse
+        req: RequestReader,
+        res: BodySource
     ): Promise<Record<string, unknown>> {
-        return new Promise((resolve, reject) => {
-            let buffer = Buffer.alloc(0);
-
-            res.onData((chunk, isLast) => {
-                buffer = Buffer.concat([buffer, Buffer.from(chunk)]);
-                
-                if (isLast) {
-                    try {
-                        const bodyText = buffer.toString('utf8');
-                        const body = bodyText ? JSON.parse(bodyText) as Record<string, unknown> : {};
-                        resolve(body);
-                    } catch (error) {
-                        reject(new Error('Invalid JSON in request body'));
-                    }
-                }
-            });
+        const contentType = HttpHandlerUtils.extractHeaders(req)['content-type'] || '';
+        const reader = BodyReader.attachedTo(res) ?? new BodyReader(res, contentType, DEFAULT_BODY_READER_OPTIONS);
+        return await reader.parse() as Record<string, unknown>;
+    }
 
+    /**
+     * Add an abort handler to a response without replacing the ones registered before
+     * uWS keeps a single onAborted callback, so the first call installs one running them all.
+     */
+    static onAborted(res: Pick<UWSResponse, 'onAborted'>, handler: () => void): void {
+        let handlers = abortHandlers.get(res);
+        if (!handlers) {
+            const registered: Array<() => void> = [];
             res.onAborted(() => {
-                reject(new Error('Request aborted'));
+                for (const registeredHandler of registered) {
+                    registeredHandler();
+                }
             });
-        });
+            abortHandlers.set(res, registered);
+            handlers = registered;
+        }
+        handlers.push(handler);
     }
 
     /**
@@ -55,21 +63,32 @@ export class HttpHandlerUtils {
             const routePart = routeParts[i];
             if (routePart.startsWith(':')) {
                 const paramName = routePart.substring(1);
-                params[paramName] = urlParts[i] || '';
+                params[paramName] = HttpHandlerUtils.decodePathParameter(urlParts[i] || '');
             }
         }
         
         return params;
     }
 
+    /**
+     * Decode a percent-encoded path parameter - malformed ones are kept as is
+     */
+    static decodePathParameter(value: string): string {
+        try {
+            return decodeURIComponent(value);
+        } catch {
+            return value;
+        }
+    }
+
     /**
      * Extract query parameters from request
      */
-    static extractQueryParams(req: HttpRequest | EnhancedHttpRequest): Record<string, string> {
+    static extractQueryParams(req: RequestReader): Record<string, string> {
         const params: Record<string, string> = {};
         
         try {
-            const query = (req as any).getQuery?.() || '';
+            const query = req.getQuery() || '';
             if (query) {
                 const pairs = query.split('&');
                 for (const pair of pairs) {
@@ -87,30 +106,15 @@ export class HttpHandlerUtils {
     }
 
     /**
-     * Extract headers from request
+     * Extract every header from request - names lower case, repeated headers joined with ', '
      */
-    static extractHeaders(req: HttpRequest | EnhancedHttpRequest): Record<string, string> {
+    static extractHeaders(req: RequestReader): Record<string, string> {
         const headers: Record<string, string> = {};
         
         try {
-            const commonHeaders = [
-                'authorization',
-                'content-type',
-                'user-agent',
-                'accept',
-                'x-forwarded-for',
-                'x-real-ip',
-                'host',
-                'origin',
-                'referer'
-            ];
-            
-            for (const header of commonHeaders) {
-                const value = (req as HttpRequest).getHeader?.(header);
-                if (value) {
-                    headers[header] = value;
-                }
-            }
+            req.forEach((key: string, value: string) => {
+                headers[key] = headers[key] !== undefined ? `${headers[key]}, ${value}` : value;
+            });
         } catch (error) {
             // Ignore header extraction errors
         }
@@ -222,7 +226,7 @@ export class HttpHandlerUtils {
     /**
      * Get client IP address
      */
-    static getClientIP(req: HttpRequest | EnhancedHttpRequest): string {
+    static getClientIP(req: RequestReader): string {
         const headers = HttpHandlerUtils.extractHeaders(req);
         return headers['x-forwarded-for'] || 
                headers['x-real-ip'] || 
@@ -232,7 +236,7 @@ export class HttpHandlerUtils {
     /**
      * Check if request is JSON content type
      */
-    static isJsonRequest(req: HttpRequest | EnhancedHttpRequest): boolean {
+    static isJsonRequest(req: RequestReader): boolean {
         const headers = HttpHandlerUtils.extractHeaders(req);
         const contentType = headers['content-type'] || '';
         return contentType.includes('application/json');
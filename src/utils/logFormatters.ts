@@ -0,0 +1,52 @@
+/**
+ * Log Formatters - Turn log records into output lines
+ * Single responsibility: Serialize LogRecord as JSON or human-readable text
+ */
+
+import type { LogRecord } from './logger';
+
+/**
+ * Formatter signature - returns one line without the trailing newline
+ */
+export type LogFormatter = (record: LogRecord) => string;
+
+/**
+ * One JSON object per line - `timestamp`, `level` and `message` first, then the fields
+ */
+export const jsonFormatter: LogFormatter = (record) => safeStringify({
+    timestamp: record.timestamp,
+    level: record.level,
+    message: record.message,
+    ...record.fields
+});
+
+/**
+ * `[timestamp] [LEVEL] message | {"field":"value"}`
+ */
+export const textFormatter: LogFormatter = (record) => {
+    const fields = Object.keys(record.fields).length > 0 ? ` | ${safeStringify(record.fields)}` : '';
+    return `[${record.timestamp}] [${record.level}] ${record.message}${fields}`;
+};
+
+export function getFormatter(format: 'json' | 'text' = 'text'): LogFormatter {
+    return format === 'json' ? jsonFormatter : textFormatter;
+}
+
+/**
+ * JSON.stringify that survives circular references and BigInt values
+ */
+function safeStringify(value: unknown): string {
+    const seen = new WeakSet<object>();
+    return JSON.stringify(value, (_key, current) => {
+        if (typeof current === 'bigint') {
+            return current.toString();
+        }
+        if (typeof current === 'object' && current !== null) {
+            if (seen.has(current)) {
+                return '[Circular]';
+            }
+            seen.add(current);
+        }
+        return current;
+    });
+}
@@ -0,0 +1,277 @@
+/**
+ * Log Transports - Destinations for formatted log lines
+ * Single responsibility: Deliver log lines to the console or to rotated files
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { LogRecord, LogLevelName } from './logger';
+import type { LogFormatter } from './logFormatters';
+
+/**
+ * Log Transport - implement it to ship logs elsewhere (syslog, HTTP collector, ...)
+ * write() is called on the hot path and must not block; slow work belongs in flush().
+ */
+export interface LogTransport {
+    /** Minimum level for this transport (defaults to the logger's level) */
+    level?: LogLevelName;
+    /** Formatter override (defaults to the logger's formatter) */
+    formatter?: LogFormatter;
+    write(line: string, record: LogRecord): void;
+    /** Persist buffered lines */
+    flush?(): Promise<void>;
+    /** Flush and release resources */
+    close?(): Promise<void>;
+}
+
+// ============================================================================
+// CONSOLE
+// ============================================================================
+
+export interface ConsoleTransportOptions {
+    level?: LogLevelName;
+    formatter?: LogFormatter;
+}
+
+/**
+ * Console Transport - WARN goes to console.warn, ERROR to console.error
+ */
+export class ConsoleTransport implements LogTransport {
+    level?: LogLevelName;
+    formatter?: LogFormatter;
+
+    constructor(options: ConsoleTransportOptions = {}) {
+        this.level = options.level;
+        this.formatter = options.formatter;
+    }
+
+    write(line: string, record: LogRecord): void {
+        switch (record.level) {
+            case 'ERROR':
+                console.error(line);
+                break;
+            case 'WARN':
+                console.warn(line);
+                break;
+            default:
+                console.log(line);
+        }
+    }
+}
+
+// ============================================================================
+// FILE
+// ============================================================================
+
+export interface LogRotationOptions {
+    /** Rotate once the file would exceed this many bytes */
+    maxSize?: number;
+    /** Rotate when the UTC day or hour changes */
+    interval?: 'daily' | 'hourly';
+    /** Rotated files to keep - older ones are deleted (keeps all when omitted) */
+    maxFiles?: number;
+}
+
+export interface FileTransportOptions {
+    /** Active log file - rotated files are named `<name>.<stamp><ext>` next to it */
+    filePath: string;
+    level?: LogLevelName;
+    formatter?: LogFormatter;
+    /** Buffered characters that trigger an early flush (default 64 KiB) */
+    bufferSize?: number;
+    /** Maximum time a line stays buffered in milliseconds (default 1000) */
+    flushIntervalMs?: number;
+    rotation?: LogRotationOptions;
+}
+
+const PERIOD_MS = {
+    daily: 24 * 60 * 60 * 1000,
+    hourly: 60 * 60 * 1000
+};
+
+/**
+ * File Transport
+ *
+ * Lines are buffered in memory and appended asynchronously, so logging never
+ * blocks a request. Whatever is still buffered when the process exits is
+ * written synchronously from the 'exit' event.
+ */
+export class FileTransport implements LogTransport {
+    level?: LogLevelName;
+    formatter?: LogFormatter;
+    private options: FileTransportOptions & { bufferSize: number; flushIntervalMs: number };
+    private buffer: string[] = [];
+    private bufferedChars = 0;
+    private timer?: NodeJS.Timeout;
+    private pending: Promise<void> = Promise.resolve();
+    private currentSize?: number;
+    private periodStart = 0;
+    private closed = false;
+    private readonly exitHandler = () => this.flushSync();
+
+    constructor(options: FileTransportOptions) {
+        this.options = {
+            bufferSize: 64 * 1024,
+            flushIntervalMs: 1000,
+            ...options
+        };
+        this.level = options.level;
+        this.formatter = options.formatter;
+
+        fs.mkdirSync(path.dirname(this.options.filePath), { recursive: true });
+        process.on('exit', this.exitHandler);
+    }
+
+    write(line: string): void {
+        if (this.closed) {
+            return;
+        }
+
+        this.buffer.push(`${line}\n`);
+        this.bufferedChars += line.length + 1;
+
+        if (this.bufferedChars >= this.options.bufferSize) {
+            void this.flush();
+        } else if (!this.timer) {
+            this.timer = setTimeout(() => void this.flush(), this.options.flushIntervalMs);
+            this.timer.unref();
+        }
+    }
+
+    flush(): Promise<void> {
+        // Chained so rotations and appends never interleave
+        this.pending = this.pending
+            .then(() => this.writeBuffer())
+            .catch((error) => console.error(`Failed to write log file ${this.options.filePath}:`, error));
+        return this.pending;
+    }
+
+    async close(): Promise<void> {
+        await this.flush();
+        this.closed = true;
+        process.removeListener('exit', this.exitHandler);
+    }
+
+    private async writeBuffer(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        if (this.buffer.length === 0) {
+            return;
+        }
+
+        const data = this.buffer.join('');
+        this.buffer = [];
+        this.bufferedChars = 0;
+
+        const bytes = Buffer.byteLength(data);
+        await this.rotateIfNeeded(bytes);
+        await fs.promises.appendFile(this.options.filePath, data);
+        this.currentSize = (this.currentSize ?? 0) + bytes;
+    }
+
+    /**
+     * Last-chance synchronous write (process 'exit' handlers cannot await)
+     */
+    private flushSync(): void {
+        if (this.buffer.length === 0) {
+            return;
+        }
+        try {
+            fs.appendFileSync(this.options.filePath, this.buffer.join(''));
+        } catch {
+            // Nothing left to report to while exiting
+        }
+        this.buffer = [];
+        this.bufferedChars = 0;
+    }
+
+    // ============================================================================
+    // ROTATION
+    // ============================================================================
+
+    private async rotateIfNeeded(incomingBytes: number): Promise<void> {
+        const { filePath, rotation } = this.options;
+
+        if (this.currentSize === undefined) {
+            // Pick up a file left by a previous run
+            try {
+                const stats = await fs.promises.stat(filePath);
+                this.currentSize = stats.size;
+                this.periodStart = this.getPeriodStart(stats.mtimeMs);
+            } catch {
+                this.currentSize = 0;
+                this.periodStart = this.getPeriodStart(Date.now());
+            }
+        }
+
+        if (!rotation) {
+            return;
+        }
+
+        const periodChanged = rotation.interval !== undefined && this.getPeriodStart(Date.now()) !== this.periodStart;
+        const sizeExceeded = rotation.maxSize !== undefined && this.currentSize + incomingBytes > rotation.maxSize;
+
+        if (this.currentSize === 0) {
+            this.periodStart = this.getPeriodStart(Date.now());
+        } else if (periodChanged || sizeExceeded) {
+            await this.rotate();
+        }
+    }
+
+    private async rotate(): Promise<void> {
+        const { filePath, rotation } = this.options;
+        const archive = this.getArchivePath();
+
+        await fs.promises.rename(filePath, archive);
+        this.currentSize = 0;
+        this.periodStart = this.getPeriodStart(Date.now());
+
+        if (rotation?.maxFiles !== undefined) {
+            await this.pruneArchives(rotation.maxFiles);
+        }
+    }
+
+    /**
+     * `app.log` becomes `app.2025-01-31.log` (daily), `app.2025-01-31T14.log` (hourly)
+     * or `app.2025-01-31T14-05-09.log` (size only), with a counter on collisions
+     */
+    private getArchivePath(): string {
+        const { filePath, rotation } = this.options;
+        const { dir, name, ext } = path.parse(filePath);
+
+        const iso = new Date(rotation?.interval ? this.periodStart : Date.now()).toISOString();
+        const stamp = rotation?.interval === 'daily' ? iso.slice(0, 10)
+            : rotation?.interval === 'hourly' ? iso.slice(0, 13)
+                : iso.slice(0, 19).replace(/:/g, '-');
+
+        for (let attempt = 0; ; attempt++) {
+            const candidate = path.join(dir, `${name}.${stamp}${attempt > 0 ? `.${attempt}` : ''}${ext}`);
+            if (!fs.existsSync(candidate)) {
+                return candidate;
+            }
+        }
+    }
+
+    private async pruneArchives(maxFiles: number): Promise<void> {
+        const { dir, name, ext, base } = path.parse(this.options.filePath);
+        const directory = dir || '.';
+
+        const archives = (await fs.promises.readdir(directory))
+            .filter(file => file !== base && file.startsWith(`${name}.`) && file.endsWith(ext));
+
+        const withTimes = await Promise.all(archives.map(async file => {
+            const fullPath = path.join(directory, file);
+            return { fullPath, mtime: (await fs.promises.stat(fullPath)).mtimeMs };
+        }));
+
+        const expired = withTimes.sort((a, b) => b.mtime - a.mtime).slice(maxFiles);
+        await Promise.all(expired.map(file => fs.promises.unlink(file.fullPath)));
+    }
+
+    private getPeriodStart(time: number): number {
+        const interval = this.options.rotation?.interval;
+        return interval ? time - (time % PERIOD_MS[interval]) : 0;
+    }
+}
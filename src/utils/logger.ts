@@ -1,5 +1,12 @@
-import fs from 'fs';
+/**
+ * Logger - Structured application logging
+ * Single responsibility: Filter, enrich and dispatch log records to transports
+ */
+
 import path from 'path';
+import type { LoggingConfig } from '../core/container/ApplicationConfig';
+import { LogFormatter, getFormatter } from './logFormatters';
+import { LogTransport, ConsoleTransport, FileTransport } from './logTransports';
 
 export enum LogLevel {
     DEBUG = 'DEBUG',
@@ -8,53 +15,239 @@ export enum LogLevel {
     ERROR = 'ERROR'
 }
 
-export class Logger {
-    private logDir: string;
-    private logFile: string;
+export type LogLevelName = 'debug' | 'info' | 'warn' | 'error';
 
-    constructor(logDir: string = 'logs') {
-        this.logDir = logDir;
-        this.logFile = path.join(logDir, `app-${new Date().toISOString().split('T')[0]}.log`);
-        this.ensureLogDirectory();
-    }
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+    [LogLevel.DEBUG]: 10,
+    [LogLevel.INFO]: 20,
+    [LogLevel.WARN]: 30,
+    [LogLevel.ERROR]: 40
+};
 
-    private ensureLogDirectory(): void {
-        if (!fs.existsSync(this.logDir)) {
-            fs.mkdirSync(this.logDir, { recursive: true });
-        }
-    }
+/**
+ * A single log event, as handed to formatters and transports
+ */
+export interface LogRecord {
+    timestamp: string;
+    level: LogLevel;
+    message: string;
+    /** Bound fields of the logger merged with the call's meta */
+    fields: Record<string, unknown>;
+}
 
-    private formatMessage(level: LogLevel, message: string, meta?: any): string {
-        const timestamp = new Date().toISOString();
-        const metaStr = meta ? ` | Meta: ${JSON.stringify(meta)}` : '';
-        return `[${timestamp}] [${level}] ${message}${metaStr}\n`;
-    }
+export interface LoggerOptions {
+    /** Minimum level written (default 'info') */
+    level?: LogLevelName;
+    /** Output format used when no formatter is given (default 'text') */
+    format?: 'json' | 'text';
+    formatter?: LogFormatter;
+    /** Destinations (default: console) */
+    transports?: LogTransport[];
+    /** Fields added to every record, e.g. `{ service: 'api' }` */
+    bindings?: Record<string, unknown>;
+}
 
-    private writeToFile(formattedMessage: string): void {
-        fs.appendFileSync(this.logFile, formattedMessage);
+/**
+ * Logger
+ *
+ * Records below the level are dropped before anything is formatted. Child
+ * loggers share the level and transports of their root and only add fields:
+ *
+ *   const requestLogger = logger.child({ requestId });
+ *   requestLogger.info('User loaded', { userId });
+ */
+export class Logger {
+    private root: Logger = this;
+    private minPriority: number;
+    private formatter: LogFormatter;
+    private transports: LogTransport[];
+    private bindings: Record<string, unknown>;
+
+    constructor(options: LoggerOptions = {}) {
+        this.minPriority = LEVEL_PRIORITY[toLogLevel(options.level || 'info')];
+        this.formatter = options.formatter || getFormatter(options.format);
+        this.transports = options.transports || [new ConsoleTransport()];
+        this.bindings = options.bindings || {};
     }
 
     debug(message: string, meta?: any): void {
-        const formattedMessage = this.formatMessage(LogLevel.DEBUG, message, meta);
-        console.log(formattedMessage.trim());
-        this.writeToFile(formattedMessage);
+        this.log(LogLevel.DEBUG, message, meta);
     }
 
     info(message: string, meta?: any): void {
-        const formattedMessage = this.formatMessage(LogLevel.INFO, message, meta);
-        console.log(formattedMessage.trim());
-        this.writeToFile(formattedMessage);
+        this.log(LogLevel.INFO, message, meta);
     }
 
     warn(message: string, meta?: any): void {
-        const formattedMessage = this.formatMessage(LogLevel.WARN, message, meta);
-        console.warn(formattedMessage.trim());
-        this.writeToFile(formattedMessage);
+        this.log(LogLevel.WARN, message, meta);
     }
 
     error(message: string, meta?: any): void {
-        const formattedMessage = this.formatMessage(LogLevel.ERROR, message, meta);
-        console.error(formattedMessage.trim());
-        this.writeToFile(formattedMessage);
+        this.log(LogLevel.ERROR, message, meta);
+    }
+
+    /**
+     * Create a logger that adds `bindings` to every record
+     */
+    child(bindings: Record<string, unknown>): Logger {
+        const child = new Logger({
+            formatter: this.root.formatter,
+            transports: this.root.transports,
+            bindings: { ...this.bindings, ...bindings }
+        });
+        child.root = this.root;
+        return child;
+    }
+
+    // ============================================================================
+    // CONFIGURATION
+    // ============================================================================
+
+    /**
+     * Change the level of this logger and all of its children
+     */
+    setLevel(level: LogLevelName): void {
+        this.root.minPriority = LEVEL_PRIORITY[toLogLevel(level)];
     }
+
+    getLevel(): LogLevelName {
+        const entry = Object.entries(LEVEL_PRIORITY).find(([, priority]) => priority === this.root.minPriority);
+        return (entry?.[0] || LogLevel.INFO).toLowerCase() as LogLevelName;
+    }
+
+    isLevelEnabled(level: LogLevelName): boolean {
+        return LEVEL_PRIORITY[toLogLevel(level)] >= this.root.minPriority;
+    }
+
+    addTransport(transport: LogTransport): void {
+        this.root.transports.push(transport);
+    }
+
+    // ============================================================================
+    // LIFECYCLE
+    // ============================================================================
+
+    /**
+     * Wait until buffered transports have written everything
+     */
+    async flush(): Promise<void> {
+        await Promise.all(this.root.transports.map(transport => transport.flush?.()));
+    }
+
+    /**
+     * Flush and close every transport
+     */
+    async close(): Promise<void> {
+        await Promise.all(this.root.transports.map(transport => transport.close?.() ?? transport.flush?.()));
+    }
+
+    // ============================================================================
+    // DISPATCH
+    // ============================================================================
+
+    private log(level: LogLevel, message: string, meta?: unknown): void {
+        const priority = LEVEL_PRIORITY[level];
+        if (priority < this.root.minPriority) {
+            return;
+        }
+
+        const record: LogRecord = {
+            timestamp: new Date().toISOString(),
+            level,
+            message,
+            fields: { ...this.bindings, ...normalizeMeta(meta) }
+        };
+
+        // Format once per distinct formatter
+        const lines = new Map<LogFormatter, string>();
+
+        for (const transport of this.root.transports) {
+            if (transport.level && priority < LEVEL_PRIORITY[toLogLevel(transport.level)]) {
+                continue;
+            }
+
+            const formatter = transport.formatter || this.root.formatter;
+            let line = lines.get(formatter);
+            if (line === undefined) {
+                line = formatter(record);
+                lines.set(formatter, line);
+            }
+
+            try {
+                transport.write(line, record);
+            } catch (error) {
+                console.error('Log transport failed:', error);
+            }
+        }
+    }
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Build a logger from the application's logging configuration
+ * Files default to logs/app.log with daily rotation and 14 days of retention.
+ * `enabled: false` gives a logger without transports.
+ */
+export function createLogger(config: Partial<LoggingConfig> = {}): Logger {
+    const output = config.output || 'console';
+    const transports: LogTransport[] = [];
+
+    // Disabled logging keeps the logger but writes nowhere
+    if (config.enabled === false) {
+        return new Logger({ level: config.level, format: config.format, transports });
+    }
+
+    if (output === 'console' || output === 'both') {
+        transports.push(new ConsoleTransport());
+    }
+
+    if (output === 'file' || output === 'both') {
+        transports.push(new FileTransport({
+            filePath: config.filePath || path.join('logs', 'app.log'),
+            rotation: config.rotation || { interval: 'daily', maxFiles: 14 }
+        }));
+    }
+
+    return new Logger({
+        level: config.level,
+        format: config.format,
+        transports
+    });
+}
+
+function toLogLevel(level: LogLevelName): LogLevel {
+    return level.toUpperCase() as LogLevel;
+}
+
+/**
+ * Turn the meta argument into record fields - errors keep their message and stack
+ */
+function normalizeMeta(meta: unknown): Record<string, unknown> {
+    if (meta === undefined || meta === null) {
+        return {};
+    }
+    if (meta instanceof Error) {
+        return { error: serializeError(meta) };
+    }
+    if (typeof meta !== 'object' || Array.isArray(meta)) {
+        return { meta };
+    }
+
+    const fields: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(meta)) {
+        fields[key] = value instanceof Error ? serializeError(value) : value;
+    }
+    return fields;
+}
+
+function serializeError(error: Error): Record<string, unknown> {
+    return {
+        ...error,
+        name: error.name,
+        message: error.message,
+        stack: error.stack
+    };
 }
@@ -0,0 +1,71 @@
+/**
+ * @Auth routes over a real uWS server - authentication failures and handler errors
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, request, silentLogger, TestServer } from './helpers/testServer';
+import { Route, GET } from '../src/core/decorators/RouteDecorators';
+import { Auth } from '../src/core/decorators/AuthDecorators';
+import { Param } from '../src/core/decorators/ParamDecorators';
+import { JwtService } from '../src/auth/JwtService';
+import { UserRoleService } from '../src/auth/UserRoleService';
+import { AuthenticationErrorHandler } from '../src/auth/AuthenticationErrorHandler';
+import { AppError, ErrorCode } from '../src/utils/errorHandler';
+
+@Route('/orders')
+class OrdersController {
+    @GET('/:id')
+    @Auth()
+    async getOrder(@Param('id') id: string) {
+        if (id !== '1') {
+            throw new AppError(`Order ${id} not found`, ErrorCode.NOT_FOUND, 404);
+        }
+        return { id };
+    }
+}
+
+describe('AuthenticationMiddleware', () => {
+    const jwtService = new JwtService('test-secret');
+    let server: TestServer;
+    let token: string;
+
+    before(async () => {
+        token = jwtService.generateToken({ userId: 1, email: 'user@example.test', role: 'user' });
+        server = await startServer(router => {
+            router.registerHandler(OrdersController);
+        }, {}, {
+            jwtManager: jwtService,
+            userRoleService: new UserRoleService(),
+            authErrorHandler: new AuthenticationErrorHandler(silentLogger())
+        });
+    });
+
+    after(async () => {
+        await server?.close();
+    });
+
+    it('answers 401 without a token', async () => {
+        const response = await request(`${server.baseUrl}/orders/1`);
+
+        assert.equal(response.status, 401);
+    });
+
+    it('runs the handler for a valid token', async () => {
+        const response = await request(`${server.baseUrl}/orders/1`, {
+            headers: { Authorization: `Bearer ${token}` }
+        });
+
+        assert.equal(response.status, 200);
+        assert.deepEqual(JSON.parse(response.body).data, { id: '1' });
+    });
+
+    it('keeps errors thrown by the handler instead of turning them into 401', async () => {
+        const response = await request(`${server.baseUrl}/orders/2`, {
+            headers: { Authorization: `Bearer ${token}` }
+        });
+
+        assert.equal(response.status, 404);
+        assert.equal(JSON.parse(response.body).error, 'Order 2 not found');
+    });
+});
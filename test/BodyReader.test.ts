@@ -0,0 +1,247 @@
+/**
+ * BodyReader - size and time limits, parsing and streaming
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, request, TestServer } from './helpers/testServer';
+import { BodyReader, BodySource, BodyReaderOptions } from '../src/core/server/BodyReader';
+import { Route, POST } from '../src/core/decorators/RouteDecorators';
+import { Body } from '../src/core/decorators/ParamDecorators';
+import { MiddlewareContext } from '../src/middleware/MiddlewareContext';
+import { UWebSocketWrapper } from '../src/core/ServerWrapper';
+import { AppError } from '../src/utils/errorHandler';
+import { HttpHandlerUtils } from '../src/utils/handlers';
+
+/**
+ * Body source fed by the test - stands in for the uWS response
+ */
+class FakeBodySource implements BodySource {
+    paused = false;
+    private dataHandler?: (chunk: ArrayBuffer, isLast: boolean) => void;
+    private abortHandler?: () => void;
+
+    onData(callback: (chunk: ArrayBuffer, isLast: boolean) => void): void {
+        this.dataHandler = callback;
+    }
+
+    onAborted(callback: () => void): void {
+        this.abortHandler = callback;
+    }
+
+    send(text: string, isLast: boolean = true): void {
+        const bytes = Buffer.from(text);
+        this.dataHandler?.(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer, isLast);
+    }
+
+    abort(): void {
+        this.abortHandler?.();
+    }
+}
+
+/** Source that can hold the client, like uWS >= 20.24 */
+class PausableBodySource extends FakeBodySource {
+    pause(): void {
+        this.paused = true;
+    }
+
+    resume(): void {
+        this.paused = false;
+    }
+}
+
+@Route('/echo')
+class EchoController {
+    @POST()
+    async echo(@Body() body: Record<string, unknown>) {
+        return body;
+    }
+}
+
+let wrapper: UWebSocketWrapper;
+
+/** Reads the body with the helpers instead of @Body */
+@Route('/helpers')
+class BodyHelpersController {
+    @POST('/parse')
+    async parse(context: MiddlewareContext) {
+        return HttpHandlerUtils.parseRequestBody(context.req, context.res);
+    }
+
+    @POST('/text')
+    async text(context: MiddlewareContext) {
+        return { text: await wrapper.readBody(context.res) };
+    }
+}
+
+function createReader(source: BodySource, contentType: string, options: Partial<BodyReaderOptions> = {}): BodyReader {
+    return new BodyReader(source, contentType, { maxBodySize: 16, requestTimeoutMs: 1000, ...options });
+}
+
+async function rejectsWithStatus(promise: Promise<unknown>, statusCode: number): Promise<void> {
+    await assert.rejects(promise, (error: unknown) => {
+        assert.ok(error instanceof AppError);
+        assert.equal(error.statusCode, statusCode);
+        return true;
+    });
+}
+
+describe('BodyReader', () => {
+    it('parses a JSON body received in chunks, once for every reader', async () => {
+        const source = new FakeBodySource();
+        const reader = createReader(source, 'application/json');
+
+        source.send('{"name":', false);
+        source.send('"uw"}');
+
+        const first = await reader.parse();
+        assert.deepEqual(first, { name: 'uw' });
+        assert.equal(await reader.parse(), first);
+    });
+
+    it('rejects bodies past maxBodySize with 413', async () => {
+        const source = new FakeBodySource();
+        const reader = createReader(source, 'text/plain');
+
+        source.send('0123456789', false);
+        source.send('0123456789');
+
+        await rejectsWithStatus(reader.text(), 413);
+    });
+
+    it('rejects with 413 when the last chunk passes maxBodySize during a pending read', async () => {
+        const source = new FakeBodySource();
+        const reader = createReader(source, 'text/plain');
+
+        const pending = reader.text();
+        source.send('0123456789'.repeat(3));
+
+        await rejectsWithStatus(pending, 413);
+    });
+
+    it('accepts a body of exactly maxBodySize', async () => {
+        const source = new FakeBodySource();
+        const reader = createReader(source, 'text/plain');
+
+        source.send('0123456789abcdef');
+
+        assert.equal(await reader.text(), '0123456789abcdef');
+    });
+
+    it('pauses an oversized body until a stream reader takes it', async () => {
+        const source = new PausableBodySource();
+        const reader = createReader(source, 'application/octet-stream');
+
+        source.send('0123456789', false);
+        source.send('0123456789', false);
+
+        assert.equal(source.paused, true);
+        await rejectsWithStatus(reader.buffer(), 413);
+
+        const received: string[] = [];
+        reader.stream().onData((chunk) => received.push(Buffer.from(chunk).toString()));
+        assert.equal(source.paused, false);
+
+        source.send('!');
+        assert.deepEqual(received, ['0123456789', '0123456789', '!']);
+    });
+
+    it('fails with 408 when the body does not arrive in time', async () => {
+        const source = new FakeBodySource();
+        const reader = createReader(source, 'application/json', { requestTimeoutMs: 20 });
+
+        source.send('{"partial":', false);
+        // The read timer is unref'd - keep the process alive past it
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        await rejectsWithStatus(reader.parse(), 408);
+    });
+
+    it('answers 400 for invalid JSON and 415 for unknown content types', async () => {
+        const invalidSource = new FakeBodySource();
+        const invalid = createReader(invalidSource, 'application/json');
+        invalidSource.send('{nope');
+        await rejectsWithStatus(invalid.parse(), 400);
+
+        const unsupportedSource = new FakeBodySource();
+        const unsupported = createReader(unsupportedSource, 'application/x-unknown');
+        unsupportedSource.send('data');
+        await rejectsWithStatus(unsupported.parse(), 415);
+    });
+
+    it('rejects pending reads when the client aborts', async () => {
+        const source = new FakeBodySource();
+        const reader = createReader(source, 'text/plain');
+
+        source.send('partial', false);
+        const pending = reader.text();
+        source.abort();
+
+        await assert.rejects(pending, /Request aborted/);
+    });
+});
+
+describe('BodyReader over HTTP', () => {
+    let server: TestServer;
+
+    before(async () => {
+        server = await startServer((router, serverWrapper) => {
+            wrapper = serverWrapper;
+            router.registerHandler(EchoController);
+            router.registerHandler(BodyHelpersController);
+        }, { requestOptions: { maxBodySize: 64 } });
+    });
+
+    after(async () => {
+        await server?.close();
+    });
+
+    it('hands bodies within the limit to the handler', async () => {
+        const response = await request(`${server.baseUrl}/echo`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name: 'uw' })
+        });
+
+        assert.equal(response.status, 200);
+        assert.deepEqual(JSON.parse(response.body).data, { name: 'uw' });
+    });
+
+    it('answers 413 past server.maxBodySize', async () => {
+        const response = await request(`${server.baseUrl}/echo`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name: 'x'.repeat(100) })
+        });
+
+        assert.equal(response.status, 413);
+    });
+
+    it('reads the body through the request reader from the helpers too', async () => {
+        const parsed = await request(`${server.baseUrl}/helpers/parse`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name: 'uw' })
+        });
+        const text = await request(`${server.baseUrl}/helpers/text`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'text/plain' },
+            body: 'hello'
+        });
+
+        assert.equal(parsed.status, 200);
+        assert.deepEqual(JSON.parse(parsed.body).data, { name: 'uw' });
+        assert.equal(text.status, 200);
+        assert.deepEqual(JSON.parse(text.body).data, { text: 'hello' });
+    });
+
+    it('applies server.maxBodySize to the helpers', async () => {
+        const response = await request(`${server.baseUrl}/helpers/parse`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name: 'x'.repeat(100) })
+        });
+
+        assert.equal(response.status, 413);
+    });
+});
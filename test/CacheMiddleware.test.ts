@@ -0,0 +1,128 @@
+/**
+ * @Cache routes - stored responses, conditional requests and per-request headers
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, request, TestServer } from './helpers/testServer';
+import { Route, GET } from '../src/core/decorators/RouteDecorators';
+import { Cache } from '../src/core/decorators/MiddlewareDecorators';
+import { Param } from '../src/core/decorators/ParamDecorators';
+import { CacheManager } from '../src/core/cache/CacheManager';
+
+let handlerCalls = 0;
+
+@Route('/products')
+class ProductsController {
+    @GET('/:id')
+    @Cache(60, 'product-:id')
+    async getProduct(@Param('id') id: string) {
+        handlerCalls++;
+        return { id, calls: handlerCalls };
+    }
+
+    @GET('/:id/reviews')
+    @Cache(60)
+    async getReviews(@Param('id') id: string) {
+        handlerCalls++;
+        return { id, reviews: [] };
+    }
+}
+
+describe('CacheMiddleware', () => {
+    let server: TestServer;
+    let cacheManager: CacheManager;
+
+    before(async () => {
+        cacheManager = new CacheManager();
+        server = await startServer(router => {
+            router.registerHandler(ProductsController);
+        }, {}, {
+            cacheManager,
+            corsOptions: { origin: ['https://a.example.test', 'https://b.example.test'] }
+        });
+    });
+
+    after(async () => {
+        await server?.close();
+    });
+
+    beforeEach(async () => {
+        handlerCalls = 0;
+        await cacheManager.clear();
+    });
+
+    it('stores the first response and replays it', async () => {
+        const miss = await request(`${server.baseUrl}/products/1`);
+        const hit = await request(`${server.baseUrl}/products/1`);
+
+        assert.equal(miss.headers['x-cache'], 'MISS');
+        assert.equal(hit.headers['x-cache'], 'HIT');
+        assert.equal(hit.status, 200);
+        assert.equal(hit.body, miss.body);
+        assert.equal(hit.headers.etag, miss.headers.etag);
+        assert.equal(hit.headers['cache-control']?.startsWith('public, max-age='), true);
+        assert.equal(handlerCalls, 1);
+    });
+
+    it('keys entries by path parameter and query string', async () => {
+        await request(`${server.baseUrl}/products/1`);
+        const otherId = await request(`${server.baseUrl}/products/2`);
+        const otherQuery = await request(`${server.baseUrl}/products/1?variant=blue`);
+
+        assert.equal(otherId.headers['x-cache'], 'MISS');
+        assert.equal(otherQuery.headers['x-cache'], 'MISS');
+        assert.equal(handlerCalls, 3);
+    });
+
+    it('keys entries by path parameter without an explicit key', async () => {
+        const first = await request(`${server.baseUrl}/products/1/reviews`);
+        const other = await request(`${server.baseUrl}/products/2/reviews`);
+        const repeated = await request(`${server.baseUrl}/products/2/reviews`);
+
+        assert.equal(first.headers['x-cache'], 'MISS');
+        assert.equal(other.headers['x-cache'], 'MISS');
+        assert.equal(JSON.parse(other.body).data.id, '2');
+        assert.equal(repeated.headers['x-cache'], 'HIT');
+        assert.equal(handlerCalls, 2);
+    });
+
+    it('answers 304 to a matching If-None-Match', async () => {
+        const first = await request(`${server.baseUrl}/products/1`);
+        const conditional = await request(`${server.baseUrl}/products/1`, {
+            headers: { 'If-None-Match': first.headers.etag as string }
+        });
+
+        assert.equal(conditional.status, 304);
+        assert.equal(conditional.body, '');
+        assert.equal(conditional.headers.etag, first.headers.etag);
+    });
+
+    it('writes CORS headers for the current origin on cached responses and 304s', async () => {
+        const first = await request(`${server.baseUrl}/products/1`, {
+            headers: { Origin: 'https://a.example.test' }
+        });
+        const hit = await request(`${server.baseUrl}/products/1`, {
+            headers: { Origin: 'https://b.example.test' }
+        });
+        const notModified = await request(`${server.baseUrl}/products/1`, {
+            headers: { Origin: 'https://b.example.test', 'If-None-Match': first.headers.etag as string }
+        });
+
+        assert.equal(first.headers['access-control-allow-origin'], 'https://a.example.test');
+        assert.equal(hit.headers['x-cache'], 'HIT');
+        assert.equal(hit.headers['access-control-allow-origin'], 'https://b.example.test');
+        assert.equal(notModified.status, 304);
+        assert.equal(notModified.headers['access-control-allow-origin'], 'https://b.example.test');
+    });
+
+    it('bypasses the cache for authenticated requests', async () => {
+        await request(`${server.baseUrl}/products/1`);
+        const authenticated = await request(`${server.baseUrl}/products/1`, {
+            headers: { Authorization: 'Bearer token' }
+        });
+
+        assert.equal(authenticated.headers['x-cache'], undefined);
+        assert.equal(handlerCalls, 2);
+    });
+});
@@ -0,0 +1,66 @@
+/**
+ * Router fallbacks over a real uWS server - 404 for unknown paths, 405 with Allow
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, request, silentLogger, TestServer } from './helpers/testServer';
+import { Route, GET, POST } from '../src/core/decorators/RouteDecorators';
+import { DefaultNotFoundHandler, DefaultMethodNotAllowedHandler } from '../src/core/routing/FallbackHandlers';
+import { ErrorHandler } from '../src/utils/errorHandler';
+
+@Route('/items')
+class ItemsController {
+    @GET('/:id')
+    async getItem() {
+        return { found: true };
+    }
+
+    @POST('/:id')
+    async updateItem() {
+        return { updated: true };
+    }
+}
+
+describe('Fallback handlers', () => {
+    let server: TestServer;
+    let errorHandler: ErrorHandler;
+
+    before(async () => {
+        errorHandler = new ErrorHandler(silentLogger(), true);
+
+        server = await startServer(router => {
+            router.registerHandler(ItemsController);
+            router.registerFallbackHandlers(
+                new DefaultNotFoundHandler(errorHandler),
+                new DefaultMethodNotAllowedHandler(errorHandler)
+            );
+        });
+    });
+
+    after(async () => {
+        await server?.close();
+    });
+
+    it('answers 404 for unknown paths', async () => {
+        const response = await request(`${server.baseUrl}/unknown`);
+
+        assert.equal(response.status, 404);
+        assert.equal(JSON.parse(response.body).error, 'Route GET /unknown not found');
+    });
+
+    it('answers 405 with the allowed methods for known paths', async () => {
+        const response = await request(`${server.baseUrl}/items/42`, { method: 'DELETE' });
+
+        assert.equal(response.status, 405);
+        assert.deepEqual(response.headers.allow?.split(', ').sort(), ['GET', 'HEAD', 'OPTIONS', 'POST']);
+    });
+
+    it('keeps fallbacks out of the error metrics', async () => {
+        errorHandler.clearErrorMetrics();
+        await request(`${server.baseUrl}/unknown`);
+        await request(`${server.baseUrl}/items/42`, { method: 'DELETE' });
+
+        assert.equal(errorHandler.getErrorMetrics().size, 0);
+    });
+});
@@ -0,0 +1,90 @@
+/**
+ * Graceful shutdown - in-flight requests finish, new ones are turned away
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { startServer, request, TestServer } from './helpers/testServer';
+import { Route, GET } from '../src/core/decorators/RouteDecorators';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+@Route('/work')
+class WorkController {
+    @GET('/quick')
+    async quick() {
+        return { done: true };
+    }
+
+    @GET('/slow')
+    async slow() {
+        await delay(150);
+        return { done: true };
+    }
+}
+
+/**
+ * GET over a keep-alive agent, so a second request reuses the connection
+ */
+function keepAliveRequest(url: string, agent: http.Agent): Promise<{ status: number; connection?: string }> {
+    return new Promise((resolve, reject) => {
+        http.get(url, { agent }, (res) => {
+            res.resume();
+            res.on('end', () => resolve({ status: res.statusCode || 0, connection: res.headers.connection }));
+        }).on('error', reject);
+    });
+}
+
+describe('Graceful shutdown', () => {
+    let server: TestServer;
+
+    afterEach(async () => {
+        await server?.close();
+    });
+
+    it('lets in-flight requests finish before stop() resolves', async () => {
+        server = await startServer(router => router.registerHandler(WorkController));
+
+        const inFlight = request(`${server.baseUrl}/work/slow`);
+        await delay(30);
+        assert.equal(server.wrapper.getInFlightRequestCount(), 1);
+
+        const stopped = server.wrapper.stop(1000);
+        const response = await inFlight;
+        await stopped;
+
+        assert.equal(response.status, 200);
+        assert.equal(server.wrapper.getInFlightRequestCount(), 0);
+        await assert.rejects(request(`${server.baseUrl}/work/quick`), /ECONNREFUSED/);
+    });
+
+    it('answers 503 with Connection: close on connections open while draining', async () => {
+        server = await startServer(router => router.registerHandler(WorkController));
+        const agent = new http.Agent({ keepAlive: true, maxSockets: 1 });
+
+        try {
+            assert.equal((await keepAliveRequest(`${server.baseUrl}/work/quick`, agent)).status, 200);
+            await server.wrapper.stopAccepting();
+
+            const rejected = await keepAliveRequest(`${server.baseUrl}/work/quick`, agent);
+            assert.equal(rejected.status, 503);
+            assert.equal(rejected.connection, 'close');
+            assert.equal(server.wrapper.isDraining(), true);
+        } finally {
+            agent.destroy();
+        }
+    });
+
+    it('reports a drain that times out', async () => {
+        server = await startServer(router => router.registerHandler(WorkController));
+
+        const inFlight = request(`${server.baseUrl}/work/slow`);
+        await delay(30);
+        await server.wrapper.stopAccepting();
+
+        assert.equal(await server.wrapper.drain(20), false);
+        assert.equal((await inFlight).status, 200);
+        assert.equal(await server.wrapper.drain(100), true);
+    });
+});
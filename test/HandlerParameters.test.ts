@@ -0,0 +1,125 @@
+/**
+ * Handler parameter decorators - argument sources, conversion, per-parameter validation and return values
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, request, silentLogger, TestServer } from './helpers/testServer';
+import { Route, GET, POST } from '../src/core/decorators/RouteDecorators';
+import { Param, Query, Body, Headers, CurrentUser, Ctx } from '../src/core/decorators/ParamDecorators';
+import { ValidateQuery, ValidateBody } from '../src/core/decorators/ValidationDecorators';
+import { Auth } from '../src/core/decorators/AuthDecorators';
+import { MiddlewareContext } from '../src/middleware/MiddlewareContext';
+import { JwtService } from '../src/auth/JwtService';
+import { UserRoleService, User } from '../src/auth/UserRoleService';
+import { AuthenticationErrorHandler } from '../src/auth/AuthenticationErrorHandler';
+
+@Route('/accounts')
+class AccountsController {
+    @GET('/me')
+    @Auth()
+    async me(@CurrentUser() user: User, @CurrentUser('email') email: string) {
+        return { email, sameUser: user.email === email };
+    }
+
+    @GET('/:id')
+    @ValidateQuery({ properties: { page: { type: 'number', minimum: 1 } } })
+    async getAccount(
+        @Param('id') id: number,
+        @Query('page') page: number,
+        @Headers('X-Tenant') tenant: string,
+        @Ctx() context: MiddlewareContext
+    ) {
+        return { id, page, tenant, idType: typeof context.params?.id };
+    }
+
+    @GET('/:id/ping')
+    async ping() {
+        return undefined;
+    }
+
+    @POST()
+    @ValidateBody({ required: ['email'], properties: { email: { type: 'string', format: 'email' } } })
+    async create(@Body() data: Record<string, unknown>, @Body('email') email: string) {
+        return { email, fields: Object.keys(data) };
+    }
+}
+
+describe('Handler parameters', () => {
+    const jwtService = new JwtService('test-secret');
+    let server: TestServer;
+
+    const data = async (path: string, headers: Record<string, string> = {}) => {
+        const response = await request(`${server.baseUrl}${path}`, { headers });
+        return { status: response.status, data: response.body ? JSON.parse(response.body).data : undefined };
+    };
+
+    const post = (body: unknown) => request(`${server.baseUrl}/accounts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+    });
+
+    before(async () => {
+        server = await startServer(router => {
+            router.registerHandler(AccountsController);
+        }, {}, {
+            jwtManager: jwtService,
+            userRoleService: new UserRoleService(),
+            authErrorHandler: new AuthenticationErrorHandler(silentLogger())
+        });
+    });
+
+    after(async () => {
+        await server?.close();
+    });
+
+    it('passes path, query and header values converted to their declared types', async () => {
+        assert.deepEqual(await data('/accounts/7?page=2', { 'X-Tenant': 'acme' }), {
+            status: 200,
+            data: { id: 7, page: 2, tenant: 'acme', idType: 'number' }
+        });
+    });
+
+    it('leaves a missing query value undefined', async () => {
+        assert.deepEqual(await data('/accounts/7'), { status: 200, data: { id: 7, idType: 'number' } });
+    });
+
+    it('answers 400 for values that do not convert or fail the route schema', async () => {
+        const notNumeric = await request(`${server.baseUrl}/accounts/abc`);
+        const belowMinimum = await request(`${server.baseUrl}/accounts/7?page=0`);
+
+        assert.equal(notNumeric.status, 400);
+        assert.match(JSON.parse(notNumeric.body).error, /param 'id'/);
+        assert.equal(belowMinimum.status, 400);
+        assert.match(belowMinimum.body, /Field 'page' must be at least 1/);
+    });
+
+    it('validates the body before passing it and its fields', async () => {
+        const created = await post({ email: 'user@example.test', name: 'User' });
+        const missing = await post({ name: 'User' });
+        const invalid = await post({ email: 'not-an-email' });
+
+        assert.equal(created.status, 200);
+        assert.deepEqual(JSON.parse(created.body).data, { email: 'user@example.test', fields: ['email', 'name'] });
+        assert.equal(missing.status, 400);
+        assert.equal(invalid.status, 400);
+        assert.match(invalid.body, /Field 'email' must be a valid email address/);
+    });
+
+    it('passes the authenticated user', async () => {
+        const token = jwtService.generateToken({ userId: 1, email: 'user@example.test', role: 'user' });
+
+        assert.deepEqual(await data('/accounts/me', { Authorization: `Bearer ${token}` }), {
+            status: 200,
+            data: { email: 'user@example.test', sameUser: true }
+        });
+    });
+
+    it('answers 204 when the handler returns undefined', async () => {
+        const response = await request(`${server.baseUrl}/accounts/7/ping`);
+
+        assert.equal(response.status, 204);
+        assert.equal(response.body, '');
+    });
+});
@@ -0,0 +1,97 @@
+/**
+ * HealthCheckService and the /health endpoints
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, request, TestServer } from './helpers/testServer';
+import { HealthCheckService, HealthCheckResult } from '../src/core/health/HealthCheckService';
+import { HealthController } from '../src/core/health/HealthController';
+
+const up = (): HealthCheckResult => ({ status: 'up' });
+const down = (): HealthCheckResult => ({ status: 'down', message: 'unreachable' });
+
+describe('HealthCheckService', () => {
+    it('is up when every check is up', async () => {
+        const service = new HealthCheckService()
+            .register({ name: 'database', check: up })
+            .register({ name: 'cache', check: up });
+
+        const report = await service.checkReadiness();
+
+        assert.equal(report.status, 'up');
+        assert.deepEqual(Object.keys(report.checks), ['database', 'cache']);
+        assert.equal(service.getStatusCode(report), 200);
+    });
+
+    it('is degraded by a non-critical check and down by a critical one', async () => {
+        const service = new HealthCheckService().register({ name: 'cache', critical: false, check: down });
+
+        const degraded = await service.checkReadiness();
+        assert.equal(degraded.status, 'degraded');
+        assert.equal(service.getStatusCode(degraded), 200);
+
+        service.register({ name: 'database', check: down });
+        const failing = await service.checkReadiness();
+        assert.equal(failing.status, 'down');
+        assert.equal(failing.checks.database.message, 'unreachable');
+        assert.equal(service.getStatusCode(failing), 503);
+    });
+
+    it('counts throwing and slow checks as down', async () => {
+        const service = new HealthCheckService(undefined, { defaultTimeoutMs: 20 })
+            .register({ name: 'throws', check: () => { throw new Error('boom'); } })
+            .register({ name: 'slow', check: () => new Promise<HealthCheckResult>(resolve => setTimeout(() => resolve({ status: 'up' }), 100)) });
+
+        const report = await service.checkReadiness();
+
+        assert.equal(report.checks.throws.message, 'boom');
+        assert.equal(report.checks.slow.status, 'down');
+        assert.match(report.checks.slow.message || '', /Timed out after 20ms/);
+    });
+
+    it('runs each check on its probes only', async () => {
+        const service = new HealthCheckService()
+            .register({ name: 'event-loop', probes: ['liveness'], check: up })
+            .register({ name: 'database', check: down });
+
+        const liveness = await service.checkLiveness();
+
+        assert.equal(liveness.status, 'up');
+        assert.deepEqual(Object.keys(liveness.checks), ['event-loop']);
+    });
+});
+
+describe('HealthController', () => {
+    const service = new HealthCheckService();
+    let server: TestServer;
+
+    before(async () => {
+        server = await startServer(router => {
+            router.registerHandler(HealthController, new HealthController(service));
+        });
+    });
+
+    after(async () => {
+        await server?.close();
+    });
+
+    it('answers 200 with the report while the probe is up', async () => {
+        service.register({ name: 'database', check: up });
+        const response = await request(`${server.baseUrl}/health/ready`);
+
+        assert.equal(response.status, 200);
+        assert.equal(response.headers['cache-control'], 'no-store');
+        assert.equal(JSON.parse(response.body).status, 'up');
+    });
+
+    it('answers 503 once a critical check is down', async () => {
+        service.register({ name: 'database', check: down });
+        const response = await request(`${server.baseUrl}/health`);
+        const liveness = await request(`${server.baseUrl}/health/live`);
+
+        assert.equal(response.status, 503);
+        assert.equal(JSON.parse(response.body).checks.database.status, 'down');
+        assert.equal(liveness.status, 200);
+    });
+});
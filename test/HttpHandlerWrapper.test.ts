@@ -0,0 +1,77 @@
+/**
+ * HttpHandlerWrapper - abort handling next to the ResponseRecorder
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as uWS from 'uWebSockets.js';
+import { silentLogger } from './helpers/testServer';
+import { HttpHandlerWrapper } from '../src/core/server/HttpHandlerWrapper';
+import { ResponseRecorder } from '../src/middleware/ResponseRecorder';
+import { ErrorHandler } from '../src/utils/errorHandler';
+
+/**
+ * Response keeping a single abort handler, like uWS
+ */
+class FakeResponse {
+    written: string[] = [];
+    private abortHandler?: () => void;
+
+    onAborted(handler: () => void): void {
+        this.abortHandler = handler;
+    }
+
+    abort(): void {
+        this.abortHandler?.();
+    }
+
+    cork(callback: () => void): void {
+        callback();
+    }
+
+    writeStatus(status: string): this {
+        this.written.push(status);
+        return this;
+    }
+
+    writeHeader(): this {
+        return this;
+    }
+
+    end(): void {}
+}
+
+const fakeRequest = {
+    getUrl: () => '/slow',
+    getMethod: () => 'get',
+    getHeader: () => ''
+} as unknown as uWS.HttpRequest;
+
+describe('HttpHandlerWrapper', () => {
+    it('keeps its abort handler when the handler wraps the response in a ResponseRecorder', async () => {
+        const logger = silentLogger();
+        const warnings: string[] = [];
+        logger.warn = (message: string) => {
+            warnings.push(message);
+        };
+        const wrapper = new HttpHandlerWrapper(logger, new ErrorHandler(logger, true), {
+            enableLogging: true,
+            timeoutMs: 20
+        });
+        const res = new FakeResponse();
+        let recorder!: ResponseRecorder;
+
+        const handled = wrapper.wrapHandler(async (_req, response) => {
+            recorder = new ResponseRecorder(response);
+            await new Promise(resolve => setTimeout(resolve, 50));
+        })(fakeRequest, res as unknown as uWS.HttpResponse);
+
+        res.abort();
+        await handled;
+
+        assert.equal(recorder.isAborted(), true);
+        assert.deepEqual(warnings, ['Request aborted']);
+        // The aborted flag stops the timeout from writing to the closed response
+        assert.deepEqual(res.written, []);
+    });
+});
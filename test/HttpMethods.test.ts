@@ -0,0 +1,84 @@
+/**
+ * Native HTTP methods over a real uWS server - PATCH, ANY, HEAD and OPTIONS
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, request, TestServer } from './helpers/testServer';
+import { Route, GET, PATCH, ANY } from '../src/core/decorators/RouteDecorators';
+import { MiddlewareContext } from '../src/middleware/MiddlewareContext';
+
+let handlerCalls = 0;
+
+@Route('/items')
+class ItemsController {
+    @GET('/:id')
+    async getItem(context: MiddlewareContext) {
+        handlerCalls++;
+        context.res
+            .writeStatus('201 Created')
+            .writeHeader('Content-Type', 'application/json')
+            .end(JSON.stringify({ id: context.params?.id }));
+    }
+
+    @PATCH('/:id')
+    async patchItem(context: MiddlewareContext) {
+        return { patched: context.params?.id };
+    }
+
+    @ANY('/any/echo')
+    async echoMethod(context: MiddlewareContext) {
+        return { method: context.method };
+    }
+}
+
+describe('HTTP methods', () => {
+    let server: TestServer;
+
+    before(async () => {
+        server = await startServer(router => {
+            router.registerHandler(ItemsController);
+        });
+    });
+
+    after(async () => {
+        await server?.close();
+    });
+
+    it('routes PATCH natively', async () => {
+        const response = await request(`${server.baseUrl}/items/7`, { method: 'PATCH' });
+
+        assert.equal(response.status, 200);
+        assert.deepEqual(JSON.parse(response.body).data, { patched: '7' });
+    });
+
+    it('routes every method to an ANY route', async () => {
+        for (const method of ['GET', 'PUT', 'DELETE']) {
+            const response = await request(`${server.baseUrl}/items/any/echo`, { method });
+
+            assert.equal(response.status, 200);
+            assert.equal(JSON.parse(response.body).data.method.toUpperCase(), method);
+        }
+    });
+
+    it('answers HEAD from the GET route without a body', async () => {
+        const get = await request(`${server.baseUrl}/items/42`);
+        const head = await request(`${server.baseUrl}/items/42`, { method: 'HEAD' });
+
+        assert.equal(head.status, 201);
+        assert.equal(head.body, '');
+        assert.equal(head.headers['content-type'], get.headers['content-type']);
+    });
+
+    it('answers CORS preflight requests without running the handler', async () => {
+        handlerCalls = 0;
+        const response = await request(`${server.baseUrl}/items/42`, {
+            method: 'OPTIONS',
+            headers: { Origin: 'https://app.example.test', 'Access-Control-Request-Method': 'POST' }
+        });
+
+        assert.equal(response.status, 204);
+        assert.equal(response.headers['access-control-allow-origin'], '*');
+        assert.equal(handlerCalls, 0);
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * Constructor injection - design types, @Inject tokens, @Optional and @InjectAll
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AutoRegistration, Service } from '../src/core/AutoRegistration';
+import { Inject, Optional, InjectAll } from '../src/core/decorators/InjectDecorators';
+import { Container, ServiceNotFoundError } from '../src/core/container/Container';
+
+interface Settings {
+    greeting: string;
+}
+
+const SETTINGS = Symbol.for('Settings');
+
+@Service()
+class Clock {
+    now(): string {
+        return '12:00';
+    }
+}
+
+class AuditLog {
+    entries: string[] = [];
+}
+
+@Service()
+class Greeter {
+    constructor(
+        readonly clock: Clock,
+        @Inject(SETTINGS) readonly settings: Settings,
+        @Optional() readonly audit?: AuditLog,
+        @InjectAll('plugin') readonly plugins: string[] = []
+    ) {}
+}
+
+@Service()
+class Misconfigured {
+    constructor(readonly settings: Settings) {}
+}
+
+describe('Constructor injection', () => {
+    let container: Container;
+
+    before(async () => {
+        container = new Container();
+        container.registerInstance(SETTINGS, { greeting: 'hello' });
+        container.register({ identifier: 'plugin:a', factory: () => 'a', scope: 'singleton', tags: ['plugin'] });
+        container.register({ identifier: 'plugin:b', factory: () => 'b', scope: 'singleton', tags: ['plugin'] });
+
+        await AutoRegistration.autoRegister(container);
+    });
+
+    after(() => {
+        AutoRegistration.clearRegistrations();
+    });
+
+    it('injects class-typed parameters from their emitted design type', () => {
+        const greeter = container.resolve<Greeter>('Greeter');
+
+        assert.ok(greeter.clock instanceof Clock);
+        assert.equal(greeter.clock, container.resolve('Clock'));
+    });
+
+    it('resolves @Inject parameters by token', () => {
+        assert.deepEqual(container.resolve<Greeter>('Greeter').settings, { greeting: 'hello' });
+    });
+
+    it('injects undefined for unregistered @Optional parameters', () => {
+        assert.equal(container.resolve<Greeter>('Greeter').audit, undefined);
+    });
+
+    it('injects every service with the tag for @InjectAll', () => {
+        assert.deepEqual(container.resolve<Greeter>('Greeter').plugins, ['a', 'b']);
+    });
+
+    it('names the consumer and parameter of an interface without @Inject', () => {
+        assert.throws(() => container.resolve('Misconfigured'), (error: unknown) => {
+            assert.ok(error instanceof ServiceNotFoundError);
+            assert.match(error.message, /parameter #0 of Misconfigured/);
+            assert.match(error.message, /need @Inject\(token\)/);
+            return true;
+        });
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * LifecycleManager - onInit / onReady / onShutdown in dependency order
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LifecycleManager } from '../src/core/lifecycle/LifecycleManager';
+import { Container } from '../src/core/container/Container';
+import { silentLogger } from './helpers/testServer';
+
+/**
+ * Service recording its hooks in a shared list
+ */
+class RecordingService {
+    constructor(private name: string, private calls: string[]) {}
+
+    onInit(): void {
+        this.calls.push(`${this.name}:init`);
+    }
+
+    onReady(): void {
+        this.calls.push(`${this.name}:ready`);
+    }
+
+    onShutdown(signal?: string): void {
+        this.calls.push(`${this.name}:shutdown:${signal}`);
+    }
+}
+
+describe('LifecycleManager', () => {
+    it('runs init and ready in dependency order and shutdown in reverse', async () => {
+        const calls: string[] = [];
+        const container = new Container();
+        container.registerSingleton('database', () => new RecordingService('database', calls));
+        container.registerSingleton('repository', (resolver) => {
+            resolver.resolve('database');
+            return new RecordingService('repository', calls);
+        });
+        container.resolve('repository');
+
+        const lifecycle = new LifecycleManager(container, silentLogger());
+        await lifecycle.init();
+        await lifecycle.ready();
+        await lifecycle.shutdown('SIGTERM');
+
+        assert.deepEqual(calls, [
+            'database:init',
+            'repository:init',
+            'database:ready',
+            'repository:ready',
+            'repository:shutdown:SIGTERM',
+            'database:shutdown:SIGTERM'
+        ]);
+    });
+
+    it('initializes singletons created later and makes them ready', async () => {
+        const calls: string[] = [];
+        const container = new Container();
+        container.registerSingleton('lazy', () => new RecordingService('lazy', calls));
+
+        const lifecycle = new LifecycleManager(container, silentLogger());
+        await lifecycle.init();
+        await lifecycle.ready();
+        container.resolve('lazy');
+        await new Promise(resolve => setImmediate(resolve));
+
+        assert.deepEqual(calls, ['lazy:init', 'lazy:ready']);
+    });
+
+    it('aborts startup when a hook fails or times out', async () => {
+        const failing = new Container();
+        failing.registerInstance('broken', { onInit: () => { throw new Error('no connection'); } });
+        await assert.rejects(new LifecycleManager(failing).init(), /no connection/);
+
+        const slow = new Container();
+        slow.registerInstance('slow', { onInit: () => new Promise<void>(resolve => setTimeout(resolve, 200)) });
+        await assert.rejects(new LifecycleManager(slow, undefined, { hookTimeoutMs: 20 }).init(), /onInit\(\) timed out after 20ms/);
+    });
+
+    it('attempts every shutdown hook once, even after a failure', async () => {
+        const calls: string[] = [];
+        const container = new Container();
+        container.registerInstance('first', new RecordingService('first', calls));
+        container.registerInstance('failing', { onShutdown: () => { throw new Error('stuck'); } });
+
+        const lifecycle = new LifecycleManager(container, silentLogger());
+        await lifecycle.init();
+        await lifecycle.shutdown();
+        await lifecycle.shutdown();
+
+        assert.deepEqual(calls, ['first:init', 'first:shutdown:undefined']);
+    });
+});
@@ -0,0 +1,147 @@
+/**
+ * Logger - levels, JSON records, child bindings and file rotation
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Logger, LogRecord, createLogger } from '../src/utils/logger';
+import { LogTransport, FileTransport } from '../src/utils/logTransports';
+
+/**
+ * Transport keeping the lines in memory
+ */
+class MemoryTransport implements LogTransport {
+    lines: string[] = [];
+    records: LogRecord[] = [];
+
+    constructor(public level?: LogTransport['level']) {}
+
+    write(line: string, record: LogRecord): void {
+        this.lines.push(line);
+        this.records.push(record);
+    }
+}
+
+describe('Logger', () => {
+    it('drops records below the level, also after setLevel', () => {
+        const transport = new MemoryTransport();
+        const logger = new Logger({ level: 'warn', transports: [transport] });
+
+        logger.info('skipped');
+        logger.warn('kept');
+        logger.setLevel('debug');
+        logger.debug('now kept');
+
+        assert.deepEqual(transport.records.map(record => record.message), ['kept', 'now kept']);
+        assert.equal(logger.getLevel(), 'debug');
+    });
+
+    it('writes one JSON object per line with bound and call fields', () => {
+        const transport = new MemoryTransport();
+        const logger = new Logger({ format: 'json', transports: [transport], bindings: { service: 'api' } });
+
+        logger.child({ requestId: 'req_1' }).info('User loaded', { userId: 7 });
+
+        const line = JSON.parse(transport.lines[0]);
+        assert.equal(line.level, 'INFO');
+        assert.equal(line.message, 'User loaded');
+        assert.deepEqual([line.service, line.requestId, line.userId], ['api', 'req_1', 7]);
+    });
+
+    it('shares level and transports between a logger and its children', () => {
+        const transport = new MemoryTransport();
+        const logger = new Logger({ transports: [transport] });
+        const child = logger.child({ component: 'router' });
+
+        logger.setLevel('error');
+        child.warn('dropped');
+        child.error('kept');
+
+        assert.deepEqual(transport.records.map(record => record.fields.component), ['router']);
+    });
+
+    it('applies the level of each transport', () => {
+        const all = new MemoryTransport();
+        const errorsOnly = new MemoryTransport('error');
+        const logger = new Logger({ level: 'debug', transports: [all, errorsOnly] });
+
+        logger.info('info');
+        logger.error('error');
+
+        assert.equal(all.lines.length, 2);
+        assert.deepEqual(errorsOnly.records.map(record => record.message), ['error']);
+    });
+
+    it('keeps message and stack of logged errors, and survives circular meta', () => {
+        const transport = new MemoryTransport();
+        const logger = new Logger({ format: 'json', transports: [transport] });
+        const circular: Record<string, unknown> = { name: 'loop' };
+        circular.self = circular;
+
+        logger.error('Failed', new Error('boom'));
+        logger.info('Circular', { circular });
+
+        const error = JSON.parse(transport.lines[0]).error;
+        assert.equal(error.message, 'boom');
+        assert.match(error.stack, /Error: boom/);
+        assert.equal(JSON.parse(transport.lines[1]).circular.self, '[Circular]');
+    });
+
+    it('writes nowhere when logging is disabled', () => {
+        const logger = createLogger({ enabled: false, output: 'console' });
+        const original = console.log;
+        const written: unknown[] = [];
+        console.log = (...args: unknown[]) => { written.push(args); };
+
+        try {
+            logger.info('hidden');
+        } finally {
+            console.log = original;
+        }
+
+        assert.deepEqual(written, []);
+    });
+});
+
+describe('FileTransport', () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'uwrap-logs-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('buffers lines until flushed', async () => {
+        const filePath = path.join(directory, 'app.log');
+        const transport = new FileTransport({ filePath });
+
+        transport.write('first');
+        transport.write('second');
+        assert.equal(fs.existsSync(filePath), false);
+
+        await transport.close();
+        assert.equal(fs.readFileSync(filePath, 'utf8'), 'first\nsecond\n');
+    });
+
+    it('rotates past maxSize and keeps maxFiles archives', async () => {
+        const filePath = path.join(directory, 'app.log');
+        const transport = new FileTransport({ filePath, rotation: { maxSize: 10, maxFiles: 2 } });
+
+        for (const line of ['line-1', 'line-2', 'line-3', 'line-4']) {
+            transport.write(line);
+            await transport.flush();
+        }
+        await transport.close();
+
+        const files = fs.readdirSync(directory).sort();
+        assert.equal(files.length, 3);
+        assert.ok(files.includes('app.log'));
+        assert.equal(fs.readFileSync(filePath, 'utf8'), 'line-4\n');
+    });
+});
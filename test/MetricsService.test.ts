@@ -0,0 +1,98 @@
+/**
+ * MetricsService - Prometheus text exposition, HTTP request metrics and the scrape endpoint
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, request, TestServer } from './helpers/testServer';
+import { MetricsService, PROMETHEUS_CONTENT_TYPE } from '../src/core/metrics/MetricsService';
+import { createMetricsController } from '../src/core/metrics/MetricsController';
+import { Route, GET } from '../src/core/decorators/RouteDecorators';
+import { Param } from '../src/core/decorators/ParamDecorators';
+
+@Route('/users')
+class UsersController {
+    @GET('/:id')
+    async getUser(@Param('id') id: string) {
+        return { id };
+    }
+}
+
+describe('MetricsService', () => {
+    it('renders counters and gauges with their help, type and labels', () => {
+        const service = new MetricsService();
+        const jobs = service.createCounter({ name: 'jobs_total', help: 'Jobs run', labelNames: ['queue'] });
+        const depth = service.createGauge({ name: 'queue_depth', help: 'Queued jobs' });
+
+        jobs.inc({ queue: 'mail "fast"' });
+        jobs.inc({ queue: 'mail "fast"' }, 2);
+        depth.set(undefined, 5);
+        depth.dec();
+
+        const text = service.render();
+        assert.match(text, /# HELP jobs_total Jobs run\n# TYPE jobs_total counter\njobs_total\{queue="mail \\"fast\\""\} 3/);
+        assert.match(text, /# TYPE queue_depth gauge\nqueue_depth 4/);
+    });
+
+    it('renders histograms as cumulative buckets with sum and count', () => {
+        const service = new MetricsService();
+        const sizes = service.createHistogram({ name: 'payload_bytes', help: 'Payload sizes', buckets: [10, 100] });
+
+        sizes.observe(undefined, 5);
+        sizes.observe(undefined, 50);
+        sizes.observe(undefined, 500);
+
+        const lines = service.render().split('\n');
+        assert.ok(lines.includes('payload_bytes_bucket{le="10"} 1'));
+        assert.ok(lines.includes('payload_bytes_bucket{le="100"} 2'));
+        assert.ok(lines.includes('payload_bytes_bucket{le="+Inf"} 3'));
+        assert.ok(lines.includes('payload_bytes_sum 555'));
+        assert.ok(lines.includes('payload_bytes_count 3'));
+    });
+
+    it('returns the existing metric for a known name and refuses another type', () => {
+        const service = new MetricsService(undefined, { prefix: 'app_' });
+        const first = service.createCounter({ name: 'events_total', help: 'Events' });
+
+        assert.equal(service.createCounter({ name: 'events_total', help: 'Events' }), first);
+        assert.equal(first.name, 'app_events_total');
+        assert.throws(() => service.createGauge({ name: 'events_total', help: 'Events' }), /already exists as a counter/);
+    });
+
+    it('rejects labels that were not declared and counters going down', () => {
+        const service = new MetricsService();
+        const counter = service.createCounter({ name: 'calls_total', help: 'Calls', labelNames: ['method'] });
+
+        assert.throws(() => counter.inc({ path: '/' }), /Unknown label 'path'/);
+        assert.throws(() => counter.inc(undefined, -1), /cannot decrease/);
+    });
+});
+
+describe('MetricsService over HTTP', () => {
+    const metricsService = new MetricsService();
+    let server: TestServer;
+
+    before(async () => {
+        server = await startServer(router => {
+            router.registerHandler(UsersController);
+            const controller = createMetricsController(metricsService);
+            router.registerHandler(controller.constructor, controller);
+        }, {}, { metricsService });
+    });
+
+    after(async () => {
+        await server?.close();
+    });
+
+    it('counts requests by method, route pattern and status', async () => {
+        await request(`${server.baseUrl}/users/1`);
+        await request(`${server.baseUrl}/users/2`);
+
+        const response = await request(`${server.baseUrl}/metrics`);
+
+        assert.equal(response.status, 200);
+        assert.equal(response.headers['content-type'], PROMETHEUS_CONTENT_TYPE);
+        assert.ok(response.body.split('\n').includes('http_requests_total{method="GET",route="/users/:id",status="200"} 2'));
+        assert.match(response.body, /http_request_duration_seconds_count\{method="GET",route="\/users\/:id",status="200"\} 2/);
+    });
+});
@@ -0,0 +1,71 @@
+/**
+ * Middleware pipeline over a real uWS server - onion order around the handler
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, request, TestServer } from './helpers/testServer';
+import { Route, GET } from '../src/core/decorators/RouteDecorators';
+import { UseMiddleware } from '../src/core/decorators/MiddlewareDecorators';
+import { MiddlewareContext, NextFunction } from '../src/middleware/MiddlewareContext';
+import { Middleware } from '../src/middleware/AuthenticationMiddleware';
+
+const calls: string[] = [];
+
+class TracingMiddleware extends Middleware {
+    constructor(private label: string) {
+        super();
+    }
+
+    async execute(context: MiddlewareContext, next: NextFunction): Promise<void> {
+        calls.push(`${this.label}:before`);
+        await next();
+        calls.push(`${this.label}:after:${context.response?.statusCode}`);
+    }
+}
+
+@Route('/items')
+class ItemsController {
+    @GET('/:id')
+    @UseMiddleware(() => { calls.push('route'); })
+    async getItem(context: MiddlewareContext) {
+        calls.push('handler');
+        context.res
+            .writeStatus('201 Created')
+            .writeHeader('Content-Type', 'application/json')
+            .end(JSON.stringify({ id: context.params?.id }));
+    }
+}
+
+describe('Middleware pipeline', () => {
+    let server: TestServer;
+
+    before(async () => {
+        server = await startServer(router => {
+            router.getMiddlewareManager().addGlobalMiddleware(new TracingMiddleware('outer'));
+            router.getMiddlewareManager().addGlobalMiddleware(new TracingMiddleware('inner'));
+            router.registerHandler(ItemsController);
+        });
+    });
+
+    after(async () => {
+        await server?.close();
+    });
+
+    it('runs middlewares as an onion around the handler', async () => {
+        calls.length = 0;
+        const response = await request(`${server.baseUrl}/items/42`);
+
+        assert.equal(response.status, 201);
+        assert.deepEqual(JSON.parse(response.body), { id: '42' });
+        // CORS is the first global middleware and is not traced
+        assert.deepEqual(calls, [
+            'outer:before',
+            'inner:before',
+            'route',
+            'handler',
+            'inner:after:201',
+            'outer:after:201'
+        ]);
+    });
+});
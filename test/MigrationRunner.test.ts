@@ -0,0 +1,109 @@
+/**
+ * MigrationRunner on SQLite - apply, revert, status and failed migrations
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MigrationRunner } from '../src/database/migrations/MigrationRunner';
+import { SQLiteProvider } from '../src/database/providers/SQLiteProvider';
+
+describe('MigrationRunner', () => {
+    let directory: string;
+    let provider: SQLiteProvider;
+    let runner: MigrationRunner;
+
+    const writeMigration = (file: string, content: string) => {
+        fs.writeFileSync(path.join(directory, file), content);
+    };
+
+    const tableExists = async (table: string) => {
+        const rows = await provider.query(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`, [table]);
+        return rows.length === 1;
+    };
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'uwrap-migrations-'));
+        provider = new SQLiteProvider({ file: ':memory:' });
+        runner = new MigrationRunner(provider, { directory });
+
+        writeMigration('1_create_users.sql', [
+            '-- migrate:up',
+            'CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT NOT NULL);',
+            '-- migrate:down',
+            'DROP TABLE users;'
+        ].join('\n'));
+        writeMigration('2_create_orders.sql', [
+            '-- migrate:up',
+            'CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER REFERENCES users(id));',
+            '-- migrate:down',
+            'DROP TABLE orders;'
+        ].join('\n'));
+    });
+
+    afterEach(async () => {
+        await provider.close();
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('applies pending migrations in version order, once', async () => {
+        assert.deepEqual(await runner.up(), ['1', '2']);
+        assert.deepEqual(await runner.up(), []);
+
+        assert.equal(await tableExists('users'), true);
+        assert.equal(await tableExists('orders'), true);
+    });
+
+    it('orders versions numerically', async () => {
+        writeMigration('10_add_index.sql', 'CREATE INDEX orders_user ON orders (user_id);');
+
+        assert.deepEqual(await runner.up(), ['1', '2', '10']);
+    });
+
+    it('stops at the target version', async () => {
+        assert.deepEqual(await runner.up('1'), ['1']);
+        assert.equal(await tableExists('orders'), false);
+    });
+
+    it('reverts the latest migrations', async () => {
+        await runner.up();
+
+        assert.deepEqual(await runner.down(), ['2']);
+        assert.equal(await tableExists('orders'), false);
+        assert.equal(await tableExists('users'), true);
+
+        const statuses = await runner.status();
+        assert.deepEqual(statuses.map(status => [status.version, status.applied]), [['1', true], ['2', false]]);
+    });
+
+    it('leaves neither schema changes nor a version behind when a migration fails', async () => {
+        writeMigration('3_broken.sql', [
+            'CREATE TABLE audit (id INTEGER PRIMARY KEY);',
+            'INSERT INTO missing_table VALUES (1);'
+        ].join('\n'));
+
+        await assert.rejects(runner.up(), /missing_table/);
+
+        assert.equal(await tableExists('audit'), false);
+        const statuses = await runner.status();
+        assert.deepEqual(statuses.map(status => [status.version, status.applied]), [['1', true], ['2', true], ['3', false]]);
+    });
+
+    it('reports applied migrations whose file is gone', async () => {
+        await runner.up();
+        fs.rmSync(path.join(directory, '2_create_orders.sql'));
+
+        const missing = (await runner.status()).find(status => status.version === '2');
+        assert.equal(missing?.missing, true);
+        await assert.rejects(runner.down(), /file not found/);
+    });
+
+    it('creates timestamped migration files', () => {
+        const file = MigrationRunner.create(directory, 'Add Products Table');
+
+        assert.match(path.basename(file), /^\d{14}_add_products_table\.sql$/);
+        assert.match(fs.readFileSync(file, 'utf-8'), /-- migrate:up[\s\S]*-- migrate:down/);
+    });
+});
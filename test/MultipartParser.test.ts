@@ -0,0 +1,178 @@
+/**
+ * MultipartParser - fields, files, limits and storages, fed in chunks and over HTTP
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { startServer, request, TestServer } from './helpers/testServer';
+import { MultipartParser, MultipartLimits } from '../src/core/upload/MultipartParser';
+import { DiskStorage, UploadStorage } from '../src/core/upload/UploadStorage';
+import { Route, POST } from '../src/core/decorators/RouteDecorators';
+import { MiddlewareContext } from '../src/middleware/MiddlewareContext';
+import { AppError } from '../src/utils/errorHandler';
+
+const BOUNDARY = '----uwrap-test-boundary';
+
+interface TestPart {
+    name: string;
+    value: string;
+    fileName?: string;
+    mimeType?: string;
+}
+
+function multipartBody(parts: TestPart[]): Buffer {
+    const sections = parts.map(part => {
+        const disposition = part.fileName === undefined
+            ? `form-data; name="${part.name}"`
+            : `form-data; name="${part.name}"; filename="${part.fileName}"`;
+        const contentType = part.mimeType ? `\r\nContent-Type: ${part.mimeType}` : '';
+        return `--${BOUNDARY}\r\nContent-Disposition: ${disposition}${contentType}\r\n\r\n${part.value}\r\n`;
+    });
+    return Buffer.from(`${sections.join('')}--${BOUNDARY}--\r\n`);
+}
+
+/**
+ * Feed the body in chunks of chunkSize bytes so boundaries land across chunks
+ */
+function parse(body: Buffer, chunkSize: number, storage?: UploadStorage, limits?: MultipartLimits) {
+    const parser = new MultipartParser(BOUNDARY, storage, limits);
+    for (let offset = 0; offset < body.length; offset += chunkSize) {
+        parser.write(body.subarray(offset, offset + chunkSize));
+    }
+    parser.end();
+    return parser.result;
+}
+
+@Route('/uploads')
+class UploadsController {
+    @POST()
+    async upload(context: MiddlewareContext) {
+        const { fields, files } = await context.getMultipartBody({ limits: { fileSize: 32 } });
+        return {
+            fields,
+            files: files.map(file => ({ fieldName: file.fieldName, fileName: file.fileName, text: file.buffer?.toString() }))
+        };
+    }
+}
+
+describe('MultipartParser', () => {
+    const body = multipartBody([
+        { name: 'title', value: 'Holiday' },
+        { name: 'tag', value: 'sea' },
+        { name: 'tag', value: 'sun' },
+        { name: 'photo', value: 'binary\r\n--not-a-boundary', fileName: 'beach.jpg', mimeType: 'image/jpeg' },
+        { name: 'empty', value: '', fileName: '' }
+    ]);
+
+    for (const chunkSize of [1, 7, body.length]) {
+        it(`parses fields and files fed in ${chunkSize}-byte chunks`, async () => {
+            const result = await parse(body, chunkSize);
+
+            assert.deepEqual(result.fields, { title: 'Holiday', tag: ['sea', 'sun'] });
+            assert.equal(result.files.length, 1);
+            assert.equal(result.files[0].fieldName, 'photo');
+            assert.equal(result.files[0].fileName, 'beach.jpg');
+            assert.equal(result.files[0].mimeType, 'image/jpeg');
+            assert.equal(result.files[0].buffer?.toString(), 'binary\r\n--not-a-boundary');
+            assert.equal(result.files[0].size, 24);
+        });
+    }
+
+    it('reads boundaries from the Content-Type', () => {
+        assert.equal(MultipartParser.getBoundary(`multipart/form-data; boundary=${BOUNDARY}`), BOUNDARY);
+        assert.equal(MultipartParser.getBoundary('multipart/form-data; boundary="quoted value"'), 'quoted value');
+        assert.equal(MultipartParser.getBoundary('application/json'), undefined);
+    });
+
+    it('rejects with 413 past a limit and aborts stored files', async () => {
+        let aborted = 0;
+        const storage: UploadStorage = {
+            createSink: () => ({
+                write: () => undefined,
+                finish: async () => ({}),
+                abort: () => {
+                    aborted++;
+                }
+            })
+        };
+
+        await assert.rejects(parse(body, 16, storage, { fileSize: 8 }), (error: unknown) => {
+            assert.ok(error instanceof AppError);
+            assert.equal(error.statusCode, 413);
+            return true;
+        });
+        assert.equal(aborted, 1);
+    });
+
+    it('rejects a body that ends before the closing boundary with 400', async () => {
+        await assert.rejects(parse(body.subarray(0, body.length - 10), 64), (error: unknown) => {
+            assert.ok(error instanceof AppError);
+            assert.equal(error.statusCode, 400);
+            return true;
+        });
+    });
+
+    it('writes files to a temporary directory with DiskStorage', async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'uwrap-uploads-'));
+        try {
+            const result = await parse(body, 64, new DiskStorage({ directory }));
+            const [file] = result.files;
+
+            assert.ok(file.path?.startsWith(directory));
+            assert.notEqual(path.basename(file.path!), 'beach.jpg');
+            assert.equal(fs.readFileSync(file.path!, 'utf8'), 'binary\r\n--not-a-boundary');
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    });
+});
+
+describe('Multipart uploads over HTTP', () => {
+    let server: TestServer;
+
+    before(async () => {
+        server = await startServer(router => {
+            router.registerHandler(UploadsController);
+        });
+    });
+
+    after(async () => {
+        await server?.close();
+    });
+
+    it('hands fields and files to the handler', async () => {
+        const response = await request(`${server.baseUrl}/uploads`, {
+            method: 'POST',
+            headers: { 'Content-Type': `multipart/form-data; boundary=${BOUNDARY}` },
+            body: multipartBody([
+                { name: 'title', value: 'Notes' },
+                { name: 'file', value: 'hello', fileName: 'notes.txt', mimeType: 'text/plain' }
+            ])
+        });
+
+        assert.equal(response.status, 200);
+        assert.deepEqual(JSON.parse(response.body).data, {
+            fields: { title: 'Notes' },
+            files: [{ fieldName: 'file', fileName: 'notes.txt', text: 'hello' }]
+        });
+    });
+
+    it('answers 413 for a file past the limit and 415 without a multipart body', async () => {
+        const tooLarge = await request(`${server.baseUrl}/uploads`, {
+            method: 'POST',
+            headers: { 'Content-Type': `multipart/form-data; boundary=${BOUNDARY}` },
+            body: multipartBody([{ name: 'file', value: 'x'.repeat(64), fileName: 'big.txt' }])
+        });
+        const notMultipart = await request(`${server.baseUrl}/uploads`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: '{}'
+        });
+
+        assert.equal(tooLarge.status, 413);
+        assert.equal(notMultipart.status, 415);
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * Path parameters - read from uWS by position, decoded and converted by @Param pipes
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, request, TestServer } from './helpers/testServer';
+import { Route, GET } from '../src/core/decorators/RouteDecorators';
+import { Param } from '../src/core/decorators/ParamDecorators';
+import { RouteRegistry } from '../src/core/routing/RouteRegistry';
+import { ParseIntPipe, ParseBoolPipe, ParseUUIDPipe, PipeTransform, ArgumentMetadata } from '../src/core/routing/Pipes';
+import { MiddlewareContext } from '../src/middleware/MiddlewareContext';
+import { AppError } from '../src/utils/errorHandler';
+
+class UpperCasePipe implements PipeTransform<string, string> {
+    transform(value: string): string {
+        return value.toUpperCase();
+    }
+}
+
+@Route('/users')
+class UserFilesController {
+    @GET('/:id/files/:name')
+    async getFile(context: MiddlewareContext, @Param('id', ParseIntPipe) id: number, @Param('name') name: string) {
+        return { id, name, params: context.params };
+    }
+
+    @GET('/:id/tags/:tag')
+    async getTag(@Param('tag', UpperCasePipe) tag: string) {
+        return { tag };
+    }
+}
+
+describe('Path parameters', () => {
+    let server: TestServer;
+
+    before(async () => {
+        server = await startServer(router => {
+            router.registerHandler(UserFilesController);
+        });
+    });
+
+    after(async () => {
+        await server?.close();
+    });
+
+    it('decodes parameters and converts them with pipes', async () => {
+        const response = await request(`${server.baseUrl}/users/42/files/annual%20report%2F2024.pdf`);
+
+        assert.equal(response.status, 200);
+        assert.deepEqual(JSON.parse(response.body).data, {
+            id: 42,
+            name: 'annual report/2024.pdf',
+            params: { id: 42, name: 'annual report/2024.pdf' }
+        });
+    });
+
+    it('answers 400 when a pipe rejects the parameter', async () => {
+        const response = await request(`${server.baseUrl}/users/abc/files/report.pdf`);
+
+        assert.equal(response.status, 400);
+        assert.match(JSON.parse(response.body).error, /Validation failed for param 'id' \(numeric string is expected\)/);
+    });
+
+    it('runs application pipes', async () => {
+        const response = await request(`${server.baseUrl}/users/1/tags/urgent`);
+
+        assert.deepEqual(JSON.parse(response.body).data, { tag: 'URGENT' });
+    });
+
+    it('lists parameter names in uWS order', () => {
+        assert.deepEqual(RouteRegistry.getParameterNames('/users/:id/posts/:postId'), ['id', 'postId']);
+        assert.deepEqual(RouteRegistry.getParameterNames('/health'), []);
+    });
+});
+
+describe('Built-in pipes', () => {
+    const metadata: ArgumentMetadata = { source: 'query', name: 'flag' };
+
+    const rejects = (transform: () => unknown) => assert.throws(transform, (error: unknown) => {
+        assert.ok(error instanceof AppError);
+        assert.equal(error.statusCode, 400);
+        return true;
+    });
+
+    it('parses integers and booleans', () => {
+        assert.equal(new ParseIntPipe().transform('-12', metadata), -12);
+        rejects(() => new ParseIntPipe().transform('12.5', metadata));
+
+        assert.equal(new ParseBoolPipe().transform('1', metadata), true);
+        assert.equal(new ParseBoolPipe().transform('false', metadata), false);
+        rejects(() => new ParseBoolPipe().transform('yes', metadata));
+    });
+
+    it('accepts UUIDs only', () => {
+        const uuid = '3f2504e0-4f89-11d3-9a0c-0305e82c3301';
+
+        assert.equal(new ParseUUIDPipe().transform(uuid, metadata), uuid);
+        rejects(() => new ParseUUIDPipe().transform('not-a-uuid', metadata));
+    });
+});
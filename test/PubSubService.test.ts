@@ -0,0 +1,124 @@
+/**
+ * PubSubService over a real uWS server - publishing, topic guards and subscriber metrics
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, silentLogger, TestServer } from './helpers/testServer';
+import { connectWebSocket, TestWebSocket } from './helpers/webSocketClient';
+import { WebSocketGateway, OnMessage } from '../src/core/decorators/WebSocketDecorators';
+import { GatewayManager, GatewaySocket } from '../src/core/websocket/GatewayManager';
+import { PubSubService } from '../src/core/websocket/PubSubService';
+import { MetricsService } from '../src/core/metrics/MetricsService';
+import { ErrorHandler } from '../src/utils/errorHandler';
+
+let pubSub: PubSubService;
+
+@WebSocketGateway('/ws/topics')
+class TopicsGateway {
+    @OnMessage('subscribe')
+    async subscribe(ws: GatewaySocket, data: { topic: string }) {
+        return { topic: data.topic, subscribed: await pubSub.subscribe(ws, data.topic) };
+    }
+
+    @OnMessage('unsubscribe')
+    unsubscribe(ws: GatewaySocket, data: { topic: string }) {
+        return { topic: data.topic, unsubscribed: pubSub.unsubscribe(ws, data.topic) };
+    }
+
+    @OnMessage('ping')
+    ping() {
+        return 'pong';
+    }
+}
+
+describe('PubSubService', () => {
+    const metricsService = new MetricsService();
+    let server: TestServer;
+    const sockets: TestWebSocket[] = [];
+
+    const connect = async (query: string = '') => {
+        const socket = await connectWebSocket(`${server.baseUrl.replace(/^http/, 'ws')}/ws/topics${query}`);
+        sockets.push(socket);
+        return socket;
+    };
+
+    const subscribe = async (socket: TestWebSocket, topic: string): Promise<boolean> => {
+        socket.send(JSON.stringify({ event: 'subscribe', data: { topic } }));
+        return (await socket.nextJson()).data.subscribed;
+    };
+
+    before(async () => {
+        server = await startServer((_router, wrapper) => {
+            const logger = silentLogger();
+            pubSub = new PubSubService(wrapper, logger, metricsService);
+            pubSub.registerGuard('vip', { canActivate: ({ ws }) => ws.getUserData().query.pass === 'vip' });
+            pubSub.protect('vip/+', ['vip']);
+            pubSub.protect('admin/#', ['admin']);
+            pubSub.protect('typo/#', ['not-registered']);
+
+            new GatewayManager(wrapper, logger, new ErrorHandler(logger, true)).registerGateway(TopicsGateway);
+        });
+    });
+
+    after(async () => {
+        await Promise.all(sockets.map(socket => socket.close()));
+        await server?.close();
+    });
+
+    it('delivers published messages to subscribers only', async () => {
+        const first = await connect();
+        const second = await connect();
+        const outsider = await connect();
+
+        assert.equal(await subscribe(first, 'news'), true);
+        assert.equal(await subscribe(second, 'news'), true);
+
+        assert.equal(pubSub.publish('news', { event: 'news:posted', data: { id: 1 } }), true);
+        assert.deepEqual(await first.nextJson(), { event: 'news:posted', data: { id: 1 } });
+        assert.deepEqual(await second.nextJson(), { event: 'news:posted', data: { id: 1 } });
+
+        // The outsider's next message is its own reply, not the publication
+        outsider.send(JSON.stringify({ event: 'ping' }));
+        assert.deepEqual(await outsider.nextJson(), { event: 'ping', data: 'pong' });
+    });
+
+    it('stops delivering after unsubscribe', async () => {
+        const socket = await connect();
+        await subscribe(socket, 'alerts');
+
+        socket.send(JSON.stringify({ event: 'unsubscribe', data: { topic: 'alerts' } }));
+        assert.deepEqual((await socket.nextJson()).data, { topic: 'alerts', unsubscribed: true });
+
+        assert.equal(pubSub.publish('alerts', 'ignored'), false);
+        assert.equal(pubSub.getSubscriberCount('alerts'), 0);
+    });
+
+    it('applies the guards of matching patterns', async () => {
+        const guest = await connect();
+        const vip = await connect('?pass=vip');
+
+        assert.equal(await subscribe(guest, 'vip/lounge'), false);
+        assert.equal(await subscribe(vip, 'vip/lounge'), true);
+        // `+` only matches one level
+        assert.equal(await subscribe(guest, 'vip/lounge/bar'), true);
+        assert.equal(await subscribe(vip, 'admin/audit/log'), false);
+    });
+
+    it('denies topics protected by a guard that is not registered', async () => {
+        const socket = await connect('?pass=vip');
+
+        assert.equal(await subscribe(socket, 'typo/anything'), false);
+    });
+
+    it('reports subscribers per topic root in the metrics', async () => {
+        const first = await connect();
+        const second = await connect();
+        await subscribe(first, 'orders/1');
+        await subscribe(second, 'orders/2');
+
+        assert.equal(pubSub.getStats().topics['orders/1'], 1);
+        assert.match(metricsService.render(), /websocket_topic_subscribers\{topic_root="orders"\} 2/);
+        assert.match(metricsService.render(), /websocket_messages_published_total 1/);
+    });
+});
@@ -0,0 +1,99 @@
+/**
+ * Request scopes - scoped services per HTTP request, disposed once the response is sent
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, request, TestServer } from './helpers/testServer';
+import { Route, GET } from '../src/core/decorators/RouteDecorators';
+import { UseMiddleware } from '../src/core/decorators/MiddlewareDecorators';
+import { MiddlewareContext } from '../src/middleware/MiddlewareContext';
+import { Container } from '../src/core/container/Container';
+import { SERVICE_TYPES } from '../src/core/container/ServiceTypes';
+
+let created = 0;
+const disposed: number[] = [];
+
+class RequestState {
+    readonly id = ++created;
+    readonly visited: string[] = [];
+
+    dispose(): void {
+        disposed.push(this.id);
+    }
+}
+
+@Route('/scope')
+class ScopeController {
+    @GET()
+    @UseMiddleware((context: MiddlewareContext) => {
+        context.scope!.resolve(RequestState).visited.push('middleware');
+    })
+    async show(context: MiddlewareContext) {
+        const state = context.scope!.resolve(RequestState);
+        state.visited.push('handler');
+
+        return {
+            id: state.id,
+            visited: state.visited,
+            sameContext: context.scope!.resolve(SERVICE_TYPES.RequestContext) === context
+        };
+    }
+}
+
+describe('Container scopes', () => {
+    it('shares scoped instances within a scope and keeps singletons in the root', () => {
+        const container = new Container();
+        container.registerScoped('state', () => ({}));
+        container.registerSingleton('config', () => ({}));
+
+        const first = container.createScope();
+        const second = container.createScope();
+
+        assert.equal(first.resolve('state'), first.resolve('state'));
+        assert.notEqual(first.resolve('state'), second.resolve('state'));
+        assert.equal(first.resolve('config'), second.resolve('config'));
+        assert.equal(first.isScope(), true);
+    });
+
+    it('keeps instances registered on a scope local to it', () => {
+        const container = new Container();
+        const scope = container.createScope();
+        scope.registerInstance('request', { path: '/' });
+
+        assert.equal(container.isRegistered('request'), false);
+        assert.deepEqual(scope.resolve('request'), { path: '/' });
+    });
+});
+
+describe('Request scopes over HTTP', () => {
+    let server: TestServer;
+
+    before(async () => {
+        const container = new Container();
+        container.registerScoped(RequestState, () => new RequestState());
+
+        server = await startServer(router => {
+            router.registerHandler(ScopeController);
+        }, {}, { container });
+    });
+
+    after(async () => {
+        await server?.close();
+    });
+
+    it('gives each request its own scoped services, shared by middlewares and handler', async () => {
+        const first = JSON.parse((await request(`${server.baseUrl}/scope`)).body).data;
+        const second = JSON.parse((await request(`${server.baseUrl}/scope`)).body).data;
+
+        assert.deepEqual(first.visited, ['middleware', 'handler']);
+        assert.notEqual(first.id, second.id);
+        assert.equal(first.sameContext, true);
+    });
+
+    it('disposes scoped services after the response', async () => {
+        const { id } = JSON.parse((await request(`${server.baseUrl}/scope`)).body).data;
+
+        assert.ok(disposed.includes(id));
+    });
+});
@@ -0,0 +1,99 @@
+/**
+ * Request snapshots - request data read after an await, and the snapshot itself
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, request, TestServer } from './helpers/testServer';
+import { captureRequest, DetachedRequest } from '../src/core/server/RequestSnapshot';
+import { Route, GET } from '../src/core/decorators/RouteDecorators';
+import { MiddlewareContext } from '../src/middleware/MiddlewareContext';
+import { UWSRequest } from '../src/types/middleware.types';
+
+@Route('/snapshot')
+class SnapshotController {
+    @GET('/:section/:id')
+    async read(context: MiddlewareContext) {
+        // uWS has invalidated the request by now
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        return {
+            tenant: context.req.getHeader('x-tenant'),
+            custom: context.headers?.['x-custom-header'],
+            url: context.req.getUrl(),
+            page: context.query?.page,
+            params: context.params
+        };
+    }
+}
+
+/**
+ * Request with a fixed set of headers - stands in for the uWS request
+ */
+function fakeRequest(headers: Array<[string, string]>): UWSRequest {
+    return {
+        getMethod: () => 'post',
+        getUrl: () => '/items/42',
+        getQuery: () => 'page=2&q=a%20b',
+        getHeader: () => '',
+        getParameter: (index: number) => ['42'][index],
+        forEach: (callback: (key: string, value: string) => void) => headers.forEach(([key, value]) => callback(key, value))
+    } as unknown as UWSRequest;
+}
+
+describe('captureRequest', () => {
+    it('copies every header, joining repeated ones', () => {
+        const snapshot = captureRequest(fakeRequest([
+            ['accept', 'text/html'],
+            ['x-forwarded-for', '10.0.0.1'],
+            ['x-forwarded-for', '10.0.0.2']
+        ]), 1);
+
+        assert.deepEqual(snapshot.headers, { accept: 'text/html', 'x-forwarded-for': '10.0.0.1, 10.0.0.2' });
+        assert.equal(snapshot.method, 'post');
+        assert.equal(snapshot.url, '/items/42');
+        assert.deepEqual(snapshot.parameters, ['42']);
+        assert.ok(Object.isFrozen(snapshot) && Object.isFrozen(snapshot.headers));
+    });
+
+    it('answers the uWS read API from the snapshot', () => {
+        // uWS reports header names in lower case
+        const detached = new DetachedRequest(captureRequest(fakeRequest([['x-tenant', 'acme']]), 1));
+
+        assert.equal(detached.getHeader('X-Tenant'), 'acme');
+        assert.equal(detached.getHeader('missing'), '');
+        assert.equal(detached.getQuery(), 'page=2&q=a%20b');
+        assert.equal(detached.getQuery('q'), 'a b');
+        assert.equal(detached.getParameter(0), '42');
+    });
+});
+
+describe('Request data after await', () => {
+    let server: TestServer;
+
+    before(async () => {
+        server = await startServer(router => {
+            router.registerHandler(SnapshotController);
+        });
+    });
+
+    after(async () => {
+        await server?.close();
+    });
+
+    it('keeps headers, URL, query and params of concurrent requests apart', async () => {
+        const responses = await Promise.all(['acme', 'globex'].map(tenant =>
+            request(`${server.baseUrl}/snapshot/${tenant}-section/${tenant}-id?page=${tenant}`, {
+                headers: { 'X-Tenant': tenant, 'X-Custom-Header': `custom-${tenant}` }
+            })
+        ));
+
+        assert.deepEqual(responses.map(response => JSON.parse(response.body).data), ['acme', 'globex'].map(tenant => ({
+            tenant,
+            custom: `custom-${tenant}`,
+            url: `/snapshot/${tenant}-section/${tenant}-id`,
+            page: tenant,
+            params: { section: `${tenant}-section`, id: `${tenant}-id` }
+        })));
+    });
+});
@@ -0,0 +1,125 @@
+/**
+ * SQLiteProvider - statements, transactions, savepoints and serialization
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { SQLiteProvider } from '../src/database/providers/SQLiteProvider';
+import { AppError } from '../src/utils/errorHandler';
+
+describe('SQLiteProvider', () => {
+    let provider: SQLiteProvider;
+
+    const names = async () =>
+        (await provider.query<{ name: string }>('SELECT name FROM items ORDER BY id')).map(row => row.name);
+
+    beforeEach(async () => {
+        provider = new SQLiteProvider({ file: ':memory:' });
+        await provider.executeScript(`
+            CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT NOT NULL UNIQUE, active INTEGER, created_at TEXT);
+        `);
+    });
+
+    afterEach(async () => {
+        await provider.close();
+    });
+
+    it('runs statements and reports changes and inserted ids', async () => {
+        const result = await provider.execute('INSERT INTO items (name, active, created_at) VALUES (?, ?, ?)', [
+            'first', true, new Date('2024-01-02T03:04:05.000Z')
+        ]);
+
+        assert.deepEqual(result, { changes: 1, lastInsertId: 1 });
+        assert.deepEqual(await provider.query('SELECT name, active, created_at FROM items'), [
+            { name: 'first', active: 1, created_at: '2024-01-02T03:04:05.000Z' }
+        ]);
+    });
+
+    it('maps unique violations to a 409 AppError', async () => {
+        await provider.execute('INSERT INTO items (name) VALUES (?)', ['first']);
+
+        await assert.rejects(provider.execute('INSERT INTO items (name) VALUES (?)', ['first']), (error: unknown) => {
+            assert.ok(error instanceof AppError);
+            assert.equal(error.statusCode, 409);
+            return true;
+        });
+    });
+
+    it('commits a transaction that resolves', async () => {
+        const result = await provider.transaction(async tx => {
+            await tx.execute('INSERT INTO items (name) VALUES (?)', ['a']);
+            await tx.execute('INSERT INTO items (name) VALUES (?)', ['b']);
+            return 'done';
+        });
+
+        assert.equal(result, 'done');
+        assert.deepEqual(await names(), ['a', 'b']);
+    });
+
+    it('rolls back a transaction that throws', async () => {
+        await assert.rejects(provider.transaction(async tx => {
+            await tx.execute('INSERT INTO items (name) VALUES (?)', ['a']);
+            throw new Error('boom');
+        }), /boom/);
+
+        assert.deepEqual(await names(), []);
+    });
+
+    it('rolls back a failed nested transaction to its savepoint only', async () => {
+        await provider.transaction(async tx => {
+            await tx.execute('INSERT INTO items (name) VALUES (?)', ['outer']);
+
+            await assert.rejects(tx.transaction(async nested => {
+                await nested.execute('INSERT INTO items (name) VALUES (?)', ['inner']);
+                throw new Error('inner failure');
+            }), /inner failure/);
+
+            await tx.transaction(async nested => {
+                await nested.execute('INSERT INTO items (name) VALUES (?)', ['second inner']);
+            });
+        });
+
+        assert.deepEqual(await names(), ['outer', 'second inner']);
+    });
+
+    it('keeps statements issued outside a transaction out of its rollback', async () => {
+        let release!: () => void;
+        const started = new Promise<void>(resolve => {
+            release = resolve;
+        });
+
+        const failing = provider.transaction(async tx => {
+            await tx.execute('INSERT INTO items (name) VALUES (?)', ['inside']);
+            release();
+            // Give the outside insert a chance to run before the rollback
+            await new Promise(resolve => setTimeout(resolve, 10));
+            throw new Error('rollback');
+        });
+
+        await started;
+        const outside = provider.execute('INSERT INTO items (name) VALUES (?)', ['outside']);
+
+        await assert.rejects(failing, /rollback/);
+        await outside;
+        assert.deepEqual(await names(), ['outside']);
+    });
+
+    it('runs concurrent transactions one after the other', async () => {
+        const order: string[] = [];
+
+        await Promise.all(['first', 'second'].map(name => provider.transaction(async tx => {
+            order.push(`${name}:start`);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            await tx.execute('INSERT INTO items (name) VALUES (?)', [name]);
+            order.push(`${name}:end`);
+        })));
+
+        assert.deepEqual(order, ['first:start', 'first:end', 'second:start', 'second:end']);
+        assert.deepEqual(await names(), ['first', 'second']);
+    });
+
+    it('refuses unsafe identifiers', () => {
+        assert.equal(provider.quoteIdentifier('items'), '"items"');
+        assert.throws(() => provider.quoteIdentifier('items; DROP TABLE items'), /Invalid SQL identifier/);
+    });
+});
@@ -0,0 +1,117 @@
+/**
+ * @SSE routes over a real uWS server - event framing, resume and client disconnects
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { startServer, request, TestServer } from './helpers/testServer';
+import { Route, GET } from '../src/core/decorators/RouteDecorators';
+import { SSE } from '../src/core/decorators/MiddlewareDecorators';
+import { MiddlewareContext } from '../src/middleware/MiddlewareContext';
+import { SseStream } from '../src/middleware/SseStream';
+
+let resumedFrom: string | undefined;
+let releaseClosed: () => void;
+const streamClosed = new Promise<void>(resolve => {
+    releaseClosed = resolve;
+});
+
+@Route('/events')
+class EventsController {
+    @GET('/orders')
+    @SSE({ retry: 3000, keepAliveMs: 0 })
+    orders(context: MiddlewareContext) {
+        const stream = context.sse();
+        stream.send({ id: 1, status: 'paid' }, { event: 'order', id: 1 });
+        stream.send('first line\nsecond line');
+        stream.close();
+    }
+
+    @GET('/resume')
+    @SSE({
+        keepAliveMs: 0,
+        onResume: (lastEventId: string, stream: SseStream) => {
+            resumedFrom = lastEventId;
+            stream.send('replayed', { id: Number(lastEventId) + 1 });
+            stream.close();
+        }
+    })
+    resume() {
+        // Events are sent by onResume
+    }
+
+    @GET('/live')
+    @SSE({ keepAliveMs: 0 })
+    live(context: MiddlewareContext) {
+        const stream = context.sse();
+        stream.comment('connected');
+        stream.onClose(() => releaseClosed());
+    }
+}
+
+describe('Server-Sent Events', () => {
+    let server: TestServer;
+
+    before(async () => {
+        server = await startServer(router => {
+            router.registerHandler(EventsController);
+        });
+    });
+
+    after(async () => {
+        await server?.close();
+    });
+
+    it('streams framed events with the event-stream headers', async () => {
+        const response = await request(`${server.baseUrl}/events/orders`);
+
+        assert.equal(response.status, 200);
+        assert.equal(response.headers['content-type'], 'text/event-stream; charset=utf-8');
+        assert.equal(response.headers['cache-control'], 'no-cache');
+        assert.equal(response.body, [
+            'retry: 3000',
+            '',
+            'event: order',
+            'id: 1',
+            'data: {"id":1,"status":"paid"}',
+            '',
+            'data: first line',
+            'data: second line',
+            '',
+            ''
+        ].join('\n'));
+    });
+
+    it('hands the Last-Event-ID of a reconnecting client to onResume', async () => {
+        const response = await request(`${server.baseUrl}/events/resume`, {
+            headers: { 'Last-Event-ID': '41' }
+        });
+
+        assert.equal(resumedFrom, '41');
+        assert.equal(response.body, 'id: 42\ndata: replayed\n\n');
+    });
+
+    it('answers HEAD with the headers only', async () => {
+        const response = await request(`${server.baseUrl}/events/orders`, { method: 'HEAD' });
+
+        assert.equal(response.status, 200);
+        assert.equal(response.headers['content-type'], 'text/event-stream; charset=utf-8');
+        assert.equal(response.body, '');
+    });
+
+    it('keeps the stream open after the handler and closes it when the client leaves', async () => {
+        const firstChunk = await new Promise<string>((resolve, reject) => {
+            const req = http.get(`${server.baseUrl}/events/live`, { agent: false }, (res) => {
+                res.once('data', (chunk: Buffer) => {
+                    resolve(chunk.toString());
+                    req.destroy();
+                });
+            });
+            req.on('error', reject);
+        });
+
+        assert.equal(firstChunk, ': connected\n\n');
+        await streamClosed;
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * HTTPS through uWS.SSLApp - default certificate, SNI certificates and the HTTP redirect
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, request, findFreePort, TestServer } from './helpers/testServer';
+import {
+    createCertificateDirectory,
+    removeCertificateDirectory,
+    createSelfSignedCertificate
+} from './helpers/certificates';
+import { createTemplatedApp } from '../src/core/server/TlsAppFactory';
+
+describe('TLS', () => {
+    let directory: string;
+    let server: TestServer;
+    let redirectPort: number;
+
+    before(async () => {
+        directory = createCertificateDirectory();
+        const defaultCertificate = createSelfSignedCertificate(directory, 'localhost', 'secret');
+        const apiCertificate = createSelfSignedCertificate(directory, 'api.example.test');
+        redirectPort = await findFreePort();
+
+        server = await startServer((router, wrapper) => {
+            wrapper.addHttpHandler('get', '/hello', (req, res) => {
+                res.end('hello over tls');
+            });
+        }, {
+            ssl: {
+                enabled: true,
+                ...defaultCertificate,
+                passphrase: 'secret',
+                serverNames: { 'api.example.test': apiCertificate },
+                redirectHttpPort: redirectPort
+            }
+        });
+    });
+
+    after(async () => {
+        await server?.close();
+        removeCertificateDirectory(directory);
+    });
+
+    it('serves HTTPS with the default certificate', async () => {
+        const response = await request(`${server.baseUrl}/hello`);
+
+        assert.equal(server.baseUrl.startsWith('https://'), true);
+        assert.equal(response.status, 200);
+        assert.equal(response.body, 'hello over tls');
+        assert.equal(response.certificateName, 'localhost');
+    });
+
+    it('selects the certificate matching the SNI server name', async () => {
+        const response = await request(`${server.baseUrl}/hello`, { servername: 'api.example.test' });
+
+        assert.equal(response.status, 200);
+        assert.equal(response.certificateName, 'api.example.test');
+    });
+
+    it('redirects plain HTTP to HTTPS keeping host, path and query', async () => {
+        const response = await request(`http://127.0.0.1:${redirectPort}/orders/42?page=2`, {
+            headers: { Host: 'shop.example.test:8080' }
+        });
+
+        assert.equal(response.status, 301);
+        assert.equal(response.headers.location, `https://shop.example.test:${server.wrapper.getPort()}/orders/42?page=2`);
+    });
+
+    it('refuses missing certificate files up front', () => {
+        assert.throws(
+            () => createTemplatedApp({ enabled: true, certPath: `${directory}/missing.pem`, keyPath: `${directory}/missing.key` }),
+            /SSL file not found for 'default'/
+        );
+        assert.throws(
+            () => createTemplatedApp({ enabled: true, serverNames: { 'api.example.test': {} } }),
+            /SSL certificate 'default' requires certPath and keyPath/
+        );
+    });
+});
@@ -0,0 +1,142 @@
+/**
+ * @WebSocketGateway over a real uWS server - envelope routing, validation and upgrade authentication
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, silentLogger, TestServer } from './helpers/testServer';
+import { connectWebSocket, TestWebSocket } from './helpers/webSocketClient';
+import { WebSocketGateway, OnOpen, OnMessage } from '../src/core/decorators/WebSocketDecorators';
+import { GatewayManager, GatewaySocket } from '../src/core/websocket/GatewayManager';
+import { ErrorHandler } from '../src/utils/errorHandler';
+import { JwtService } from '../src/auth/JwtService';
+import { UserRoleService } from '../src/auth/UserRoleService';
+import { AuthenticationErrorHandler } from '../src/auth/AuthenticationErrorHandler';
+
+@WebSocketGateway('/ws/chat')
+class ChatGateway {
+    @OnOpen()
+    greet(ws: GatewaySocket) {
+        ws.send(JSON.stringify({ event: 'welcome', data: { connectionId: ws.getUserData().connectionId } }));
+    }
+
+    @OnMessage('chat:send', {
+        schema: { fields: { text: [{ type: 'required' }, { type: 'string' }] } }
+    })
+    send(_ws: GatewaySocket, data: { text: string }) {
+        return { echoed: data.text };
+    }
+
+    @OnMessage('chat:fail')
+    fail() {
+        throw new Error('Handler failed');
+    }
+}
+
+@WebSocketGateway('/ws/private', { auth: true })
+class PrivateGateway {
+    @OnMessage('whoami')
+    whoami(ws: GatewaySocket) {
+        return { email: ws.getUserData().user?.email };
+    }
+}
+
+describe('GatewayManager', () => {
+    const jwtService = new JwtService('test-secret');
+    let server: TestServer;
+    let wsUrl: string;
+    const sockets: TestWebSocket[] = [];
+
+    const connect = async (path: string, headers?: Record<string, string>) => {
+        const socket = await connectWebSocket(`${wsUrl}${path}`, headers);
+        sockets.push(socket);
+        return socket;
+    };
+
+    before(async () => {
+        server = await startServer((_router, wrapper) => {
+            const logger = silentLogger();
+            const gateways = new GatewayManager(wrapper, logger, new ErrorHandler(logger, true), {
+                jwtService,
+                userRoleService: new UserRoleService(),
+                authErrorHandler: new AuthenticationErrorHandler(logger)
+            });
+            gateways.registerGateway(ChatGateway);
+            gateways.registerGateway(PrivateGateway);
+        });
+        wsUrl = server.baseUrl.replace(/^http/, 'ws');
+    });
+
+    after(async () => {
+        await Promise.all(sockets.map(socket => socket.close()));
+        await server?.close();
+    });
+
+    it('calls @OnOpen and replies to an event with the same event name', async () => {
+        const socket = await connect('/ws/chat');
+
+        const welcome = await socket.nextJson();
+        assert.equal(welcome.event, 'welcome');
+        assert.equal(typeof welcome.data.connectionId, 'string');
+
+        socket.send(JSON.stringify({ event: 'chat:send', data: { text: 'hello' } }));
+        assert.deepEqual(await socket.nextJson(), { event: 'chat:send', data: { echoed: 'hello' } });
+    });
+
+    it('answers invalid envelopes and unknown events with an error event', async () => {
+        const socket = await connect('/ws/chat');
+        await socket.nextJson();
+
+        socket.send('not json');
+        const invalid = await socket.nextJson();
+        assert.equal(invalid.event, 'error');
+        assert.match(invalid.data.message, /Invalid message/);
+
+        socket.send(JSON.stringify({ event: 'chat:unknown' }));
+        assert.deepEqual(await socket.nextJson(), {
+            event: 'error',
+            data: { event: 'chat:unknown', message: `Unknown event 'chat:unknown'` }
+        });
+    });
+
+    it('validates event data against the handler schema', async () => {
+        const socket = await connect('/ws/chat');
+        await socket.nextJson();
+
+        socket.send(JSON.stringify({ event: 'chat:send', data: { text: 42 } }));
+        const reply = await socket.nextJson();
+
+        assert.equal(reply.event, 'error');
+        assert.equal(reply.data.event, 'chat:send');
+        assert.equal(reply.data.message, 'Validation failed');
+        assert.ok(reply.data.errors.length > 0);
+    });
+
+    it('sends handler errors as an error event and keeps the connection open', async () => {
+        const socket = await connect('/ws/chat');
+        await socket.nextJson();
+
+        socket.send(JSON.stringify({ event: 'chat:fail' }));
+        const failure = await socket.nextJson();
+        assert.equal(failure.event, 'error');
+        assert.equal(failure.data.event, 'chat:fail');
+
+        socket.send(JSON.stringify({ event: 'chat:send', data: { text: 'still here' } }));
+        assert.deepEqual((await socket.nextJson()).data, { echoed: 'still here' });
+    });
+
+    it('refuses the upgrade of an authenticated gateway without a token', async () => {
+        await assert.rejects(connectWebSocket(`${wsUrl}/ws/private`), /Unexpected response 401/);
+    });
+
+    it('accepts a token from the header or ?access_token= and exposes the user', async () => {
+        const token = jwtService.generateToken({ userId: 1, email: 'user@example.test', role: 'user' });
+        const fromHeader = await connect('/ws/private', { Authorization: `Bearer ${token}` });
+        const fromQuery = await connect(`/ws/private?access_token=${token}`);
+
+        for (const socket of [fromHeader, fromQuery]) {
+            socket.send(JSON.stringify({ event: 'whoami' }));
+            assert.deepEqual(await socket.nextJson(), { event: 'whoami', data: { email: 'user@example.test' } });
+        }
+    });
+});
@@ -0,0 +1,157 @@
+/**
+ * WebSocketSender - backpressure queueing and dropping, and the WebSocket environment settings
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebSocketSender, WebSocketSenderOptions } from '../src/core/server/WebSocketSender';
+import { ApplicationConfigBuilder } from '../src/core/container/ApplicationConfig';
+
+/**
+ * Connection whose buffered amount is set by the test - stands in for the uWS socket
+ */
+class FakeSocket {
+    bufferedAmount = 0;
+    sent: string[] = [];
+    closed = false;
+
+    getBufferedAmount(): number {
+        this.assertOpen();
+        return this.bufferedAmount;
+    }
+
+    send(message: string): number {
+        this.assertOpen();
+        this.sent.push(message);
+        return 1;
+    }
+
+    cork(callback: () => void): void {
+        this.assertOpen();
+        callback();
+    }
+
+    private assertOpen(): void {
+        if (this.closed) {
+            throw new Error('Invalid access of closed uWS.WebSocket/SSLWebSocket.');
+        }
+    }
+}
+
+function createSender(options: Partial<WebSocketSenderOptions> = {}): WebSocketSender {
+    return new WebSocketSender({ maxBackpressure: 100, policy: 'queue', maxQueuedMessages: 2, ...options });
+}
+
+describe('WebSocketSender', () => {
+    it('sends right away while the connection has room', () => {
+        const sender = createSender();
+        const ws = new FakeSocket();
+
+        assert.equal(sender.send(ws as any, 'hello'), 'sent');
+        assert.deepEqual(ws.sent, ['hello']);
+    });
+
+    it('queues under backpressure and flushes in order on drain', () => {
+        const sender = createSender({ maxQueuedMessages: 10 });
+        const ws = new FakeSocket();
+        ws.bufferedAmount = 200;
+
+        assert.equal(sender.send(ws as any, 'first'), 'queued');
+        assert.equal(sender.send(ws as any, 'second'), 'queued');
+
+        // Room again, but the queue must go out first
+        ws.bufferedAmount = 0;
+        assert.equal(sender.send(ws as any, 'third'), 'queued');
+        assert.deepEqual(ws.sent, []);
+
+        assert.equal(sender.flush(ws as any), true);
+        assert.deepEqual(ws.sent, ['first', 'second', 'third']);
+        assert.equal(sender.getQueuedCount(ws as any), 0);
+    });
+
+    it('drops messages once the queue is full', () => {
+        const sender = createSender();
+        const ws = new FakeSocket();
+        ws.bufferedAmount = 200;
+
+        assert.deepEqual(['a', 'b', 'c'].map(message => sender.send(ws as any, message)), ['queued', 'queued', 'dropped']);
+        assert.deepEqual(sender.getStats(), { backpressuredConnections: 1, queuedMessages: 2, droppedMessages: 1 });
+    });
+
+    it('drops instead of queueing with the drop policy', () => {
+        const sender = createSender({ policy: 'drop' });
+        const ws = new FakeSocket();
+        ws.bufferedAmount = 200;
+
+        assert.equal(sender.send(ws as any, 'lost'), 'dropped');
+        assert.equal(sender.getQueuedCount(ws as any), 0);
+    });
+
+    it('keeps what does not fit queued until the next drain', () => {
+        const sender = createSender({ maxQueuedMessages: 10 });
+        const ws = new FakeSocket();
+        ws.bufferedAmount = 200;
+        sender.send(ws as any, 'first');
+        sender.send(ws as any, 'second');
+
+        ws.bufferedAmount = 0;
+        const originalSend = ws.send.bind(ws);
+        ws.send = (message: string) => {
+            ws.bufferedAmount = 200;
+            return originalSend(message);
+        };
+
+        assert.equal(sender.flush(ws as any), false);
+        assert.deepEqual(ws.sent, ['first']);
+        assert.equal(sender.getQueuedCount(ws as any), 1);
+    });
+
+    it('drops queued and new messages of a closed connection', () => {
+        const sender = createSender();
+        const ws = new FakeSocket();
+        ws.bufferedAmount = 200;
+        sender.send(ws as any, 'queued');
+
+        ws.closed = true;
+        sender.release(ws as any);
+
+        assert.equal(sender.send(ws as any, 'late'), 'dropped');
+        assert.deepEqual(sender.getStats(), { backpressuredConnections: 0, queuedMessages: 0, droppedMessages: 2 });
+    });
+});
+
+describe('WebSocket environment settings', () => {
+    const variables = ['JWT_SECRET', 'DB_FILE', 'WS_COMPRESSION', 'WS_BACKPRESSURE_POLICY', 'WS_MAX_BACKPRESSURE'];
+
+    beforeEach(() => {
+        process.env.JWT_SECRET = 'test-secret-that-is-at-least-32-characters';
+        process.env.DB_FILE = ':memory:';
+    });
+
+    afterEach(() => {
+        for (const name of variables) {
+            delete process.env[name];
+        }
+    });
+
+    it('reads the WebSocket settings', async () => {
+        process.env.WS_COMPRESSION = 'shared';
+        process.env.WS_BACKPRESSURE_POLICY = 'drop';
+        process.env.WS_MAX_BACKPRESSURE = '4096';
+
+        const config = await ApplicationConfigBuilder.fromEnvironment().build();
+
+        assert.equal(config.websocket?.compression, 'shared');
+        assert.equal(config.websocket?.backpressurePolicy, 'drop');
+        assert.equal(config.websocket?.maxBackpressure, 4096);
+    });
+
+    it('rejects unknown compression and backpressure policy values', () => {
+        process.env.WS_COMPRESSION = 'gzip';
+        assert.throws(() => ApplicationConfigBuilder.fromEnvironment(), /WS_COMPRESSION must be one of: disabled, shared, dedicated/);
+
+        delete process.env.WS_COMPRESSION;
+        process.env.WS_BACKPRESSURE_POLICY = 'block';
+        assert.throws(() => ApplicationConfigBuilder.fromEnvironment(), /WS_BACKPRESSURE_POLICY must be one of: queue, drop/);
+    });
+});
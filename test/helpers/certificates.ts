@@ -0,0 +1,44 @@
+/**
+ * Self-signed certificates for TLS tests
+ * Single responsibility: Generate throwaway key/certificate pairs with openssl
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+
+export interface TestCertificate {
+    certPath: string;
+    keyPath: string;
+}
+
+/**
+ * Temporary folder removed with removeCertificateDirectory()
+ */
+export function createCertificateDirectory(): string {
+    return fs.mkdtempSync(path.join(os.tmpdir(), 'uwrap-tls-'));
+}
+
+export function removeCertificateDirectory(directory: string): void {
+    fs.rmSync(directory, { recursive: true, force: true });
+}
+
+/**
+ * Generate a self-signed certificate for a hostname (its subject CN)
+ * @param passphrase - Encrypt the private key with it
+ */
+export function createSelfSignedCertificate(directory: string, hostname: string, passphrase?: string): TestCertificate {
+    const certPath = path.join(directory, `${hostname}.cert.pem`);
+    const keyPath = path.join(directory, `${hostname}.key.pem`);
+
+    execFileSync('openssl', [
+        'req', '-x509', '-newkey', 'rsa:2048', '-sha256', '-days', '1',
+        '-subj', `/CN=${hostname}`,
+        '-keyout', keyPath,
+        '-out', certPath,
+        ...(passphrase ? ['-passout', `pass:${passphrase}`] : ['-nodes'])
+    ], { stdio: 'ignore' });
+
+    return { certPath, keyPath };
+}
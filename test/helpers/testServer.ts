@@ -0,0 +1,118 @@
+/**
+ * Test server - a real uWS server on an ephemeral port and a minimal HTTP(S) client
+ * Single responsibility: Start, query and stop servers from tests
+ */
+
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { TLSSocket } from 'tls';
+import { UWebSocketWrapper, UWebSocketWrapperOptions } from '../../src/core/ServerWrapper';
+import { Router, RouterOptions } from '../../src/core/routing/Router';
+import { Logger } from '../../src/utils/logger';
+import { ErrorHandler } from '../../src/utils/errorHandler';
+
+export interface TestServer {
+    wrapper: UWebSocketWrapper;
+    router: Router;
+    /** e.g. http://127.0.0.1:41234 */
+    baseUrl: string;
+    close(): Promise<void>;
+}
+
+export interface TestResponse {
+    status: number;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+    /** Subject common name of the server certificate (HTTPS only) */
+    certificateName?: string;
+}
+
+export interface TestRequestOptions {
+    method?: string;
+    headers?: Record<string, string>;
+    body?: string | Buffer;
+    /** TLS server name sent for SNI */
+    servername?: string;
+}
+
+/**
+ * Logger writing nowhere - keeps test output readable
+ */
+export function silentLogger(): Logger {
+    return new Logger({ transports: [] });
+}
+
+/**
+ * Start a server with a Router on 127.0.0.1 and an ephemeral port
+ * @param setup - Register handlers on the router before the server listens
+ */
+export async function startServer(
+    setup: (router: Router, wrapper: UWebSocketWrapper) => void,
+    options: UWebSocketWrapperOptions = {},
+    routerOptions: RouterOptions = {}
+): Promise<TestServer> {
+    const logger = silentLogger();
+    const errorHandler = new ErrorHandler(logger, true);
+    const wrapper = new UWebSocketWrapper(0, logger, errorHandler, undefined, { host: '127.0.0.1', ...options });
+    const router = new Router(wrapper, logger, errorHandler, { enableLogging: false, ...routerOptions });
+
+    setup(router, wrapper);
+    await wrapper.start();
+
+    return {
+        wrapper,
+        router,
+        baseUrl: `${wrapper.getProtocol()}://127.0.0.1:${wrapper.getPort()}`,
+        close: async () => {
+            router.onShutdown();
+            await wrapper.stop(1000);
+        }
+    };
+}
+
+/**
+ * Send a request - self-signed certificates are accepted
+ */
+export function request(url: string, options: TestRequestOptions = {}): Promise<TestResponse> {
+    const target = new URL(url);
+    const client = target.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+        const req = client.request(target, {
+            method: options.method || 'GET',
+            headers: options.headers,
+            servername: options.servername,
+            rejectUnauthorized: false,
+            agent: false
+        }, (res) => {
+            const chunks: Buffer[] = [];
+            res.on('data', (chunk: Buffer) => chunks.push(chunk));
+            res.on('end', () => resolve({
+                status: res.statusCode || 0,
+                headers: res.headers,
+                body: Buffer.concat(chunks).toString('utf8'),
+                certificateName: res.socket instanceof TLSSocket
+                    ? String(res.socket.getPeerCertificate().subject?.CN)
+                    : undefined
+            }));
+        });
+
+        req.on('error', reject);
+        req.end(options.body);
+    });
+}
+
+/**
+ * A TCP port nothing listens on right now
+ */
+export function findFreePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.on('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as net.AddressInfo;
+            server.close(() => resolve(port));
+        });
+    });
+}
@@ -0,0 +1,156 @@
+/**
+ * WebSocket client - just enough RFC 6455 to talk to a uWS server from tests
+ * Single responsibility: Open a connection, exchange text frames, close
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import { Duplex } from 'stream';
+
+export interface TestWebSocket {
+    /** Send a text frame */
+    send(text: string): void;
+    /** The next text message not taken yet */
+    nextMessage(timeoutMs?: number): Promise<string>;
+    /** The next message parsed as JSON */
+    nextJson<T = any>(timeoutMs?: number): Promise<T>;
+    /** Start the closing handshake and wait for the server's close frame */
+    close(code?: number): Promise<WebSocketClose>;
+    /** Settles once the server closed the connection */
+    closed: Promise<WebSocketClose>;
+}
+
+export interface WebSocketClose {
+    code: number;
+    reason: string;
+}
+
+const OPCODES = { text: 0x1, close: 0x8, ping: 0x9, pong: 0xa };
+
+/**
+ * Open a WebSocket - rejects with the status code when the server refuses the upgrade
+ */
+export function connectWebSocket(url: string, headers: Record<string, string> = {}): Promise<TestWebSocket> {
+    const target = new URL(url.replace(/^ws/, 'http'));
+
+    return new Promise((resolve, reject) => {
+        const req = http.request(target, {
+            agent: false,
+            headers: {
+                Connection: 'Upgrade',
+                Upgrade: 'websocket',
+                'Sec-WebSocket-Version': '13',
+                'Sec-WebSocket-Key': crypto.randomBytes(16).toString('base64'),
+                ...headers
+            }
+        });
+
+        req.on('upgrade', (_res, socket, head) => resolve(createClient(socket, head)));
+        req.on('response', (res) => {
+            res.resume();
+            reject(new Error(`Unexpected response ${res.statusCode}`));
+        });
+        req.on('error', reject);
+        req.end();
+    });
+}
+
+function createClient(socket: Duplex, head: Buffer): TestWebSocket {
+    const messages: string[] = [];
+    const waiters: Array<(message: string) => void> = [];
+    let buffer = Buffer.alloc(0);
+    let resolveClosed!: (close: WebSocketClose) => void;
+    const closed = new Promise<WebSocketClose>(resolve => {
+        resolveClosed = resolve;
+    });
+
+    const writeFrame = (opcode: number, payload: Buffer) => {
+        // Client frames are masked
+        const mask = crypto.randomBytes(4);
+        const length = payload.length < 126 ? Buffer.from([payload.length | 0x80])
+            : Buffer.from([126 | 0x80, payload.length >> 8, payload.length & 0xff]);
+        const masked = Buffer.from(payload.map((byte, index) => byte ^ mask[index % 4]));
+        socket.write(Buffer.concat([Buffer.from([0x80 | opcode]), length, mask, masked]));
+    };
+
+    const receive = (chunk: Buffer) => {
+        buffer = Buffer.concat([buffer, chunk]);
+
+        while (buffer.length >= 2) {
+            const opcode = buffer[0] & 0x0f;
+            let length = buffer[1] & 0x7f;
+            let offset = 2;
+
+            if (length === 126) {
+                if (buffer.length < 4) return;
+                length = buffer.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (buffer.length < 10) return;
+                length = Number(buffer.readBigUInt64BE(2));
+                offset = 10;
+            }
+            if (buffer.length < offset + length) return;
+
+            const payload = buffer.subarray(offset, offset + length);
+            buffer = buffer.subarray(offset + length);
+
+            if (opcode === OPCODES.close) {
+                resolveClosed({
+                    code: payload.length >= 2 ? payload.readUInt16BE(0) : 1005,
+                    reason: payload.subarray(2).toString('utf8')
+                });
+                socket.end();
+            } else if (opcode === OPCODES.ping) {
+                writeFrame(OPCODES.pong, payload);
+            } else if (opcode !== OPCODES.pong) {
+                const message = payload.toString('utf8');
+                const waiter = waiters.shift();
+                if (waiter) {
+                    waiter(message);
+                } else {
+                    messages.push(message);
+                }
+            }
+        }
+    };
+
+    socket.on('data', receive);
+    socket.on('close', () => resolveClosed({ code: 1006, reason: '' }));
+    socket.on('error', () => undefined);
+    if (head.length > 0) {
+        receive(head);
+    }
+
+    const nextMessage = (timeoutMs: number = 1000) => {
+        const queued = messages.shift();
+        if (queued !== undefined) {
+            return Promise.resolve(queued);
+        }
+
+        return new Promise<string>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                waiters.splice(waiters.indexOf(waiter), 1);
+                reject(new Error(`No message within ${timeoutMs}ms`));
+            }, timeoutMs);
+            const waiter = (message: string) => {
+                clearTimeout(timer);
+                resolve(message);
+            };
+            waiters.push(waiter);
+        });
+    };
+
+    return {
+        send: (text) => writeFrame(OPCODES.text, Buffer.from(text)),
+        nextMessage,
+        nextJson: async (timeoutMs) => JSON.parse(await nextMessage(timeoutMs)),
+        close: (code = 1000) => {
+            const payload = Buffer.alloc(2);
+            payload.writeUInt16BE(code);
+            writeFrame(OPCODES.close, payload);
+            return closed;
+        },
+        closed
+    };
+}